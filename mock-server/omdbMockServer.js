@@ -0,0 +1,305 @@
+/**
+ * OMDb Mock Server
+ * A local stand-in for the OMDb API, for development without an API key and for
+ * integration tests. It answers `s=`, `i=`, `t=`, `type=`, `y=`, `page=`, `Season=`
+ * and `Episode=` requests the way OMDb does, in one of three modes:
+ * - fixtures: answers from the fixture catalog (fixtures/catalog.json)
+ * - record:   forwards requests to OMDb and saves each response
+ * - replay:   answers only from the saved responses
+ *
+ * Run it with `npm run mock-omdb` (add `-- --record` or `-- --replay` to switch
+ * mode) and point the app at it with REACT_APP_OMDB_BASE_URL=http://localhost:4010/
+ */
+const fs = require('fs');
+const http = require('http');
+const https = require('https');
+const path = require('path');
+
+// Port the server listens on unless MOCK_OMDB_PORT or --port= says otherwise
+const DEFAULT_PORT = 4010;
+
+// Number of results OMDb returns per page
+const PAGE_SIZE = 10;
+
+// Queries shorter than this are too broad for OMDb to answer
+const MIN_QUERY_LENGTH = 3;
+
+const DEFAULT_CATALOG_FILE = path.join(__dirname, 'fixtures', 'catalog.json');
+const DEFAULT_RECORDINGS_FILE = path.join(__dirname, 'fixtures', 'recordings.json');
+const DEFAULT_UPSTREAM_URL = 'https://www.omdbapi.com/';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Builds a successful OMDb response
+ * @param {object} body The response fields
+ * @returns {{status: number, body: object}} The response
+ */
+const success = (body) => ({ status: 200, body: { ...body, Response: 'True' } });
+
+/**
+ * Builds a failed OMDb response
+ * @param {string} error The OMDb error message, e.g. "Movie not found!"
+ * @param {number} status The HTTP status (OMDb uses 200 for most failures)
+ * @returns {{status: number, body: object}} The response
+ */
+const failure = (error, status = 200) => ({ status, body: { Response: 'False', Error: error } });
+
+/**
+ * Splits text into lower-case words, ignoring punctuation
+ * @param {string} text The text to split
+ * @returns {string[]} The words
+ */
+const words = (text) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Converts an OMDb release date (e.g. "20 Jan 2008") to the YYYY-MM-DD form used in season listings
+ * @param {string} released The release date
+ * @returns {string} The date, or "N/A" when it can't be read
+ */
+const toIsoDate = (released) => {
+  const [day, month, year] = (released || '').split(' ');
+  const monthIndex = MONTHS.indexOf(month);
+  if (!day || monthIndex === -1 || !year) {
+    return 'N/A';
+  }
+  return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+/**
+ * Checks a title against the `type=` and `y=` parameters
+ * @param {object} title The catalog title
+ * @param {URLSearchParams} params The request parameters
+ * @returns {boolean} Whether the title passes both filters
+ */
+const matchesFilters = (title, params) => {
+  const type = params.get('type');
+  const year = params.get('y');
+  return (!type || title.Type === type) && (!year || parseInt(title.Year, 10) === parseInt(year, 10));
+};
+
+/**
+ * Answers a request from the fixture catalog
+ * @param {URLSearchParams} params The request parameters
+ * @param {{titles: object[]}} catalog The fixture catalog
+ * @returns {{status: number, body: object}} The OMDb response
+ */
+const answerFromCatalog = (params, catalog) => {
+  const { titles } = catalog;
+
+  // Search (`s=`), ten results per page
+  if (params.has('s')) {
+    const query = (params.get('s') || '').trim();
+    if (query.length < MIN_QUERY_LENGTH) {
+      return failure('Too many results.');
+    }
+    const queryWords = words(query);
+    const matches = titles.filter((title) => {
+      const titleWords = words(title.Title);
+      return queryWords.every((word) => titleWords.includes(word)) && matchesFilters(title, params);
+    });
+    const page = parseInt(params.get('page') || '1', 10) || 1;
+    const pageResults = matches.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+    if (pageResults.length === 0) {
+      return failure('Movie not found!');
+    }
+    return success({
+      Search: pageResults.map(({ Title, Year, imdbID, Type, Poster }) => ({ Title, Year, imdbID, Type, Poster })),
+      totalResults: String(matches.length)
+    });
+  }
+
+  // Seasons and episodes (`i=` with `Season=`, and optionally `Episode=`)
+  if (params.has('i') && params.has('Season')) {
+    const series = titles.find((title) => title.imdbID === params.get('i') && title.Type === 'series');
+    const season = params.get('Season');
+    const episodes = titles
+      .filter((title) => series && title.seriesID === series.imdbID && title.Season === season)
+      .sort((a, b) => parseInt(a.Episode, 10) - parseInt(b.Episode, 10));
+
+    if (params.has('Episode')) {
+      const episode = episodes.find((title) => title.Episode === params.get('Episode'));
+      return episode ? success(episode) : failure('Series or episode not found!');
+    }
+    if (!series || episodes.length === 0) {
+      return failure('Series or season not found!');
+    }
+    return success({
+      Title: series.Title,
+      Season: season,
+      totalSeasons: series.totalSeasons,
+      Episodes: episodes.map((episode) => ({
+        Title: episode.Title,
+        Released: toIsoDate(episode.Released),
+        Episode: episode.Episode,
+        imdbRating: episode.imdbRating,
+        imdbID: episode.imdbID
+      }))
+    });
+  }
+
+  // Lookup by IMDb ID (`i=`)
+  if (params.has('i')) {
+    const title = titles.find((candidate) => candidate.imdbID === params.get('i'));
+    return title ? success(title) : failure('Incorrect IMDb ID.');
+  }
+
+  // Lookup by exact title (`t=`)
+  if (params.has('t')) {
+    const name = (params.get('t') || '').trim().toLowerCase();
+    const title = titles.find((candidate) => candidate.Title.toLowerCase() === name && matchesFilters(candidate, params));
+    return title ? success(title) : failure('Movie not found!');
+  }
+
+  return failure('Something went wrong.');
+};
+
+/**
+ * Builds the key a response is recorded under: the sorted parameters without the API key
+ * @param {URLSearchParams} params The request parameters
+ * @returns {string} The recording key
+ */
+const recordingKey = (params) => {
+  const entries = Array.from(params.entries()).filter(([name]) => name !== 'apikey');
+  entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return new URLSearchParams(entries).toString();
+};
+
+/**
+ * Reads saved responses from disk
+ * @param {string} file The recordings file
+ * @returns {Record<string, {status: number, body: object}>} The responses by key
+ */
+const readRecordings = (file) => (fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {});
+
+/**
+ * Requests a URL and parses its JSON body
+ * @param {string} url The URL to request
+ * @returns {Promise<{status: number, body: object}>} The response
+ */
+const getJson = (url) =>
+  new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    client
+      .get(url, (response) => {
+        let data = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk) => {
+          data += chunk;
+        });
+        response.on('end', () => {
+          try {
+            resolve({ status: response.statusCode || 200, body: JSON.parse(data) });
+          } catch (error) {
+            reject(error);
+          }
+        });
+      })
+      .on('error', reject);
+  });
+
+/**
+ * Creates the mock server (call `listen` on it to start it)
+ * @param {object} [options]
+ * @param {'fixtures' | 'record' | 'replay'} [options.mode] How requests are answered (defaults to 'fixtures')
+ * @param {{titles: object[]}} [options.catalog] The fixture catalog (defaults to fixtures/catalog.json)
+ * @param {string} [options.recordingsFile] Where responses are saved in record mode and read in replay mode
+ * @param {string} [options.upstreamUrl] The API forwarded to in record mode (defaults to OMDb)
+ * @param {string} [options.upstreamApiKey] The API key sent upstream in record mode
+ * @param {string} [options.apiKey] When set, requests must carry this API key
+ * @param {number} [options.requestLimit] When set, requests after this many fail with "Request limit reached!"
+ * @returns {http.Server} The server
+ */
+const createOmdbMockServer = (options = {}) => {
+  const mode = options.mode || 'fixtures';
+  const catalog = options.catalog || JSON.parse(fs.readFileSync(DEFAULT_CATALOG_FILE, 'utf8'));
+  const recordingsFile = options.recordingsFile || DEFAULT_RECORDINGS_FILE;
+  const upstreamUrl = options.upstreamUrl || DEFAULT_UPSTREAM_URL;
+  const recordings = mode === 'fixtures' ? {} : readRecordings(recordingsFile);
+  let requestCount = 0;
+
+  /**
+   * Answers a request in the configured mode
+   * @param {URLSearchParams} params The request parameters
+   * @returns {Promise<{status: number, body: object}>} The OMDb response
+   */
+  const answer = async (params) => {
+    requestCount += 1;
+    if (options.apiKey !== undefined && !params.get('apikey')) {
+      return failure('No API key provided.', 401);
+    }
+    if (options.apiKey !== undefined && params.get('apikey') !== options.apiKey) {
+      return failure('Invalid API key!', 401);
+    }
+    if (options.requestLimit !== undefined && requestCount > options.requestLimit) {
+      return failure('Request limit reached!', 401);
+    }
+
+    if (mode === 'fixtures') {
+      return answerFromCatalog(params, catalog);
+    }
+
+    const key = recordingKey(params);
+    if (mode === 'replay') {
+      return recordings[key] || failure(`No recording for this request (${key}).`, 404);
+    }
+
+    // Record mode: forward the request with the upstream key and save what comes back
+    const upstreamParams = new URLSearchParams(params);
+    upstreamParams.set('apikey', options.upstreamApiKey || '');
+    const response = await getJson(`${upstreamUrl}?${upstreamParams.toString()}`);
+    recordings[key] = response;
+    fs.writeFileSync(recordingsFile, `${JSON.stringify(recordings, null, 2)}\n`);
+    return response;
+  };
+
+  return http.createServer((request, response) => {
+    // The app runs on another port, so cross-origin requests must be allowed
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, { 'Access-Control-Allow-Headers': '*' });
+      response.end();
+      return;
+    }
+
+    const { searchParams } = new URL(request.url || '/', 'http://localhost');
+    answer(searchParams)
+      .catch((error) => failure(`Mock server error: ${error.message}`, 502))
+      .then(({ status, body }) => {
+        response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+        response.end(JSON.stringify(body));
+      });
+  });
+};
+
+/**
+ * Reads the options for a command line run from its arguments and the environment
+ * @param {string[]} args The command line arguments
+ * @returns {{port: number, options: object}} The port and server options
+ */
+const readCommandLine = (args) => {
+  const flag = (name) => {
+    const match = args.find((arg) => arg === `--${name}` || arg.startsWith(`--${name}=`));
+    return match && (match.includes('=') ? match.slice(match.indexOf('=') + 1) : true);
+  };
+  const limit = flag('request-limit') || process.env.MOCK_OMDB_REQUEST_LIMIT;
+
+  return {
+    port: Number(flag('port') || process.env.MOCK_OMDB_PORT) || DEFAULT_PORT,
+    options: {
+      mode: flag('record') ? 'record' : flag('replay') ? 'replay' : 'fixtures',
+      recordingsFile: typeof flag('recordings') === 'string' ? path.resolve(flag('recordings')) : undefined,
+      upstreamApiKey: process.env.MOCK_OMDB_UPSTREAM_KEY || process.env.REACT_APP_OMDB_API_KEY,
+      requestLimit: limit ? Number(limit) : undefined
+    }
+  };
+};
+
+if (require.main === module) {
+  const { port, options } = readCommandLine(process.argv.slice(2));
+  createOmdbMockServer(options).listen(port, () => {
+    console.log(`OMDb mock server (${options.mode}) listening on http://localhost:${port}/`);
+  });
+}
+
+module.exports = { createOmdbMockServer, answerFromCatalog, recordingKey };
@@ -0,0 +1,75 @@
+/**
+ * App Integration Tests
+ * Runs the app against the local OMDb mock server instead of mocked API calls,
+ * with the OMDb provider pointed at the server's base URL.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import App from './App';
+import { clearMovieCache, configureMovieCache, configureMovieProvider } from './api/movieApi';
+import { createOmdbProvider } from './providers/omdbProvider';
+import { createOmdbMockServer } from '../mock-server/omdbMockServer';
+
+/**
+ * Stand-in for IntersectionObserver, which jsdom doesn't provide
+ */
+class IntersectionObserverMock {
+  observe(): void {}
+  disconnect(): void {}
+  unobserve(): void {}
+}
+
+Object.defineProperty(window, 'IntersectionObserver', {
+  writable: true,
+  configurable: true,
+  value: IntersectionObserverMock
+});
+
+// These tests render the whole app and make real requests, which can take several seconds
+jest.setTimeout(15000);
+
+describe('App against the mock server', () => {
+  let server: Server;
+
+  beforeAll(async () => {
+    server = createOmdbMockServer({ apiKey: 'test-key' });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+    configureMovieProvider(createOmdbProvider({ apiKey: 'test-key', baseUrl }));
+    // jsdom has no IndexedDB, so only the in-memory tier is used
+    configureMovieCache({ persistent: null });
+  });
+
+  afterAll(async () => {
+    configureMovieProvider(createOmdbProvider());
+    configureMovieCache();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    await clearMovieCache();
+  });
+
+  /**
+   * Test case: Verify a search, a selection and the details, end to end
+   */
+  test('searches, selects a title and shows its details', async () => {
+    render(<App />);
+
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'matrix' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Search movies' }));
+
+    fireEvent.click(await screen.findByText('The Matrix Reloaded'));
+
+    expect(await screen.findByText(/Lana Wachowski, Lilly Wachowski/)).toBeInTheDocument();
+    expect(screen.getByText(/2 Results/)).toBeInTheDocument();
+    expect(window.location.search).toContain('id=tt0234215');
+  });
+});
@@ -2,25 +2,36 @@
  * App Component Tests
  * This test suite contains unit tests for the App component and its related components.
  * It focuses on the core functionalities such as:
- * - Movie search functionality.
- * - Movie selection and detail display.
- * - Adding a movie to the watchlist.
- * - Filtering movies by type.
- * - Handling scenarios with no search results.
+ * - Searching, debounced search-as-you-type, suggestions and exact title or IMDb ID lookups.
+ * - Movie selection and detail display, including seasons, episodes and side-by-side comparison.
+ * - Sorting, facet chips, year range presets and filters on fetched details.
+ * - Windowed rendering of the result list, keyboard navigation and shortcuts.
+ * - The watchlist: entries, named lists, persistence and importing from a file.
+ * - Search history and recently viewed titles.
+ * - Syncing the search and selected title with the URL and browser history.
+ * - Errors and retries, out-of-order responses, no results and the offline banner.
+ * - Light, dark and system color modes.
  * 
  * It mocks the necessary API calls and verifies that the App reacts correctly to various user interactions.
- * The tests are designed to ensure that the App works as expected in different scenarios, such as fetching movie data,
- * selecting a movie, and interacting with the watchlist feature.
+ * App.integration.test.tsx runs the App against the local OMDb mock server instead.
  */
 
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import App from './App';
-import { fetchMovies, fetchMovieDetails } from '../src/api/movieApi';
-import {MovieDetail, SearchResponse } from '../src/types'; // Import from existing types
+import { fetchMovies, fetchMovieDetails, fetchMovieByTitle, fetchSeason, fetchEpisode, fetchSuggestions } from '../src/api/movieApi';
+import {MovieDetail, SearchPage, Season } from '../src/types'; // Import from existing types
 import MovieList from "./components/MovieList";
 import MovieDetails from "./components/MovieDetails";
+import SearchBar from './components/SearchBar';
+import { MovieApiError } from './api/apiErrors';
+import { WATCHLIST_STORAGE_KEY, createMemoryStore, createWatchlistStorage, toStoredTitle } from './storage/watchlistStorage';
+import { HISTORY_STORAGE_KEY } from './storage/historyStorage';
+import { THEME_MODE_STORAGE_KEY, createThemeModeStorage } from './storage/themeModeStorage';
+import AppThemeProvider from './theme/AppThemeProvider';
+import ThemeModeToggle from './components/ThemeModeToggle';
+import { useTheme } from '@mui/material/styles';
 
 /**
  * Mock implementation of IntersectionObserver for testing environments
@@ -56,21 +67,20 @@ Object.defineProperty(window, 'IntersectionObserver', {
 });
 
 /**
- * Mock search response data simulating a successful movie search
- * Matches the structure of the SearchResponse type
+ * Mock search results simulating a successful movie search
+ * Matches the structure of the SearchPage type
  */
-const mockSearchResponse: SearchResponse = {
-  Response: 'True',
-  Search: [
+const mockSearchPage: SearchPage = {
+  movies: [
     {
       imdbID: 'tt1234',
-      Title: 'Test Movie',
-      Year: '2022',
-      Type: 'movie',
-      Poster: 'test-poster.jpg'
+      title: 'Test Movie',
+      year: 2022,
+      type: 'movie',
+      poster: 'test-poster.jpg'
     }
   ],
-  totalResults: '1'
+  totalResults: 1
 };
 
 /**
@@ -78,21 +88,20 @@ const mockSearchResponse: SearchResponse = {
  * Matches the structure of the MovieDetail type
  */
 const mockMovieDetails: MovieDetail = {
-  Title: 'Test Movie',
-  Year: '2022',
+  title: 'Test Movie',
+  year: 2022,
   imdbID: 'tt1234',
-  Type: 'movie',
-  Poster: 'test-poster.jpg',
-  Plot: 'A test movie plot',
-  Director: 'Test Director',
-  Actors: 'Test Actor 1, Test Actor 2',
-  Genre: 'Action, Adventure',
-  Runtime: '120 min',
-  Rated: 'PG-13',
-  imdbRating: '7.5',
-  Response: 'True',
-  Ratings: [
-    { Source: 'Internet Movie Database', Value: '7.5/10' }
+  type: 'movie',
+  poster: 'test-poster.jpg',
+  plot: 'A test movie plot',
+  directors: ['Test Director'],
+  actors: ['Test Actor 1', 'Test Actor 2'],
+  genres: ['Action', 'Adventure'],
+  runtimeMinutes: 120,
+  rated: 'PG-13',
+  imdbRating: 7.5,
+  ratings: [
+    { source: 'Internet Movie Database', value: '7.5/10' }
   ]
 };
 
@@ -100,13 +109,23 @@ const mockMovieDetails: MovieDetail = {
 jest.mock('../src/api/movieApi', () => ({
   fetchMovies: jest.fn(),
   fetchMovieDetails: jest.fn(),
+  fetchMovieByTitle: jest.fn(),
+  fetchSeason: jest.fn(),
+  fetchEpisode: jest.fn(),
+  fetchSuggestions: jest.fn(),
 }));
 
+// These tests render the whole app, which can take several seconds on a slow machine
+jest.setTimeout(15000);
+
 describe('App Component', () => {
   beforeEach(() => {
     // Clear all mock function calls before each test
     // Ensures a clean slate for each test scenario
     jest.clearAllMocks();
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    (fetchSuggestions as jest.Mock).mockResolvedValue([]);
   });
 
   /**
@@ -116,7 +135,7 @@ describe('App Component', () => {
    */
   test("performs movie search", async () => {
     // Mock the API responses to return predefined test data
-    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchResponse);
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
     (fetchMovieDetails as jest.Mock).mockResolvedValue(mockMovieDetails);
   
     // Render the App component
@@ -153,10 +172,10 @@ describe('App Component', () => {
     const movies = [
         {
             imdbID: "1",
-            Title: "Test Movie Title",
-            Year: "2021",
-            Type: "movie",
-            Poster: "https://via.placeholder.com/150"
+            title: "Test Movie Title",
+            year: 2021,
+            type: "movie",
+            poster: "https://via.placeholder.com/150"
         }
     ];
 
@@ -180,7 +199,7 @@ describe('App Component', () => {
    */
   test('adds movie to watchlist', async () => {
     // Mock API responses
-    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchResponse);
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
     (fetchMovieDetails as jest.Mock).mockResolvedValue(mockMovieDetails);
 
     // Create a mock function for adding to watchlist
@@ -209,7 +228,7 @@ describe('App Component', () => {
    */
   test('filters movies by type', async () => {
     // Mock API response
-    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchResponse);
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
 
     // Render App component
     render(<App />);
@@ -226,8 +245,260 @@ describe('App Component', () => {
 
     // Verify API call includes movie type filter
     await waitFor(() => {
-      expect(fetchMovies).toHaveBeenCalledWith('Test', 1, 'movie');
+      expect(fetchMovies).toHaveBeenCalledWith('Test', 1, 'movie', expect.any(AbortSignal), undefined);
+    });
+  });
+
+  /**
+   * Test case: Verify client-side sorting and facet filters
+   * - Sorts the loaded results and narrows them with type and decade chips
+   */
+  test('sorts and filters the loaded results', () => {
+    const movies = [
+      { imdbID: 'tt1', title: 'Zulu', year: 1964, type: 'movie', poster: null },
+      { imdbID: 'tt2', title: 'Alpha', year: 2018, type: 'movie', poster: null },
+      { imdbID: 'tt3', title: 'Mid Show', year: 2012, endYear: 2015, type: 'series', poster: null }
+    ];
+    render(<MovieList movies={movies} onSelectMovie={jest.fn()} totalResults={10} />);
+    const titles = () => screen.getAllByText(/^(Zulu|Alpha|Mid Show)$/).map((element) => element.textContent);
+
+    expect(titles()).toEqual(['Zulu', 'Alpha', 'Mid Show']);
+
+    fireEvent.mouseDown(screen.getByLabelText('Sort by'));
+    fireEvent.click(screen.getByRole('option', { name: 'Year (newest first)' }));
+    expect(titles()).toEqual(['Alpha', 'Mid Show', 'Zulu']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Movie' }));
+    expect(titles()).toEqual(['Alpha', 'Zulu']);
+    expect(screen.getByText('10 Results (showing 2 of 3 loaded)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '2010s' }));
+    expect(titles()).toEqual(['Alpha']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear filters' }));
+    expect(titles()).toHaveLength(3);
+    expect(screen.getByText('10 Results')).toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify windowed rendering of long result lists
+   * - Mounts only the rows in view and brings the selected title into view
+   */
+  test('only mounts the results in view', () => {
+    const movies = Array.from({ length: 500 }, (_, index) => ({
+      imdbID: `tt${index}`,
+      title: `Movie ${index}`,
+      year: 2000,
+      type: 'movie',
+      poster: null
+    }));
+    const { rerender } = render(<MovieList movies={movies} onSelectMovie={jest.fn()} selectedMovieId="" />);
+    const results = screen.getByRole('region', { name: 'Search results' });
+
+    expect(screen.getByText('Movie 0')).toBeInTheDocument();
+    expect(screen.queryByText('Movie 200')).not.toBeInTheDocument();
+    expect(within(results).getAllByRole('listitem').length).toBeLessThan(30);
+
+    // Scrolling mounts the rows that come into view
+    results.scrollTop = 200 * 73;
+    fireEvent.scroll(results);
+    expect(screen.getByText('Movie 200')).toBeInTheDocument();
+    expect(screen.queryByText('Movie 0')).not.toBeInTheDocument();
+
+    // Selecting a title elsewhere (e.g. from history) scrolls back to it
+    rerender(<MovieList movies={movies} onSelectMovie={jest.fn()} selectedMovieId="tt3" />);
+    expect(screen.getByText('Movie 3')).toBeInTheDocument();
+    expect(results.scrollTop).toBe(3 * 73);
+  });
+
+  /**
+   * Test case: Verify the rows in view are measured from the top of the results
+   * - Content above the results (search bar, filters, alerts) doesn't shift the mounted rows
+   */
+  test('measures the rows in view from the top of the results, not the page', () => {
+    const movies = Array.from({ length: 500 }, (_, index) => ({
+      imdbID: `tt${index}`,
+      title: `Movie ${index}`,
+      year: 2000,
+      type: 'movie',
+      poster: null
+    }));
+    const { rerender } = render(<MovieList movies={movies} onSelectMovie={jest.fn()} selectedMovieId="" />);
+    const results = screen.getByRole('region', { name: 'Search results' });
+    const list = screen.getByRole('list', { name: 'Results' });
+
+    // jsdom lays nothing out, so place the results 600px down the page, with the
+    // first row 150px below the top of the results
+    Object.defineProperty(results, 'offsetTop', { configurable: true, value: 600 });
+    Object.defineProperty(list, 'offsetTop', { configurable: true, value: 750 });
+
+    // Scrolled so row 100 is at the top: the rows from the overscan above it are mounted
+    results.scrollTop = 150 + 100 * 73;
+    fireEvent.scroll(results);
+    expect(screen.getByText('Movie 95')).toBeInTheDocument();
+    expect(screen.queryByText('Movie 94')).not.toBeInTheDocument();
+    expect(screen.getByText('Movie 115')).toBeInTheDocument();
+
+    // Revealing a row further down scrolls just far enough to show it in full
+    rerender(<MovieList movies={movies} onSelectMovie={jest.fn()} selectedMovieId="tt300" />);
+    expect(results.scrollTop).toBe(150 + 301 * 73 - 800);
+    expect(screen.getByText('Movie 300')).toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify keyboard navigation and shortcuts
+   * - Moves through results, opens details and returns, and runs the app-wide shortcuts
+   */
+  test('supports keyboard navigation and shortcuts', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue({
+      movies: [
+        { imdbID: 'tt1', title: 'First Film', year: 2020, type: 'movie', poster: null },
+        { imdbID: 'tt2', title: 'Second Film', year: 2021, type: 'movie', poster: null }
+      ],
+      totalResults: 2
+    });
+    (fetchMovieDetails as jest.Mock).mockResolvedValue({ ...mockMovieDetails, imdbID: 'tt2', title: 'Second Film' });
+
+    render(<App />);
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Film' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+    const first = await screen.findByRole('button', { name: /^First Film/ });
+    const second = screen.getByRole('button', { name: /^Second Film/ });
+    expect(screen.getByText('2 Results')).toHaveAttribute('role', 'status');
+
+    // Arrow keys and j/k move through the results, with a single tab stop
+    expect(first).toHaveAttribute('tabindex', '0');
+    fireEvent.keyDown(first, { key: 'j' });
+    expect(second).toHaveFocus();
+    fireEvent.keyDown(second, { key: 'ArrowUp' });
+    expect(first).toHaveFocus();
+    fireEvent.keyDown(first, { key: 'End' });
+    expect(second).toHaveFocus();
+
+    // Enter opens the details with focus on the title, Escape returns to the result
+    fireEvent.keyDown(second, { key: 'Enter' });
+    expect(await screen.findByRole('heading', { name: 'Second Film' })).toHaveFocus();
+    fireEvent.keyDown(screen.getByRole('heading', { name: 'Second Film' }), { key: 'Escape' });
+    expect(second).toHaveFocus();
+
+    // w toggles the watchlist on the open title without opening the dialog
+    fireEvent.keyDown(second, { key: 'w' });
+    expect(screen.getByText('Second Film added to your watchlist')).toBeInTheDocument();
+    expect(screen.getByText('My Watchlist (1)')).toBeInTheDocument();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+    // / focuses the search box, where typing doesn't trigger shortcuts
+    fireEvent.keyDown(document.body, { key: '/' });
+    expect(screen.getByPlaceholderText('Search Movies')).toHaveFocus();
+    fireEvent.keyDown(screen.getByPlaceholderText('Search Movies'), { key: '?' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+    // ? shows the shortcut help
+    fireEvent.keyDown(document.body, { key: '?' });
+    expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify the advanced filters
+   * - Fetches the details of the results once opted in and filters on them
+   */
+  test('filters results on their fetched details', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue({
+      movies: [
+        { imdbID: 'tt1', title: 'Family Film', year: 2020, type: 'movie', poster: null },
+        { imdbID: 'tt2', title: 'Gritty Film', year: 2021, type: 'movie', poster: null }
+      ],
+      totalResults: 2
     });
+    (fetchMovieDetails as jest.Mock).mockImplementation((imdbID: string) => Promise.resolve({
+      ...mockMovieDetails,
+      imdbID,
+      rated: imdbID === 'tt1' ? 'PG' : 'R',
+      runtimeMinutes: imdbID === 'tt1' ? 95 : 150,
+      ratings: [{ source: 'Internet Movie Database', value: imdbID === 'tt1' ? '6.1/10' : '8.4/10' }]
+    }));
+
+    render(<App />);
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Film' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+    await screen.findByText('Gritty Film');
+
+    // Nothing is fetched until the user opts in
+    fireEvent.click(screen.getByRole('button', { name: 'Advanced filters' }));
+    expect(screen.getByLabelText('Maximum runtime (min)')).toBeDisabled();
+    expect(fetchMovieDetails).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByLabelText('Fetch details to filter results'));
+    expect(await screen.findByText('Details loaded for 2 of 2 results')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Maximum runtime (min)'), { target: { value: '120' } });
+    expect(screen.queryByText('Gritty Film')).not.toBeInTheDocument();
+    expect(screen.getByText('Family Film')).toBeInTheDocument();
+    expect(screen.getByText('2 Results (showing 1 of 2 loaded)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear' }));
+    expect(screen.getByText('Gritty Film')).toBeInTheDocument();
+
+    // The fetched ratings also allow sorting by the combined score
+    fireEvent.mouseDown(screen.getByLabelText('Sort by'));
+    fireEvent.click(screen.getByRole('option', { name: 'Score (highest first)' }));
+    expect(screen.getAllByText(/^(Family|Gritty) Film$/).map((element) => element.textContent))
+      .toEqual(['Gritty Film', 'Family Film']);
+  });
+
+  /**
+   * Test case: Verify the detail filters keep the number of search requests bounded
+   * - With every loaded result hidden, the end of the list stays in view, yet pages
+   *   stop loading once the detail request budget is used up
+   */
+  test('stops loading search pages once detail filters hide the results past the budget', async () => {
+    (fetchMovies as jest.Mock).mockImplementation((query: string, page: number) => Promise.resolve({
+      movies: Array.from({ length: 10 }, (_, index) => ({
+        imdbID: `tt${page}-${index}`,
+        title: `Long Film ${page}-${index}`,
+        year: 2020,
+        type: 'movie',
+        poster: null
+      })),
+      totalResults: 1000
+    }));
+    (fetchMovieDetails as jest.Mock).mockImplementation((imdbID: string) => Promise.resolve({
+      ...mockMovieDetails,
+      imdbID,
+      runtimeMinutes: 150
+    }));
+
+    // The end of the list is always in view
+    class VisibleSentinelObserver extends IntersectionObserverMock {
+      private report: IntersectionObserverCallback;
+
+      constructor(callback: IntersectionObserverCallback) {
+        super(callback);
+        this.report = callback;
+      }
+
+      observe(): void {
+        Promise.resolve().then(() => this.report([{ isIntersecting: true } as IntersectionObserverEntry], this));
+      }
+    }
+    window.IntersectionObserver = VisibleSentinelObserver;
+
+    try {
+      render(<App />);
+      fireEvent.click(screen.getByRole('button', { name: 'Advanced filters' }));
+      fireEvent.click(screen.getByLabelText('Fetch details to filter results'));
+      fireEvent.change(screen.getByLabelText('Maximum runtime (min)'), { target: { value: '120' } });
+      fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Long' } });
+      fireEvent.click(screen.getByLabelText('Search movies'));
+
+      expect(await screen.findByText(/More results load once more details are fetched/)).toBeInTheDocument();
+      // Give the observer time to ask for more pages, which it must not get
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect((fetchMovies as jest.Mock).mock.calls.length).toBeLessThanOrEqual(4);
+      expect(fetchMovieDetails).toHaveBeenCalledTimes(30);
+    } finally {
+      window.IntersectionObserver = IntersectionObserverMock;
+    }
   });
 
   /**
@@ -236,10 +507,7 @@ describe('App Component', () => {
    */
   test('handles search with no results', async () => {
     // Mock API response for no results
-    (fetchMovies as jest.Mock).mockResolvedValue({
-      Response: 'False',
-      Error: 'Movie not found!'
-    });
+    (fetchMovies as jest.Mock).mockRejectedValue(new MovieApiError('not-found', undefined, 'Movie not found!'));
   
     // Render App component
     render(<App />);
@@ -257,4 +525,688 @@ describe('App Component', () => {
       expect(errorElement).toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+
+  /**
+   * Test case: Verify the watchlist is persisted and restored
+   * - Restores a saved watchlist on startup
+   * - Saves changes made through the watchlist toggle
+   */
+  test('persists the watchlist through the storage layer', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
+    (fetchMovieDetails as jest.Mock).mockResolvedValue(mockMovieDetails);
+
+    // Start with the test movie already saved
+    const store = createMemoryStore({
+      [WATCHLIST_STORAGE_KEY]: JSON.stringify({ version: 1, items: [toStoredTitle(mockSearchPage.movies[0])] })
+    });
+    render(<App watchlistStorage={createWatchlistStorage(store)} />);
+
+    // Search for and open the saved movie
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Test' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+    fireEvent.click(await screen.findByText('Test Movie'));
+    await screen.findByText('A test movie plot', { exact: false });
+
+    // Toggling the watchlist removes the restored movie and saves the change
+    fireEvent.click(screen.getByRole('button', { name: 'Watchlist' }));
+    await waitFor(() => {
+      expect(JSON.parse(store.getItem(WATCHLIST_STORAGE_KEY)!).lists[0].entries).toEqual([]);
+    });
+  });
+
+  /**
+   * Test case: Verify watchlist entries can be managed from the watchlist dialog
+   * - Marks an entry as watched, adds notes, reorders, filters and removes entries
+   */
+  test('manages watchlist entries', () => {
+    const movies = [
+      { ...mockSearchPage.movies[0], imdbID: 'tt1', title: 'First Movie' },
+      { ...mockSearchPage.movies[0], imdbID: 'tt2', title: 'Second Movie' }
+    ];
+    const store = createMemoryStore({
+      [WATCHLIST_STORAGE_KEY]: JSON.stringify({ version: 1, items: movies.map(toStoredTitle) })
+    });
+    render(<App watchlistStorage={createWatchlistStorage(store)} />);
+    const savedEntries = () => JSON.parse(store.getItem(WATCHLIST_STORAGE_KEY)!).lists[0].entries;
+
+    fireEvent.click(screen.getByRole('button', { name: 'My Watchlist (2)' }));
+
+    // Mark the first movie as watched and add a note
+    fireEvent.click(screen.getByLabelText('Watched First Movie'));
+    fireEvent.change(screen.getByLabelText('Notes for First Movie'), { target: { value: 'Loved it' } });
+    expect(savedEntries()[0]).toMatchObject({ watched: true, watchedAt: expect.any(String), notes: 'Loved it' });
+    expect(screen.getByText(/Watched/, { selector: 'p' })).toBeInTheDocument();
+
+    // Drag the second movie above the first
+    const dataTransfer = { setData: jest.fn(), getData: () => 'tt2', effectAllowed: '' };
+    fireEvent.dragStart(screen.getByText('Second Movie'), { dataTransfer });
+    fireEvent.drop(screen.getByText('First Movie'), { dataTransfer });
+    expect(savedEntries().map((entry: { imdbID: string }) => entry.imdbID)).toEqual(['tt2', 'tt1']);
+
+    // Only watched entries are shown under the watched filter
+    fireEvent.click(screen.getByRole('button', { name: 'Watched (1)' }));
+    expect(screen.queryByText('Second Movie')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove First Movie from watchlist' }));
+    expect(savedEntries().map((entry: { imdbID: string }) => entry.imdbID)).toEqual(['tt2']);
+  });
+
+  /**
+   * Test case: Verify imported entries are previewed before being added
+   * - Shows new titles, skipped duplicates and invalid rows, then adds the new titles on confirm
+   */
+  test('previews and imports watchlist entries from a file', async () => {
+    const store = createMemoryStore({
+      [WATCHLIST_STORAGE_KEY]: JSON.stringify({ version: 1, items: [toStoredTitle({ ...mockSearchPage.movies[0], imdbID: 'tt0111161' })] })
+    });
+    render(<App watchlistStorage={createWatchlistStorage(store)} />);
+    fireEvent.click(screen.getByRole('button', { name: 'My Watchlist (1)' }));
+
+    const csv = 'imdbID,Title,Year,WatchedDate\ntt0111161,Listed,1994,\ntt0468569,The Dark Knight,2008,\nbad,Broken,2000,\n';
+    fireEvent.change(screen.getByTestId('watchlist-import-input'), {
+      target: { files: [new File([csv], 'watchlist.csv', { type: 'text/csv' })] }
+    });
+
+    expect(await screen.findByText('1 title will be added')).toBeInTheDocument();
+    expect(screen.getByText('1 already in this list will be skipped')).toBeInTheDocument();
+    expect(screen.getByText('Row 4: "bad" is not a valid IMDb ID')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1' }));
+    expect(JSON.parse(store.getItem(WATCHLIST_STORAGE_KEY)!).lists[0].entries.map((entry: { imdbID: string }) => entry.imdbID))
+      .toEqual(['tt0111161', 'tt0468569']);
+  });
+
+  /**
+   * Test case: Verify named lists can be created, browsed, renamed and deleted
+   * - Creates a list from the list picker, which adds the open movie to it
+   * - Browses the list in its own tab, renames it and deletes it
+   */
+  test('manages named lists', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
+    (fetchMovieDetails as jest.Mock).mockResolvedValue(mockMovieDetails);
+    const store = createMemoryStore();
+    render(<App watchlistStorage={createWatchlistStorage(store)} />);
+    const savedLists = () => JSON.parse(store.getItem(WATCHLIST_STORAGE_KEY)!).lists;
+
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Test' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+    fireEvent.click(await screen.findByText('Test Movie'));
+    await screen.findByText('A test movie plot', { exact: false });
+
+    // Create a list from the picker, which adds the movie to it
+    fireEvent.click(screen.getByLabelText('Choose lists'));
+    fireEvent.change(screen.getByLabelText('New list name'), { target: { value: 'Friday movie night' } });
+    fireEvent.click(screen.getByText('Create'));
+    const picker = within(screen.getByRole('menu'));
+    expect(picker.getByRole('menuitemcheckbox', { name: 'Friday movie night' })).toHaveAttribute('aria-checked', 'true');
+    expect(picker.getByRole('menuitemcheckbox', { name: 'Watchlist' })).toHaveAttribute('aria-checked', 'false');
+    expect(savedLists()[1]).toMatchObject({ name: 'Friday movie night', entries: [{ imdbID: 'tt1234' }] });
+    fireEvent.keyDown(screen.getByRole('menu'), { key: 'Escape' });
+
+    // Browse the new list in its own tab and rename it
+    fireEvent.click(screen.getByText('My Watchlist (0)'));
+    fireEvent.click(screen.getByText('Friday movie night (1)'));
+    expect(screen.getByText('Test Movie', { selector: '.MuiDialog-root *' })).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Rename'));
+    fireEvent.change(screen.getByLabelText('List name'), { target: { value: 'Movie night' } });
+    fireEvent.click(screen.getByText('Save'));
+    expect(screen.getByText('Movie night (1)')).toHaveAttribute('aria-selected', 'true');
+
+    // Delete it after confirming
+    fireEvent.click(screen.getByText('Delete list'));
+    fireEvent.click(screen.getByText('Delete'));
+    expect(await screen.findByText('Watchlist (0)')).toHaveAttribute('aria-selected', 'true');
+    expect(savedLists().map((list: { name: string }) => list.name)).toEqual(['Watchlist']);
+  });
+
+  /**
+   * Test case: Verify series can be browsed by season and episode
+   * - Lists the episodes of the first season, switches season and opens an episode
+   */
+  test('browses the seasons and episodes of a series', async () => {
+    const series: MovieDetail = { ...mockMovieDetails, title: 'Test Series', type: 'series', totalSeasons: 2 };
+    const season = (number: number): Season => ({
+      seriesTitle: 'Test Series',
+      season: number,
+      totalSeasons: 2,
+      episodes: [{ title: `Pilot ${number}`, released: '2020-01-01', episode: 1, imdbRating: 8.1, imdbID: `tt9${number}` }]
+    });
+    (fetchSeason as jest.Mock).mockImplementation((_id: string, number: number) => Promise.resolve(season(number)));
+    (fetchEpisode as jest.Mock).mockResolvedValue({
+      ...mockMovieDetails,
+      title: 'Pilot 2',
+      type: 'episode',
+      season: 2,
+      episode: 1,
+      seriesID: 'tt1234',
+      released: null,
+      plot: 'The second season begins',
+      imdbRating: 8.1,
+      ratings: [{ source: 'Internet Movie Database', value: '8.1/10' }]
+    });
+
+    render(<MovieDetails movie={series} addToWatchlist={jest.fn()} isInWatchlist={() => false} />);
+
+    expect(await screen.findByText('1. Pilot 1')).toBeInTheDocument();
+    expect(fetchSeason).toHaveBeenCalledWith('tt1234', 1, expect.any(AbortSignal));
+
+    // Switch to the second season
+    fireEvent.mouseDown(screen.getByRole('combobox'));
+    fireEvent.click(screen.getByRole('option', { name: 'Season 2' }));
+    fireEvent.click(await screen.findByText('1. Pilot 2'));
+
+    // The episode opens with its own details and ratings
+    expect(await screen.findByText('S2E1: Pilot 2')).toBeInTheDocument();
+    expect(screen.getByText('The second season begins')).toBeInTheDocument();
+    expect(screen.getByLabelText('8.1 out of 10')).toBeInTheDocument();
+    expect(fetchEpisode).toHaveBeenCalledWith('tt1234', 2, 1, expect.any(AbortSignal));
+
+    fireEvent.click(screen.getByText('Season 2 episodes'));
+    expect(await screen.findByText('1. Pilot 2')).toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify titles can be compared side by side
+   * - Picks two titles from the results and opens the comparison
+   * - Highlights the best score and can hide rows where the titles agree
+   */
+  test('compares titles side by side', async () => {
+    const other = { ...mockSearchPage.movies[0], imdbID: 'tt5678', title: 'Other Movie' };
+    (fetchMovies as jest.Mock).mockResolvedValue({
+      ...mockSearchPage,
+      movies: [mockSearchPage.movies[0], other],
+      totalResults: 2
+    });
+    (fetchMovieDetails as jest.Mock).mockImplementation((imdbID: string) => Promise.resolve(
+      imdbID === 'tt5678'
+        ? { ...mockMovieDetails, ...other, genres: ['Action', 'Drama'], imdbRating: 8.4, ratings: [{ source: 'Internet Movie Database', value: '8.4/10' }] }
+        : mockMovieDetails
+    ));
+    render(<App />);
+
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Test' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+    fireEvent.click(await screen.findByLabelText('Compare Test Movie'));
+    expect(screen.getByText('Compare (1)')).toBeDisabled();
+    fireEvent.click(screen.getByLabelText('Compare Other Movie'));
+    fireEvent.click(screen.getByText('Compare (2)'));
+
+    // The higher IMDb score is marked as the best
+    const table = await screen.findByRole('table', { name: 'Title comparison' });
+    const imdbRow = within(table).getByRole('row', { name: /^IMDb/ });
+    expect(within(imdbRow).getByText('8.4/10')).toContainElement(within(imdbRow).getByLabelText('Best score'));
+
+    // Only rows where the titles differ remain when hiding the rest
+    fireEvent.click(screen.getByLabelText('Only differences'));
+    expect(within(table).queryByText('Director')).not.toBeInTheDocument();
+    expect(within(table).getByText('Genre')).toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify superseded searches can't overwrite newer results
+   * - Resolves an older search after a newer one
+   * - Checks only the newer results are shown and the older request was aborted
+   */
+  test('ignores out-of-order search responses', async () => {
+    // Hold each search response until the test resolves it
+    const pending: Array<{ signal: AbortSignal; resolve: (response: SearchPage) => void }> = [];
+    (fetchMovies as jest.Mock).mockImplementation(
+      (_query: string, _page: number, _type: string, signal: AbortSignal) =>
+        new Promise((resolve) => pending.push({ signal, resolve }))
+    );
+
+    render(<App />);
+
+    // Search for "bat", then for "batman" while the first search is still loading
+    const searchInput = screen.getByPlaceholderText('Search Movies');
+    fireEvent.change(searchInput, { target: { value: 'bat' } });
+    fireEvent.keyPress(searchInput, { key: 'Enter', code: 'Enter', charCode: 13 });
+    fireEvent.change(searchInput, { target: { value: 'batman' } });
+    fireEvent.keyPress(searchInput, { key: 'Enter', code: 'Enter', charCode: 13 });
+    expect(pending).toHaveLength(2);
+
+    const responseFor = (title: string, imdbID: string): SearchPage => ({
+      movies: [{ imdbID, title, year: 2022, type: 'movie', poster: null }],
+      totalResults: 1
+    });
+
+    // The newer search resolves first, then the stale one arrives late
+    pending[1].resolve(responseFor('Batman Movie', 'tt2'));
+    await screen.findByText('Batman Movie');
+    await act(async () => {
+      pending[0].resolve(responseFor('Bat Movie', 'tt1'));
+    });
+
+    expect(screen.getByText('Batman Movie')).toBeInTheDocument();
+    expect(pending[0].signal.aborted).toBe(true);
+    expect(screen.queryByText('Bat Movie')).not.toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify a slow details response doesn't replace a newer selection
+   */
+  test('ignores details for a superseded selection', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue({
+      ...mockSearchPage,
+      movies: [
+        ...mockSearchPage.movies,
+        { imdbID: 'tt5678', title: 'Other Movie', year: 2021, type: 'movie', poster: null }
+      ],
+      totalResults: 2
+    });
+
+    // The first selection resolves only after the second
+    let resolveFirst: (details: MovieDetail) => void = () => {};
+    (fetchMovieDetails as jest.Mock)
+      .mockImplementationOnce(() => new Promise((resolve) => { resolveFirst = resolve; }))
+      .mockResolvedValueOnce({ ...mockMovieDetails, imdbID: 'tt5678', title: 'Other Movie', plot: 'The other plot' });
+
+    render(<App />);
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Test' } });
+
+    fireEvent.click(await screen.findByText('Test Movie'));
+    fireEvent.click(screen.getByText('Other Movie'));
+    await screen.findByText('The other plot');
+
+    await act(async () => {
+      resolveFirst(mockMovieDetails);
+    });
+
+    expect(screen.getByText('The other plot')).toBeInTheDocument();
+    expect(screen.queryByText('A test movie plot')).not.toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify search-as-you-type is debounced
+   * - Short queries don't search automatically
+   * - Longer queries wait for the debounce delay
+   * - Enter searches immediately
+   */
+  test('debounces automatic searches and searches immediately on Enter', () => {
+    jest.useFakeTimers();
+    const onSearch = jest.fn();
+
+    /**
+     * Renders the SearchBar with the given query
+     */
+    const renderSearchBar = (query: string) => (
+      <SearchBar
+        query={query}
+        setQuery={jest.fn()}
+        onSearch={onSearch}
+        loading={false}
+        yearRange={{ startYear: 1970, endYear: 2024 }}
+        setYearRange={jest.fn()}
+        yearBounds={{ minYear: 1888, maxYear: 2026 }}
+        type=""
+        setType={jest.fn()}
+        debounceMs={300}
+        minQueryLength={3}
+      />
+    );
+
+    try {
+      const { rerender } = render(renderSearchBar('ab'));
+      act(() => { jest.advanceTimersByTime(300); });
+      expect(onSearch).not.toHaveBeenCalled();
+      expect(screen.getByText(/type at least 3 characters/i)).toBeInTheDocument();
+
+      // A long enough query waits for the delay before searching
+      rerender(renderSearchBar('abc'));
+      expect(screen.getByText('Waiting to search…')).toBeInTheDocument();
+      act(() => { jest.advanceTimersByTime(299); });
+      expect(onSearch).not.toHaveBeenCalled();
+      act(() => { jest.advanceTimersByTime(1); });
+      expect(onSearch).toHaveBeenCalledTimes(1);
+
+      // Enter skips the delay and cancels the pending search
+      rerender(renderSearchBar('abcd'));
+      fireEvent.keyPress(screen.getByPlaceholderText('Search Movies'), { key: 'Enter', code: 'Enter', charCode: 13 });
+      expect(onSearch).toHaveBeenCalledTimes(2);
+      act(() => { jest.advanceTimersByTime(300); });
+      expect(onSearch).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  /**
+   * Test case: Verify exact title lookups wait for Enter instead of running as the user types
+   */
+  test('looks up exact titles only on Enter', () => {
+    jest.useFakeTimers();
+    const onSearch = jest.fn();
+
+    try {
+      render(
+        <SearchBar
+          query="The Matr"
+          setQuery={jest.fn()}
+          onSearch={onSearch}
+          loading={false}
+          yearRange={null}
+          setYearRange={jest.fn()}
+          yearBounds={{ minYear: 1888, maxYear: 2026 }}
+          type=""
+          setType={jest.fn()}
+          searchMode="title"
+          setSearchMode={jest.fn()}
+          debounceMs={300}
+          minQueryLength={3}
+        />
+      );
+      act(() => { jest.advanceTimersByTime(1000); });
+      expect(onSearch).not.toHaveBeenCalled();
+      expect(screen.queryByText('Waiting to search…')).not.toBeInTheDocument();
+
+      fireEvent.keyPress(screen.getByPlaceholderText('Exact Title'), { key: 'Enter', code: 'Enter', charCode: 13 });
+      expect(onSearch).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  /**
+   * Test case: Verify typed errors are explained and can be retried when that can help
+   * - Shows the message for a request-limit error, without a retry button
+   * - Retrying a network error repeats the search and shows the results
+   */
+  test('shows a specific error message with a retry button for transient errors', async () => {
+    (fetchMovies as jest.Mock)
+      .mockRejectedValueOnce(new MovieApiError('request-limit'))
+      .mockRejectedValueOnce(new MovieApiError('network'))
+      .mockResolvedValueOnce(mockSearchPage);
+
+    render(<App />);
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Test' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+
+    expect(await screen.findByText(/request limit has been reached/i)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Retry' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Search movies'));
+    expect(await screen.findByText(/Unable to reach OMDb/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByText('Test Movie')).toBeInTheDocument();
+    expect(screen.queryByText(/Unable to reach OMDb/)).not.toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify a shared link restores the search and the selected title
+   */
+  test('restores the search and selected title from the URL', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
+    (fetchMovieDetails as jest.Mock).mockResolvedValue(mockMovieDetails);
+    window.history.replaceState(null, '', '/?q=Test&type=movie&from=2000&to=2010&id=tt1234');
+
+    render(<App />);
+
+    expect(screen.getByPlaceholderText('Search Movies')).toHaveValue('Test');
+    expect(await screen.findByText('A test movie plot', { exact: false })).toBeInTheDocument();
+    expect(fetchMovieDetails).toHaveBeenCalledWith('tt1234', expect.any(AbortSignal));
+    await waitFor(() => {
+      expect(fetchMovies).toHaveBeenCalledWith('Test', 1, 'movie', expect.any(AbortSignal), undefined);
+    });
+
+    // The restored search keeps the title open
+    expect(screen.getByText('A test movie plot', { exact: false })).toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify the year filter
+   * - Allows any year by default, then narrows the results with a decade preset and a typed year
+   */
+  test('filters by decade presets and typed years, or allows any year', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue({
+      movies: [
+        { imdbID: 'tt1', title: 'Silent Film', year: 1925, type: 'movie', poster: null },
+        { imdbID: 'tt2', title: 'Eighties Film', year: 1985, type: 'movie', poster: null }
+      ],
+      totalResults: 2
+    });
+
+    render(<App />);
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Film' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+
+    // No year filter by default, so silent-era titles are included
+    expect(await screen.findByText('Silent Film')).toBeInTheDocument();
+    expect(screen.getByLabelText('Any year')).toBeChecked();
+
+    fireEvent.click(within(screen.getByRole('group', { name: 'Decades' })).getByRole('button', { name: '1980s' }));
+    await waitFor(() => expect(screen.queryByText('Silent Film')).not.toBeInTheDocument());
+    expect(screen.getByText('Eighties Film')).toBeInTheDocument();
+    expect(window.location.search).toContain('from=1980&to=1989');
+
+    // A typed year is applied once the field is left
+    const startYear = screen.getByLabelText('Start year');
+    fireEvent.change(startYear, { target: { value: '1920' } });
+    fireEvent.blur(startYear);
+    expect(await screen.findByText('Silent Film')).toBeInTheDocument();
+    expect(window.location.search).toContain('from=1920&to=1989');
+
+    fireEvent.click(screen.getByLabelText('Any year'));
+    await waitFor(() => expect(window.location.search).not.toContain('from='));
+  });
+
+  /**
+   * Test case: Verify the search history and recently viewed titles
+   * - Offers past searches under the search box and reopens viewed titles while no search is active
+   */
+  test('remembers searches and recently viewed titles', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
+    (fetchMovieDetails as jest.Mock).mockResolvedValue(mockMovieDetails);
+
+    render(<App />);
+    const searchInput = screen.getByPlaceholderText('Search Movies');
+    fireEvent.change(searchInput, { target: { value: 'Test' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+    fireEvent.click(await screen.findByText('Test Movie'));
+    expect(await screen.findByText('A test movie plot', { exact: false })).toBeInTheDocument();
+
+    // With the query cleared, the viewed title is offered again
+    fireEvent.change(searchInput, { target: { value: '' } });
+    const recentlyViewed = await screen.findByRole('region', { name: 'Recently viewed' });
+    expect(within(recentlyViewed).getByRole('button', { name: 'Test Movie (2022)' })).toBeInTheDocument();
+
+    // The search is suggested under the search box and runs again with its filters
+    fireEvent.focus(searchInput);
+    const history = screen.getByRole('list', { name: 'Search history' });
+    expect(within(history).getByText('Any type · Any year')).toBeInTheDocument();
+    fireEvent.click(within(history).getByText('Test'));
+    expect(searchInput).toHaveValue('Test');
+    expect(screen.queryByRole('list', { name: 'Search history' })).not.toBeInTheDocument();
+
+    // Both can be cleared, and the storage is updated to match
+    fireEvent.change(searchInput, { target: { value: '' } });
+    fireEvent.click(await screen.findByRole('button', { name: 'Clear recently viewed' }));
+    expect(screen.queryByRole('region', { name: 'Recently viewed' })).not.toBeInTheDocument();
+    fireEvent.focus(searchInput);
+    fireEvent.click(screen.getByRole('button', { name: 'Remove "Test" from search history' }));
+    expect(screen.queryByRole('list', { name: 'Search history' })).not.toBeInTheDocument();
+    expect(JSON.parse(window.localStorage.getItem(HISTORY_STORAGE_KEY)!)).toMatchObject({
+      searches: [],
+      recentlyViewed: []
+    });
+  });
+
+  /**
+   * Test case: Verify the suggestions shown while typing
+   * - Moves through them with the arrow keys and opens one with Enter
+   */
+  test('suggests titles while typing and opens one from the keyboard', async () => {
+    const second = { ...mockSearchPage.movies[0], imdbID: 'tt5678', title: 'Test Sequel', year: 2024, poster: null };
+    (fetchSuggestions as jest.Mock).mockResolvedValue([mockSearchPage.movies[0], second]);
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
+    (fetchMovieDetails as jest.Mock).mockResolvedValue({ ...mockMovieDetails, ...second, plot: 'The sequel plot' });
+
+    render(<App />);
+    const searchInput = screen.getByRole('combobox', { name: 'Search' });
+    fireEvent.focus(searchInput);
+    fireEvent.change(searchInput, { target: { value: 'Test' } });
+
+    const suggestions = await screen.findByRole('listbox', { name: 'Suggestions' });
+    expect(fetchSuggestions).toHaveBeenCalledWith('Test', '', expect.any(AbortSignal));
+    expect(within(suggestions).getAllByRole('option')).toHaveLength(2);
+    expect(searchInput).toHaveAttribute('aria-expanded', 'true');
+
+    // The arrow keys wrap around the suggestions
+    fireEvent.keyDown(searchInput, { key: 'ArrowUp' });
+    const active = within(suggestions).getByRole('option', { selected: true });
+    expect(active).toHaveTextContent('Test Sequel');
+    expect(searchInput).toHaveAttribute('aria-activedescendant', active.id);
+
+    // Enter opens the active suggestion instead of searching
+    fireEvent.keyPress(searchInput, { key: 'Enter', code: 'Enter', charCode: 13 });
+    expect(await screen.findByText('The sequel plot', { exact: false })).toBeInTheDocument();
+    expect(fetchMovieDetails).toHaveBeenCalledWith('tt5678', expect.any(AbortSignal));
+    expect(screen.queryByRole('listbox', { name: 'Suggestions' })).not.toBeInTheDocument();
+  });
+
+  /**
+   * Test case: Verify the color modes
+   * - Follows the operating system until a mode is picked, then remembers the pick
+   */
+  test('switches between light, dark and system color modes', async () => {
+    const store = createMemoryStore();
+    // The operating system is set to dark mode
+    Object.defineProperty(window, 'matchMedia', {
+      configurable: true,
+      value: (media: string) => ({
+        matches: true,
+        media,
+        addListener: jest.fn(),
+        removeListener: jest.fn(),
+        addEventListener: jest.fn(),
+        removeEventListener: jest.fn()
+      })
+    });
+    const PaletteModeProbe = () => <span>{useTheme().palette.mode} palette</span>;
+
+    try {
+      render(
+        <AppThemeProvider storage={createThemeModeStorage(store)}>
+          <ThemeModeToggle />
+          <PaletteModeProbe />
+        </AppThemeProvider>
+      );
+      expect(screen.getByRole('button', { name: 'System mode' })).toHaveAttribute('aria-pressed', 'true');
+      expect(await screen.findByText('dark palette')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Light mode' }));
+      expect(screen.getByText('light palette')).toBeInTheDocument();
+      expect(store.getItem(THEME_MODE_STORAGE_KEY)).toBe('light');
+
+      // Picking the current mode again keeps it
+      fireEvent.click(screen.getByRole('button', { name: 'Light mode' }));
+      expect(screen.getByRole('button', { name: 'Light mode' })).toHaveAttribute('aria-pressed', 'true');
+    } finally {
+      Reflect.deleteProperty(window, 'matchMedia');
+    }
+  });
+
+  /**
+   * Test case: Verify the offline banner and the refresh once the connection returns
+   */
+  test('shows an offline banner and refreshes when back online', async () => {
+    (fetchMovieDetails as jest.Mock)
+      .mockRejectedValueOnce(new MovieApiError('network'))
+      .mockResolvedValue(mockMovieDetails);
+    window.history.replaceState(null, '', '/?id=tt1234');
+    const setOnline = (online: boolean) => {
+      Object.defineProperty(window.navigator, 'onLine', { value: online, configurable: true });
+      fireEvent(window, new Event(online ? 'online' : 'offline'));
+    };
+
+    try {
+      render(<App />);
+      expect(await screen.findByText(/Unable to reach OMDb/)).toBeInTheDocument();
+
+      setOnline(false);
+      expect(screen.getByText(/You're offline/)).toBeInTheDocument();
+
+      // The failed details request is repeated once the connection returns
+      setOnline(true);
+      expect(await screen.findByText('A test movie plot', { exact: false })).toBeInTheDocument();
+      expect(screen.queryByText(/You're offline/)).not.toBeInTheDocument();
+      expect(fetchMovieDetails).toHaveBeenCalledTimes(2);
+    } finally {
+      Object.defineProperty(window.navigator, 'onLine', { value: true, configurable: true });
+    }
+  });
+
+  /**
+   * Test case: Verify selections are recorded in history so Back closes them
+   */
+  test('syncs the selected title with browser history', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue(mockSearchPage);
+    (fetchMovieDetails as jest.Mock).mockResolvedValue(mockMovieDetails);
+
+    render(<App />);
+    fireEvent.change(screen.getByPlaceholderText('Search Movies'), { target: { value: 'Test' } });
+    fireEvent.click(screen.getByLabelText('Search movies'));
+    fireEvent.click(await screen.findByText('Test Movie'));
+    await screen.findByText('A test movie plot', { exact: false });
+
+    expect(window.location.search).toBe('?q=Test&id=tt1234');
+
+    // Going back returns to the search without a selected title
+    act(() => {
+      window.history.back();
+    });
+    expect(await screen.findByText('Select a movie to see details.')).toBeInTheDocument();
+    expect(window.location.search).toBe('?q=Test');
+  });
+
+  /**
+   * Test case: Verify pasting an IMDb URL opens the title without searching
+   */
+  test('opens details directly for a pasted IMDb URL', async () => {
+    (fetchMovieDetails as jest.Mock).mockResolvedValue(mockMovieDetails);
+
+    render(<App />);
+    const searchInput = screen.getByPlaceholderText('Search Movies');
+    fireEvent.change(searchInput, { target: { value: 'https://www.imdb.com/title/tt1234567/?ref_=nv_sr_srsg_0' } });
+    fireEvent.keyPress(searchInput, { key: 'Enter', code: 'Enter', charCode: 13 });
+
+    expect(await screen.findByText('A test movie plot', { exact: false })).toBeInTheDocument();
+    expect(fetchMovieDetails).toHaveBeenCalledWith('tt1234567', expect.any(AbortSignal));
+    expect(fetchMovies).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Test case: Verify exact title mode looks up a single title by name and year
+   */
+  test('looks up an exact title with an optional year', async () => {
+    (fetchMovieByTitle as jest.Mock).mockResolvedValue(mockMovieDetails);
+
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('Exact title'));
+    fireEvent.change(screen.getByLabelText('Release year'), { target: { value: '2022' } });
+    const searchInput = screen.getByPlaceholderText('Exact Title');
+    fireEvent.change(searchInput, { target: { value: 'Test Movie' } });
+    fireEvent.keyPress(searchInput, { key: 'Enter', code: 'Enter', charCode: 13 });
+
+    expect(await screen.findByText('A test movie plot', { exact: false })).toBeInTheDocument();
+    expect(fetchMovieByTitle).toHaveBeenCalledWith('Test Movie', 2022, '', expect.any(AbortSignal));
+    expect(fetchMovies).not.toHaveBeenCalled();
+    expect(window.location.search).toContain('mode=title&year=2022');
+  });
+
+  /**
+   * Test case: Verify a shared link restores an exact title lookup with its year
+   */
+  test('restores an exact title lookup from the URL', async () => {
+    (fetchMovieByTitle as jest.Mock).mockResolvedValue(mockMovieDetails);
+    window.history.replaceState(null, '', '/?q=Test%20Movie&mode=title&year=2022');
+
+    render(<App />);
+
+    expect(screen.getByLabelText('Exact title')).toBeChecked();
+    expect(screen.getByLabelText('Release year')).toHaveValue('2022');
+    expect(await screen.findByText('A test movie plot', { exact: false })).toBeInTheDocument();
+    expect(fetchMovieByTitle).toHaveBeenCalledWith('Test Movie', 2022, '', expect.any(AbortSignal));
+    expect(fetchMovies).not.toHaveBeenCalled();
+  });
+});
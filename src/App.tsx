@@ -1,157 +1,403 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Container, Dialog, Grid, Alert, IconButton } from '@mui/material';
-import { Close as CloseIcon } from '@mui/icons-material';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Container, Dialog, Grid, Alert, IconButton, Button, Box, CircularProgress } from '@mui/material';
+import { Close as CloseIcon, BookmarksOutlined, CompareArrows, Keyboard } from '@mui/icons-material';
 
-import { fetchMovies, fetchMovieDetails } from '../src/api/movieApi';
-import { Movie, MovieDetail, YearRange } from './types';
+import { fetchMovieDetails, fetchMovieByTitle, fetchSuggestions } from '../src/api/movieApi';
+import { SearchCursor, createSearchCursor, fetchYearFilteredPage, matchesYearRange } from './api/yearFilteredSearch';
+import { isAbortError } from './api/abort';
+import { MovieApiError, toMovieApiError } from './api/apiErrors';
+import { DEFAULT_ENRICHMENT_BUDGET, enrichMovies } from './api/detailEnrichment';
+import { DetailFilters, Movie, MovieDetail, NamedList, SearchHistory, SearchHistoryEntry, WatchlistEntry, YearRange } from './types';
+import {
+  DEFAULT_LIST_ID,
+  WatchlistStorage,
+  createBrowserWatchlistStorage,
+  createNamedList,
+  toWatchlistEntry
+} from './storage/watchlistStorage';
+import { UrlState, parseUrlState, buildUrlSearch, sameYearRange, shouldPushHistory } from './routing/urlState';
+import { getYearBounds } from './config/yearBounds';
+import {
+  HistoryStorage,
+  addRecentlyViewed,
+  addSearch,
+  createBrowserHistoryStorage,
+  removeSearch
+} from './storage/historyStorage';
+import { NO_DETAIL_FILTERS, hasDetailFilters, matchesDetailFilters } from './results/detailFilters';
+import { movieScore } from './ratings/normalizedRatings';
+import { FOCUS_SEARCH_KEY, SHOW_SHORTCUTS_KEY, TOGGLE_WATCHLIST_KEY, isShortcutEvent } from './keyboard/shortcuts';
 
 import SearchBar from './components/SearchBar';
 import MovieList from './components/MovieList';
 import MovieDetails from './components/MovieDetails';
 import WatchList from './components/WatchList';
+import CompareView, { MAX_COMPARE_TITLES, MIN_COMPARE_TITLES } from './components/CompareView';
+import ShortcutHelp from './components/ShortcutHelp';
+import RecentlyViewed from './components/RecentlyViewed';
+import ThemeModeToggle from './components/ThemeModeToggle';
+
+// Years the year filter can cover
+const YEAR_BOUNDS = getYearBounds();
+
+// Hides content visually while keeping it available to screen readers
+const visuallyHidden = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  margin: '-1px',
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap'
+} as const;
+
+// Default storage used to persist the user's lists between sessions
+const defaultWatchlistStorage = createBrowserWatchlistStorage();
+
+// Default storage used to persist the search history and recently viewed titles
+const defaultHistoryStorage = createBrowserHistoryStorage();
+
+/**
+ * Props for the App component
+ */
+interface AppProps {
+  watchlistStorage?: WatchlistStorage; // Storage layer for the lists (swappable in tests)
+  historyStorage?: HistoryStorage;     // Storage layer for the search history and recently viewed titles
+}
+
+const App: React.FC<AppProps> = ({
+  watchlistStorage = defaultWatchlistStorage,
+  historyStorage = defaultHistoryStorage
+}) => {
+  // State restored from the address bar when the app is opened from a shared link
+  const [initialUrlState] = useState<UrlState>(() =>
+    parseUrlState(window.location.search, YEAR_BOUNDS)
+  );
 
-const App: React.FC = () => {
   // State management for search functionality
-  const [query, setQuery] = useState('');
+  const [query, setQuery] = useState(initialUrlState.query);
   const [movies, setMovies] = useState<Movie[]>([]);
   const [selectedMovie, setSelectedMovie] = useState<MovieDetail | null>(null);
-  const [watchlist, setWatchlist] = useState<Movie[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialUrlState.imdbID);
+  const [lists, setLists] = useState<NamedList[]>(() => watchlistStorage.load());
+  const [history, setHistory] = useState<SearchHistory>(() => historyStorage.load());
   const [loading, setLoading] = useState(false);
-  const [yearRange, setYearRange] = useState<YearRange>({ startYear: 1970, endYear: 2024 });
-  const [type, setType] = useState<'movie' | 'series' | 'episode' | ''>('');
-  const [error, setError] = useState<string | null>(null);
+  const [yearRange, setYearRange] = useState<YearRange | null>(initialUrlState.yearRange);
+  const [type, setType] = useState<'movie' | 'series' | 'episode' | ''>(initialUrlState.type);
+  const [searchMode, setSearchMode] = useState<'search' | 'title'>(initialUrlState.mode);
+  const [exactYear, setExactYear] = useState(initialUrlState.exactYear);
+  const [error, setError] = useState<MovieApiError | null>(null);
+  const [detailsError, setDetailsError] = useState<MovieApiError | null>(null);
   const [totalResults, setTotalResults] = useState(0);
+  const [totalIsLowerBound, setTotalIsLowerBound] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
 
   // State management for dialog
   const [watchlistOpen, setWatchlistOpen] = useState(false);
+  const [activeListId, setActiveListId] = useState(DEFAULT_LIST_ID);
 
-  /**
-   * Filters movies based on the year range
-   * @param movies Array of movies to filter
-   * @param allResults Total number of API results
-   * @returns Filtered movies and adjusted total results
-   */
-  const filterMoviesByYearRange = useCallback((movies: Movie[], allResults: number) => {
-    const filteredMovies = movies.filter(movie => {
-      // Handle movies with year ranges (eg: 2020-2022)
-      const yearParts = movie.Year.split('–');
-      const movieYear = parseInt(yearParts[0]);
-
-      // If it's a series with a range, check if any part of the range overlaps with selected range
-      if (yearParts.length > 1) {
-        const endYear = parseInt(yearParts[1]) || new Date().getFullYear();
-        return (
-          !isNaN(movieYear) && !isNaN(endYear) &&
-          // Ensure both start and end years are valid numbers
-           // Check if the movie year or the end year of the series overlaps with the selected range
-          ((movieYear >= yearRange.startYear && movieYear <= yearRange.endYear) ||
-           (endYear >= yearRange.startYear && endYear <= yearRange.endYear))
-        );
-      }
-      // For movies without a year range, check if the movie year falls within the selected range
-      return !isNaN(movieYear) &&
-        movieYear >= yearRange.startYear &&
-        movieYear <= yearRange.endYear;
-    });
+  // State management for the comparison of two to four titles
+  const [compareMovies, setCompareMovies] = useState<Movie[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [compareDetails, setCompareDetails] = useState<MovieDetail[]>([]);
+  const [compareError, setCompareError] = useState<MovieApiError | null>(null);
+  const [compareAttempt, setCompareAttempt] = useState(0); // Bumped to retry loading the details
+
+  // State management for the advanced filters, which run on the details of each result
+  const [detailFilters, setDetailFilters] = useState<DetailFilters>(NO_DETAIL_FILTERS);
+  const [enrichDetails, setEnrichDetails] = useState(false);
+  const [enrichedDetails, setEnrichedDetails] = useState<Record<string, MovieDetail>>({});
+  const [enrichmentBudget, setEnrichmentBudget] = useState(DEFAULT_ENRICHMENT_BUDGET);
+  const [enrichmentRequested, setEnrichmentRequested] = useState(0);
+  const [enrichmentFailed, setEnrichmentFailed] = useState<string[]>([]); // IMDb IDs whose details couldn't be loaded
+
+  // State management for keyboard use: the shortcut help, where focus goes next,
+  // and messages announced to screen readers
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [focusDetails, setFocusDetails] = useState(false);
+  const [listFocusRequest, setListFocusRequest] = useState(0); // Bumped to focus the selected result
+  const [announcement, setAnnouncement] = useState('');
+
+  // State for the connection, used to show the offline banner and refresh on reconnect
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  // Ref for the search box, focused by its shortcut
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Entries in the default watchlist, which the bookmark button adds to
+  const watchlist = useMemo(
+    () => lists.find(list => list.id === DEFAULT_LIST_ID)?.entries ?? [],
+    [lists]
+  );
+
+  // Controllers for the latest search and details requests, used to cancel superseded ones
+  const searchControllerRef = useRef<AbortController | null>(null);
+  const detailsControllerRef = useRef<AbortController | null>(null);
 
-    // The percentage of current results that match the year filter
-    const filterRatio = movies.length > 0 ? filteredMovies.length / movies.length : 0;
+  // IMDb IDs of the results whose details have been requested for the current search
+  const enrichmentRequestedRef = useRef<Set<string>>(new Set());
 
-    // Estimate total results based on the filter ratio (but never less than actual filtered movies)
-    const estimatedTotal = Math.max(filteredMovies.length, Math.floor(allResults * filterRatio));
+  // Where the current search has got to, used to load the next page of matches
+  const searchCursorRef = useRef<SearchCursor | null>(null);
 
-    return { filteredMovies, filteredTotal: estimatedTotal };
-  }, [yearRange]);
+  // Number of result pages to load back in when restoring a search from the URL
+  const pendingPageRef = useRef(initialUrlState.page);
+
+  // Keeps the selected title open through the search that restores its URL
+  const preserveSelectionRef = useRef(initialUrlState.imdbID !== null && initialUrlState.query.trim() !== '');
+
+  // Exact title lookups restored from the URL, counted so each one runs once its inputs
+  // are in state (the search bar only runs them on Enter)
+  const [restoredLookup, setRestoredLookup] = useState(
+    initialUrlState.mode === 'title' && initialUrlState.query.trim() !== '' ? 1 : 0
+  );
+  const lastRestoredLookupRef = useRef(0);
+
+  // Whether the connection has dropped since the last refresh
+  const wasOfflineRef = useRef(!navigator.onLine);
+
+  // The previous query, used to detect when the search box is cleared
+  const previousQueryRef = useRef(initialUrlState.query);
 
   /**
-   * Searches for movies via OMDb API
-   * @param page Page number for pagination
+   * Searches for movies via OMDb API, restricted to the selected year range
+   * @param page Page number for pagination (1 starts a new search, later pages
+   * continue from where the previous page stopped)
    */
   const searchMovies = useCallback(async (page: number = 1) => {
+    // Cancel any search still in flight so its results can't overwrite this one
+    searchControllerRef.current?.abort();
+
     if (!query.trim()) {
+      searchControllerRef.current = null;
+      searchCursorRef.current = null;
       setMovies([]);
       setError(null);
       setTotalResults(0);
+      setHasMore(false);
+      setLoading(false);
       return;
     }
 
+    const cursor = page === 1 || !searchCursorRef.current
+      ? createSearchCursor(query, type, yearRange)
+      : searchCursorRef.current;
+
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+
     // Set loading state and clear previous errors
     setLoading(true);
     setError(null);
 
+    // A new search starts with a fresh request budget for result details
+    if (page === 1) {
+      enrichmentRequestedRef.current = new Set();
+      setEnrichmentRequested(0);
+      setEnrichedDetails({});
+      setEnrichmentFailed([]);
+      setEnrichmentBudget(DEFAULT_ENRICHMENT_BUDGET);
+    }
+
     try {
-      const response = await fetchMovies(query, page, type);
-
-      if (response.Response === 'True') {
-        const totalApiResults = parseInt(response.totalResults);
-        const { filteredMovies, filteredTotal } = filterMoviesByYearRange(
-          response.Search,
-          totalApiResults
-        );
-
-        // Update movies state based on page
-        setMovies(prevMovies =>
-          page === 1 ? filteredMovies : [...prevMovies, ...filteredMovies]
-        );
-        // Update total results with filtered count
-        setTotalResults(filteredTotal);
-
-        // Display error only if no movies match the filter AND user is on the first page
-        if (filteredMovies.length === 0 && page === 1) {
-          setError(`No movies found between ${yearRange.startYear} and ${yearRange.endYear}`);
-        } else {
-          setError(null);
-        }
-      } else {
-        // Handle no results scenario
-        setError(response.Error || 'No results found');
+      const result = await fetchYearFilteredPage(cursor, controller.signal);
+
+      // Ignore responses that arrive after a newer search has started
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      // Update movies state based on page, then remember where to continue from
+      setMovies(prevMovies => page === 1 ? result.movies : [...prevMovies, ...result.movies]);
+      setTotalResults(result.totalResults);
+      setTotalIsLowerBound(result.totalIsLowerBound);
+      setHasMore(result.hasMore);
+      searchCursorRef.current = result.cursor;
+
+      // Remember the search once it has found something
+      if (page === 1) {
+        const entry = { query, type, yearRange, searchedAt: new Date().toISOString() };
+        setHistory(prev => ({ ...prev, searches: addSearch(prev.searches, entry) }));
+      }
+    } catch (error) {
+      // Superseded searches are dropped silently
+      if (controller.signal.aborted || isAbortError(error)) {
+        return;
+      }
+      // Handle API, network or unexpected errors
+      setError(toMovieApiError(error));
+      // Keep the pages already loaded when loading more fails, so it can be retried
+      if (page === 1) {
         setMovies([]);
         setTotalResults(0);
+        setHasMore(false);
+      }
+    } finally {
+      // Stop loading unless a newer search has taken over
+      if (searchControllerRef.current === controller) {
+        setLoading(false);
       }
+    }
+  }, [query, type, yearRange]);
+
+  /**
+   * Looks up the title exactly matching the query (and optional year) via OMDb
+   * and opens its details straight away
+   */
+  const lookupExactTitle = useCallback(async () => {
+    // Cancel any search still in flight so its results can't overwrite this one
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const details = await fetchMovieByTitle(
+        query,
+        exactYear ? parseInt(exactYear, 10) : undefined,
+        type,
+        controller.signal
+      );
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      // Show the match as the only result, with its details open
+      setMovies([details]);
+      setTotalResults(1);
+      setTotalIsLowerBound(false);
+      setHasMore(false);
+      setSelectedId(details.imdbID);
+      setSelectedMovie(details);
+      setDetailsError(null);
     } catch (error) {
-      // Handle network or unexpected errors
-      setError(error instanceof Error ? error.message : 'An error occurred while searching');
+      if (controller.signal.aborted || isAbortError(error)) {
+        return;
+      }
+      setError(toMovieApiError(error));
       setMovies([]);
       setTotalResults(0);
+      setHasMore(false);
     } finally {
-      // Always stop loading
-      setLoading(false);
+      if (searchControllerRef.current === controller) {
+        setLoading(false);
+      }
     }
-  }, [query, type, yearRange, filterMoviesByYearRange]);
+  }, [query, exactYear, type]);
 
   /**
    * Fetches movie details based on IMDb ID
-   * @param movie Selected movie object
+   * @param imdbID IMDb ID of the selected movie
    */
-  const handleSelectMovie = useCallback(async (movie: Movie) => {
+  const selectMovieById = useCallback(async (imdbID: string) => {
+    // Cancel the details request for any previously selected movie
+    detailsControllerRef.current?.abort();
+    const controller = new AbortController();
+    detailsControllerRef.current = controller;
+    setSelectedId(imdbID);
+    setDetailsError(null);
+
     try {
-      const details = await fetchMovieDetails(movie.imdbID);
-      setSelectedMovie(details);
+      const details = await fetchMovieDetails(imdbID, controller.signal);
+      // Only show the details if this is still the most recent selection
+      if (!controller.signal.aborted) {
+        setSelectedMovie(details);
+      }
     } catch (error) {
-      console.error('Error fetching movie details:', error);
+      if (!controller.signal.aborted && !isAbortError(error)) {
+        setSelectedMovie(null);
+        setDetailsError(toMovieApiError(error));
+      }
     }
   }, []);
 
+  /**
+   * Fetches movie details for a movie picked from the list
+   * @param movie Selected movie object
+   * @param viaKeyboard Whether it was opened with Enter, in which case focus follows to the details
+   */
+  const handleSelectMovie = useCallback((movie: Movie, viaKeyboard: boolean = false) => {
+    setFocusDetails(viaKeyboard);
+    selectMovieById(movie.imdbID);
+  }, [selectMovieById]);
+
+  /**
+   * Fetches the titles suggested while typing, with the type and year filters applied
+   * @param text The text typed so far
+   * @param signal AbortSignal cancelling the request when the user types on
+   * @returns The suggested titles
+   */
+  const loadSuggestions = useCallback(async (text: string, signal: AbortSignal): Promise<Movie[]> => {
+    const suggestions = await fetchSuggestions(text, type, signal);
+    return yearRange ? suggestions.filter(movie => matchesYearRange(movie, yearRange)) : suggestions;
+  }, [type, yearRange]);
+
+  /**
+   * Moves focus from the details back to the selected result
+   */
+  const backToResults = useCallback(() => {
+    setListFocusRequest(request => request + 1);
+  }, []);
+
+  /**
+   * Repeats the details request for the most recently selected movie
+   */
+  const retrySelectMovie = useCallback(() => {
+    if (selectedId) {
+      selectMovieById(selectedId);
+    }
+  }, [selectMovieById, selectedId]);
+
   /**
    * Initiates a new search
    */
   const onSearch = useCallback(() => {
     setCurrentPage(1);
-    setSelectedMovie(null);
-    searchMovies(1);
-  }, [searchMovies]);
+
+    // A search restoring a shared link keeps its title open and reloads its pages
+    if (preserveSelectionRef.current) {
+      preserveSelectionRef.current = false;
+    } else {
+      pendingPageRef.current = 1;
+      detailsControllerRef.current?.abort();
+      setSelectedId(null);
+      setSelectedMovie(null);
+      setDetailsError(null);
+    }
+
+    if (searchMode === 'title') {
+      lookupExactTitle();
+    } else {
+      searchMovies(1);
+    }
+  }, [searchMode, searchMovies, lookupExactTitle]);
+
+  /**
+   * Repeats the search request that failed (the first page or the last page loaded)
+   */
+  const retrySearch = useCallback(() => {
+    if (searchMode === 'title') {
+      lookupExactTitle();
+    } else {
+      searchMovies(currentPage);
+    }
+  }, [searchMode, searchMovies, lookupExactTitle, currentPage]);
 
   /**
    * Loads additional movies for pagination
    */
   const loadMore = useCallback(() => {
-    if (!loading && movies.length < totalResults) {
+    if (!loading && hasMore) {
       const nextPage = currentPage + 1;
       setCurrentPage(nextPage);
       searchMovies(nextPage);
     }
-  }, [loading, movies.length, totalResults, currentPage, searchMovies]);
+  }, [loading, hasMore, currentPage, searchMovies]);
 
   /**
    * Checks if a movie is in the watchlist
@@ -162,20 +408,187 @@ const App: React.FC = () => {
     return watchlist.some(movie => movie.imdbID === movieId);
   }, [watchlist]);
 
+  /**
+   * Applies a change to the entries of one list
+   * @param listId ID of the list to change
+   * @param update Function returning the new entries
+   */
+  const updateListEntries = useCallback((listId: string, update: (entries: WatchlistEntry[]) => WatchlistEntry[]) => {
+    setLists(prevLists => prevLists.map(list =>
+      list.id === listId ? { ...list, entries: update(list.entries) } : list
+    ));
+  }, []);
+
+  /**
+   * Adds a movie to a list, or removes it if it is already there
+   * @param listId ID of the list
+   * @param movie Movie details object
+   */
+  const toggleInList = useCallback((listId: string, movie: MovieDetail) => {
+    updateListEntries(listId, entries =>
+      entries.some(item => item.imdbID === movie.imdbID)
+        ? entries.filter(item => item.imdbID !== movie.imdbID)
+        : [...entries, toWatchlistEntry(movie)]
+    );
+  }, [updateListEntries]);
+
   /**
    * Adds or removes a movie from the watchlist
    * @param movie Movie details object
    */
   const addToWatchlist = useCallback((movie: MovieDetail) => {
-    setWatchlist(prevWatchlist => {
-      const isAlreadyInWatchlist = prevWatchlist.some(
-        item => item.imdbID === movie.imdbID
-      );
+    toggleInList(DEFAULT_LIST_ID, movie);
+
+    // Show the dialog unless the last movie was just removed. This lives here rather
+    // than in an effect so restored or synced watchlists don't pop the dialog open.
+    const removesLastMovie = watchlist.length === 1 && watchlist[0].imdbID === movie.imdbID;
+    if (!removesLastMovie) {
+      setActiveListId(DEFAULT_LIST_ID);
+      setWatchlistOpen(true);
+    }
+  }, [watchlist, toggleInList]);
+
+  /**
+   * Creates a new, empty list and shows it in the dialog
+   * @param name The name of the list
+   * @returns The ID of the new list
+   */
+  const createList = useCallback((name: string): string => {
+    const list = createNamedList(name);
+    setLists(prevLists => [...prevLists, list]);
+    setActiveListId(list.id);
+    return list.id;
+  }, []);
+
+  /**
+   * Renames a list
+   * @param listId ID of the list
+   * @param name The new name
+   */
+  const renameList = useCallback((listId: string, name: string) => {
+    setLists(prevLists => prevLists.map(list => list.id === listId ? { ...list, name: name.trim() } : list));
+  }, []);
+
+  /**
+   * Deletes a list (the default watchlist can't be deleted)
+   * @param listId ID of the list
+   */
+  const deleteList = useCallback((listId: string) => {
+    if (listId === DEFAULT_LIST_ID) {
+      return;
+    }
+    setLists(prevLists => prevLists.filter(list => list.id !== listId));
+    setActiveListId(currentId => currentId === listId ? DEFAULT_LIST_ID : currentId);
+  }, []);
+
+  /**
+   * Removes a movie from a list
+   * @param listId ID of the list
+   * @param movieId IMDb ID of the movie to remove
+   */
+  const removeFromList = useCallback((listId: string, movieId: string) => {
+    updateListEntries(listId, entries => entries.filter(item => item.imdbID !== movieId));
+  }, [updateListEntries]);
+
+  /**
+   * Moves a list entry to the position of another entry
+   * @param listId ID of the list
+   * @param movieId IMDb ID of the entry being moved
+   * @param targetId IMDb ID of the entry whose position it takes
+   */
+  const reorderList = useCallback((listId: string, movieId: string, targetId: string) => {
+    updateListEntries(listId, entries => {
+      const fromIndex = entries.findIndex(item => item.imdbID === movieId);
+      const toIndex = entries.findIndex(item => item.imdbID === targetId);
+      if (fromIndex < 0 || toIndex < 0 || fromIndex === toIndex) {
+        return entries;
+      }
+
+      const reordered = [...entries];
+      const [moved] = reordered.splice(fromIndex, 1);
+      reordered.splice(toIndex, 0, moved);
+      return reordered;
+    });
+  }, [updateListEntries]);
 
-      return isAlreadyInWatchlist
-        ? prevWatchlist.filter(item => item.imdbID !== movie.imdbID)
-        : [...prevWatchlist, movie];
+  /**
+   * Marks a list entry as watched (recording the date) or unwatched
+   * @param listId ID of the list
+   * @param movieId IMDb ID of the entry
+   */
+  const toggleWatched = useCallback((listId: string, movieId: string) => {
+    updateListEntries(listId, entries => entries.map(item =>
+      item.imdbID === movieId
+        ? { ...item, watched: !item.watched, watchedAt: item.watched ? null : new Date().toISOString() }
+        : item
+    ));
+  }, [updateListEntries]);
+
+  /**
+   * Updates the notes on a list entry
+   * @param listId ID of the list
+   * @param movieId IMDb ID of the entry
+   * @param notes The new notes
+   */
+  const updateEntryNotes = useCallback((listId: string, movieId: string, notes: string) => {
+    updateListEntries(listId, entries => entries.map(item =>
+      item.imdbID === movieId ? { ...item, notes } : item
+    ));
+  }, [updateListEntries]);
+
+  /**
+   * Adds imported entries to a list, skipping any already listed
+   * @param listId ID of the list
+   * @param imported The entries to add
+   */
+  const importToList = useCallback((listId: string, imported: WatchlistEntry[]) => {
+    updateListEntries(listId, entries => {
+      const listed = new Set(entries.map(item => item.imdbID));
+      return [...entries, ...imported.filter(entry => !listed.has(entry.imdbID))];
     });
+  }, [updateListEntries]);
+
+  /**
+   * Adds a title to the comparison, or takes it out if it is already there
+   * @param movie The title
+   */
+  const toggleCompare = useCallback((movie: Movie) => {
+    setCompareMovies(prevMovies => {
+      if (prevMovies.some(item => item.imdbID === movie.imdbID)) {
+        return prevMovies.filter(item => item.imdbID !== movie.imdbID);
+      }
+      return prevMovies.length < MAX_COMPARE_TITLES ? [...prevMovies, movie] : prevMovies;
+    });
+  }, []);
+
+  /**
+   * Takes a title out of the comparison
+   * @param movieId IMDb ID of the title
+   */
+  const removeFromCompare = useCallback((movieId: string) => {
+    setCompareMovies(prevMovies => prevMovies.filter(item => item.imdbID !== movieId));
+  }, []);
+
+  /**
+   * Adds the open title to the watchlist or removes it, without opening the
+   * dialog, and announces the change to screen readers
+   */
+  const toggleSelectedInWatchlist = useCallback(() => {
+    if (!selectedMovie) {
+      return;
+    }
+    const inWatchlist = isInWatchlist(selectedMovie.imdbID);
+    toggleInList(DEFAULT_LIST_ID, selectedMovie);
+    setAnnouncement(inWatchlist
+      ? `${selectedMovie.title} removed from your watchlist`
+      : `${selectedMovie.title} added to your watchlist`);
+  }, [selectedMovie, isInWatchlist, toggleInList]);
+
+  /**
+   * Allows another batch of detail requests for the advanced filters
+   */
+  const extendEnrichment = useCallback(() => {
+    setEnrichmentBudget(budget => budget + DEFAULT_ENRICHMENT_BUDGET);
   }, []);
 
   /**
@@ -186,39 +599,350 @@ const App: React.FC = () => {
     setWatchlistOpen(false);
   }, []);
 
-  // Effect to show dialog when watchlist updates
+  // Effect to persist the lists whenever they change
   useEffect(() => {
-    if (watchlist.length > 0) {
-      setWatchlistOpen(true);
+    watchlistStorage.save(lists);
+  }, [lists, watchlistStorage]);
+
+  // Effect to pick up list changes made in other tabs
+  useEffect(() => {
+    return watchlistStorage.subscribe(setLists);
+  }, [watchlistStorage]);
+
+  // Effect to persist the search history and recently viewed titles whenever they change
+  useEffect(() => {
+    historyStorage.save(history);
+  }, [history, historyStorage]);
+
+  // Effect to add each title whose details are opened to the recently viewed titles
+  useEffect(() => {
+    if (selectedMovie) {
+      setHistory(prev => ({ ...prev, recentlyViewed: addRecentlyViewed(prev.recentlyViewed, selectedMovie) }));
     }
-  }, [watchlist]);
+  }, [selectedMovie]);
+
+  /**
+   * Runs a search from the history again with its type and year range
+   * @param entry The saved search
+   */
+  const applySearchFromHistory = useCallback((entry: SearchHistoryEntry) => {
+    setSearchMode('search');
+    setQuery(entry.query);
+    setType(entry.type);
+    setYearRange(entry.yearRange);
+  }, []);
+
+  /**
+   * Removes a search from the history
+   * @param entry The saved search
+   */
+  const removeSearchFromHistory = useCallback((entry: SearchHistoryEntry) => {
+    setHistory(prev => ({ ...prev, searches: removeSearch(prev.searches, entry) }));
+  }, []);
+
+  /**
+   * Clears the search history
+   */
+  const clearSearchHistory = useCallback(() => {
+    setHistory(prev => ({ ...prev, searches: [] }));
+  }, []);
+
+  /**
+   * Removes a title from the recently viewed titles
+   * @param movie The title to remove
+   */
+  const removeRecentlyViewed = useCallback((movie: Movie) => {
+    setHistory(prev => ({
+      ...prev,
+      recentlyViewed: prev.recentlyViewed.filter(entry => entry.imdbID !== movie.imdbID)
+    }));
+  }, []);
+
+  /**
+   * Clears the recently viewed titles
+   */
+  const clearRecentlyViewed = useCallback(() => {
+    setHistory(prev => ({ ...prev, recentlyViewed: [] }));
+  }, []);
+
+  // Effect to fall back to the default watchlist if the open list is deleted in another tab
+  useEffect(() => {
+    if (!lists.some(list => list.id === activeListId)) {
+      setActiveListId(DEFAULT_LIST_ID);
+    }
+  }, [lists, activeListId]);
+
+  // Details of the compared titles, in the order they were picked (empty until all have loaded)
+  const comparedDetails = useMemo(() => {
+    const details = compareMovies
+      .map(movie => compareDetails.find(detail => detail.imdbID === movie.imdbID))
+      .filter((detail): detail is MovieDetail => Boolean(detail));
+    return details.length === compareMovies.length ? details : [];
+  }, [compareMovies, compareDetails]);
+
+  // Effect to load the details of the compared titles while the comparison is open
+  useEffect(() => {
+    if (!compareOpen) {
+      return;
+    }
+
+    const controller = new AbortController();
+    setCompareError(null);
+
+    // Details are cached, so titles already viewed load instantly
+    Promise.all(compareMovies.map(movie => fetchMovieDetails(movie.imdbID, controller.signal)))
+      .then(setCompareDetails)
+      .catch(error => {
+        if (!isAbortError(error)) {
+          setCompareError(toMovieApiError(error));
+        }
+      });
+
+    return () => controller.abort();
+  }, [compareOpen, compareMovies, compareAttempt]);
+
+  // Effect to fetch the details of loaded results for the advanced filters, within the request budget
+  useEffect(() => {
+    if (!enrichDetails) {
+      return;
+    }
+
+    const requested = enrichmentRequestedRef.current;
+    const pending = movies
+      .filter(movie => !requested.has(movie.imdbID))
+      .slice(0, Math.max(0, enrichmentBudget - requested.size));
+    if (pending.length === 0) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const settled = new Set<string>();
+    pending.forEach(movie => requested.add(movie.imdbID));
+    setEnrichmentRequested(requested.size);
+
+    enrichMovies(pending, {
+      signal: controller.signal,
+      onDetails: details => setEnrichedDetails(prevDetails => ({ ...prevDetails, [details.imdbID]: details })),
+      onSettled: imdbID => settled.add(imdbID),
+      onError: imdbID => setEnrichmentFailed(prevFailed => [...prevFailed, imdbID])
+    });
+
+    return () => {
+      controller.abort();
+      // Titles still loading are requested again by the next pass
+      pending.forEach(movie => {
+        if (!settled.has(movie.imdbID)) {
+          requested.delete(movie.imdbID);
+        }
+      });
+    };
+  }, [enrichDetails, movies, enrichmentBudget]);
+
+  // Hides results that don't match the advanced filters (or whose details haven't loaded)
+  const matchesFilters = useMemo(() => (
+    enrichDetails && hasDetailFilters(detailFilters)
+      ? (movie: Movie) => matchesDetailFilters(enrichedDetails[movie.imdbID], detailFilters)
+      : undefined
+  ), [enrichDetails, detailFilters, enrichedDetails]);
+
+  // Combined rating score of each result, offered as a sort order once details are fetched
+  const scoreOf = useMemo(() => (
+    enrichDetails
+      ? (movie: Movie) => {
+          const details = enrichedDetails[movie.imdbID];
+          return details ? movieScore(details) : null;
+        }
+      : undefined
+  ), [enrichDetails, enrichedDetails]);
+
+  // How far fetching result details has got, shown with the advanced filters
+  const enrichment = useMemo(() => {
+    const budgetReached = enrichmentRequested >= enrichmentBudget && movies.length > enrichmentRequested;
+    return {
+      loaded: movies.filter(movie => enrichedDetails[movie.imdbID]).length,
+      total: movies.length,
+      failed: enrichmentFailed.length,
+      budgetReached,
+      // The results past the budget stay hidden by the filters, so loading more pages
+      // would only keep the list short and fetch pages until the search runs out
+      loadingPaused: budgetReached && matchesFilters !== undefined
+    };
+  }, [movies, enrichedDetails, enrichmentFailed, enrichmentRequested, enrichmentBudget, matchesFilters]);
+
+  // Effect to follow the browser's connection state
+  useEffect(() => {
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
 
-  // Effect to clear movies when query is empty
+  // Effect to refresh, once the connection returns, whatever failed or was served
+  // from the cache while offline
   useEffect(() => {
-    if (query.trim() === '') {
+    if (!online) {
+      wasOfflineRef.current = true;
+      return;
+    }
+    if (!wasOfflineRef.current) {
+      return;
+    }
+    wasOfflineRef.current = false;
+
+    if (error) {
+      retrySearch();
+    }
+    if (selectedId) {
+      selectMovieById(selectedId);
+    }
+    if (compareError) {
+      setCompareAttempt(attempt => attempt + 1);
+    }
+  }, [online, error, retrySearch, selectedId, selectMovieById, compareError]);
+
+  // Effect to handle the app-wide keyboard shortcuts (not while typing or while a dialog is open)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || !isShortcutEvent(event) || watchlistOpen || compareOpen || shortcutsOpen) {
+        return;
+      }
+      if (event.key === FOCUS_SEARCH_KEY) {
+        event.preventDefault();
+        searchInputRef.current?.focus();
+      } else if (event.key === SHOW_SHORTCUTS_KEY) {
+        event.preventDefault();
+        setShortcutsOpen(true);
+      } else if (event.key === TOGGLE_WATCHLIST_KEY) {
+        toggleSelectedInWatchlist();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [watchlistOpen, compareOpen, shortcutsOpen, toggleSelectedInWatchlist]);
+
+  // Effect to cancel outstanding requests on unmount
+  useEffect(() => {
+    return () => {
+      searchControllerRef.current?.abort();
+      detailsControllerRef.current?.abort();
+    };
+  }, []);
+
+  // Effect to clear movies when the query is emptied
+  useEffect(() => {
+    const wasEmpty = previousQueryRef.current.trim() === '';
+    previousQueryRef.current = query;
+
+    if (query.trim() === '' && !wasEmpty) {
+      searchControllerRef.current?.abort();
+      detailsControllerRef.current?.abort();
       setMovies([]);
       setTotalResults(0);
+      setHasMore(false);
+      setSelectedId(null);
       setSelectedMovie(null);
+      setDetailsError(null);
     }
   }, [query]);
 
-  // Effect to handle year range changes
+  // Effect to open the title from a shared link on startup
+  useEffect(() => {
+    if (initialUrlState.imdbID) {
+      selectMovieById(initialUrlState.imdbID);
+    }
+  }, [initialUrlState, selectMovieById]);
+
+  // Effect to run an exact title lookup restored from a shared link or the browser history
   useEffect(() => {
-    if (movies.length > 0) {
-      const { filteredMovies, filteredTotal } = filterMoviesByYearRange(movies, totalResults);
-      setMovies(filteredMovies);
-      setTotalResults(filteredTotal);
+    if (restoredLookup !== lastRestoredLookupRef.current) {
+      lastRestoredLookupRef.current = restoredLookup;
+      onSearch();
+    }
+  }, [restoredLookup, onSearch]);
+
+  // Effect to mirror the search state in the address bar
+  useEffect(() => {
+    const next: UrlState = {
+      query,
+      type,
+      yearRange,
+      // Keep the restored page in the URL while its results are loading back in
+      page: Math.max(currentPage, pendingPageRef.current),
+      imdbID: selectedId,
+      mode: searchMode,
+      exactYear: searchMode === 'title' ? exactYear : ''
+    };
+    const search = buildUrlSearch(next);
+    if (search === window.location.search) {
+      return;
+    }
+
+    const previous = parseUrlState(window.location.search, YEAR_BOUNDS);
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (shouldPushHistory(previous, next)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [query, type, yearRange, currentPage, selectedId, searchMode, exactYear]);
+
+  // Effect to restore the search state when navigating back or forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = parseUrlState(window.location.search, YEAR_BOUNDS);
+      const searchChanged =
+        next.query !== query ||
+        next.type !== type ||
+        !sameYearRange(next.yearRange, yearRange) ||
+        next.mode !== searchMode ||
+        next.exactYear !== (searchMode === 'title' ? exactYear : '');
+
+      // A keyword search re-runs on its own when its inputs change, while an exact
+      // title lookup is run once they are restored
+      if (searchChanged) {
+        preserveSelectionRef.current = next.imdbID !== null;
+        pendingPageRef.current = next.page;
+        setQuery(next.query);
+        setType(next.type);
+        setYearRange(next.yearRange);
+        setSearchMode(next.mode);
+        setExactYear(next.exactYear);
+        if (next.mode === 'title' && next.query.trim()) {
+          setRestoredLookup((count) => count + 1);
+        }
+      }
 
-      if (filteredMovies.length === 0) {
-        setError(`No movies found between ${yearRange.startYear} and ${yearRange.endYear}`);
+      if (next.imdbID) {
+        if (next.imdbID !== selectedId) {
+          selectMovieById(next.imdbID);
+        }
       } else {
-        setError(null);
+        detailsControllerRef.current?.abort();
+        setSelectedId(null);
+        setSelectedMovie(null);
+        setDetailsError(null);
       }
-    }
-  }, [yearRange, filterMoviesByYearRange, totalResults]);
+    };
 
-  // Constant to determine if there are more results to load
-  const hasMore = movies.length < totalResults;
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [query, type, yearRange, searchMode, exactYear, selectedId, selectMovieById]);
+
+  // Effect to load the pages a shared link points at, one after another
+  useEffect(() => {
+    if (loading || movies.length === 0 || pendingPageRef.current <= 1) {
+      return;
+    }
+    if (currentPage < pendingPageRef.current && hasMore) {
+      loadMore();
+    } else {
+      pendingPageRef.current = 1;
+    }
+  }, [loading, movies.length, currentPage, hasMore, loadMore]);
 
   return (
     <Container>
@@ -230,24 +954,111 @@ const App: React.FC = () => {
         loading={loading}
         yearRange={yearRange}
         setYearRange={setYearRange}
+        yearBounds={YEAR_BOUNDS}
         type={type}
         setType={setType}
+        searchMode={searchMode}
+        setSearchMode={setSearchMode}
+        exactYear={exactYear}
+        setExactYear={setExactYear}
+        onLookupId={selectMovieById}
+        detailFilters={detailFilters}
+        setDetailFilters={setDetailFilters}
+        enrichDetails={enrichDetails}
+        setEnrichDetails={setEnrichDetails}
+        enrichment={enrichment}
+        onExtendEnrichment={extendEnrichment}
+        inputRef={searchInputRef}
+        searchHistory={history.searches}
+        onSelectHistory={applySearchFromHistory}
+        onRemoveHistory={removeSearchFromHistory}
+        onClearHistory={clearSearchHistory}
+        loadSuggestions={loadSuggestions}
+        onSelectSuggestion={handleSelectMovie}
       />
+      {/* Messages for screen readers about changes made from the keyboard */}
+      <Box role="status" aria-live="polite" sx={visuallyHidden}>
+        {announcement}
+      </Box>
+      {/* Button to open the watchlist */}
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', my: 1 }}>
+        <ThemeModeToggle />
+        <Button color="inherit" startIcon={<Keyboard />} onClick={() => setShortcutsOpen(true)}>
+          Shortcuts
+        </Button>
+        <Button
+          startIcon={<BookmarksOutlined />}
+          onClick={() => {
+            setActiveListId(DEFAULT_LIST_ID);
+            setWatchlistOpen(true);
+          }}
+        >
+          My Watchlist ({watchlist.length})
+        </Button>
+        {/* Open the comparison once at least two titles are picked */}
+        {compareMovies.length > 0 && (
+          <>
+            <Button
+              startIcon={<CompareArrows />}
+              disabled={compareMovies.length < MIN_COMPARE_TITLES}
+              onClick={() => setCompareOpen(true)}
+            >
+              Compare ({compareMovies.length})
+            </Button>
+            <Button color="inherit" onClick={() => setCompareMovies([])}>
+              Clear
+            </Button>
+          </>
+        )}
+      </Box>
+      {/* Let the user know what still works while offline */}
+      {!online && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          You're offline. Your lists and titles you've viewed before are still available,
+          and everything will refresh when the connection returns.
+        </Alert>
+      )}
       {/* Display error message if there is an error */}
       {error && (
-        <Alert severity="error" sx={{ mb: 2 }}>
-          {error}
+        <Alert
+          severity="error"
+          sx={{ mb: 2 }}
+          // Only transient errors can succeed on a retry (a request limit would just use up more quota)
+          action={error.transient && (
+            <Button color="inherit" size="small" onClick={retrySearch}>
+              Retry
+            </Button>
+          )}
+        >
+          {error.message}
         </Alert>
       )}
+      {/* Titles opened recently, while no search is active */}
+      {!query.trim() && history.recentlyViewed.length > 0 && (
+        <RecentlyViewed
+          entries={history.recentlyViewed}
+          onSelect={handleSelectMovie}
+          onRemove={removeRecentlyViewed}
+          onClear={clearRecentlyViewed}
+        />
+      )}
       {/* MovieList component */}
       <Grid container spacing={3}>
         <Grid item xs={4}>
           <MovieList
             movies={movies}
             onSelectMovie={handleSelectMovie}
+            selectedMovieId={selectedId ?? ''}
             totalResults={totalResults}
+            totalIsLowerBound={totalIsLowerBound}
             onLoadMore={loadMore}
-            hasMore={hasMore}
+            compareIds={compareMovies.map(movie => movie.imdbID)}
+            onToggleCompare={toggleCompare}
+            canAddToCompare={compareMovies.length < MAX_COMPARE_TITLES}
+            matchesFilters={matchesFilters}
+            scoreOf={scoreOf}
+            focusRequest={listFocusRequest}
+            hasMore={hasMore && !enrichment.loadingPaused}
             loading={loading}
           />
           {/* MovieDetails component */}
@@ -255,8 +1066,15 @@ const App: React.FC = () => {
         <Grid item xs={8}>
           <MovieDetails
             movie={selectedMovie}
+            error={detailsError}
+            onRetry={retrySelectMovie}
             addToWatchlist={addToWatchlist}
             isInWatchlist={isInWatchlist}
+            lists={lists}
+            onToggleList={toggleInList}
+            onCreateList={createList}
+            focusOnOpen={focusDetails}
+            onBack={backToResults}
           />
         </Grid>
       </Grid>
@@ -264,6 +1082,7 @@ const App: React.FC = () => {
       <Dialog
         open={watchlistOpen}
         onClose={handleCloseWatchlist}
+        aria-label="My lists"
         maxWidth="sm"
         fullWidth
         sx={{
@@ -274,6 +1093,7 @@ const App: React.FC = () => {
         }}
       >
         <IconButton
+          aria-label="Close watchlist"
           onClick={handleCloseWatchlist}
           sx={{
             position: 'absolute',
@@ -284,8 +1104,69 @@ const App: React.FC = () => {
         >
           <CloseIcon />
         </IconButton>
-        <WatchList watchlist={watchlist} />
+        <WatchList
+          lists={lists}
+          activeListId={activeListId}
+          onSelectList={setActiveListId}
+          onCreateList={createList}
+          onRenameList={renameList}
+          onDeleteList={deleteList}
+          onRemove={removeFromList}
+          onReorder={reorderList}
+          onToggleWatched={toggleWatched}
+          onNotesChange={updateEntryNotes}
+          onImport={importToList}
+          compareIds={compareMovies.map(movie => movie.imdbID)}
+          onToggleCompare={toggleCompare}
+          canAddToCompare={compareMovies.length < MAX_COMPARE_TITLES}
+        />
+      </Dialog>
+      {/* Compare Dialog */}
+      <Dialog
+        open={compareOpen && compareMovies.length >= MIN_COMPARE_TITLES}
+        onClose={() => setCompareOpen(false)}
+        aria-label="Compare titles"
+        maxWidth="lg"
+        fullWidth
+        sx={{
+          '& .MuiDialog-paper': {
+            position: 'relative',
+            p: 2
+          }
+        }}
+      >
+        <IconButton
+          aria-label="Close comparison"
+          onClick={() => setCompareOpen(false)}
+          sx={{
+            position: 'absolute',
+            right: 8,
+            top: 8,
+            color: 'grey.500'
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+        {compareError ? (
+          <Alert
+            severity="error"
+            sx={{ mt: 5 }}
+            action={compareError.transient && (
+              <Button color="inherit" size="small" onClick={() => setCompareAttempt(attempt => attempt + 1)}>
+                Retry
+              </Button>
+            )}
+          >
+            {compareError.message}
+          </Alert>
+        ) : comparedDetails.length === compareMovies.length ? (
+          <CompareView movies={comparedDetails} onRemove={removeFromCompare} />
+        ) : (
+          <CircularProgress sx={{ display: 'block', mx: 'auto', my: 4 }} />
+        )}
       </Dialog>
+      {/* Keyboard shortcut help */}
+      <ShortcutHelp open={shortcutsOpen} onClose={() => setShortcutsOpen(false)} />
     </Container>
   );
 };
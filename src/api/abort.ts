@@ -0,0 +1,22 @@
+/**
+ * Abort Helpers
+ * Utilities for creating and recognising errors raised by cancelled requests.
+ */
+
+/**
+ * Creates the error used to reject requests that were cancelled by the caller
+ * @returns An error named 'AbortError', matching the one thrown by fetch
+ */
+export const createAbortError = (): Error => {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Checks whether an error was caused by a cancelled request
+ * @param error The error to check
+ * @returns Boolean indicating the request was aborted (by us or by axios)
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && (error.name === 'AbortError' || error.name === 'CanceledError');
@@ -0,0 +1,78 @@
+/**
+ * API Error Tests
+ * Covers classification of OMDb and HTTP failures and retrying with backoff.
+ */
+
+import { MovieApiError, fromOmdbError, toMovieApiError } from './apiErrors';
+import { withRetry } from './retry';
+
+describe('apiErrors', () => {
+  test('classifies OMDb error messages', () => {
+    expect(fromOmdbError('Movie not found!').kind).toBe('not-found');
+    expect(fromOmdbError('Incorrect IMDb ID.').kind).toBe('not-found');
+    expect(fromOmdbError('Too many results.').kind).toBe('too-many-results');
+    expect(fromOmdbError('Invalid API key!').kind).toBe('invalid-api-key');
+    expect(fromOmdbError('No API key provided.').kind).toBe('invalid-api-key');
+    expect(fromOmdbError('Request limit reached!').kind).toBe('request-limit');
+    expect(fromOmdbError('Something odd').kind).toBe('unknown');
+  });
+
+  test('classifies HTTP client failures', () => {
+    const httpError = (fields: object) => ({ isAxiosError: true, message: 'failed', ...fields });
+
+    expect(toMovieApiError(httpError({ code: 'ECONNABORTED' })).kind).toBe('timeout');
+    expect(toMovieApiError(httpError({ code: 'ERR_NETWORK' })).kind).toBe('network');
+    expect(toMovieApiError(httpError({ response: { status: 503 } })).kind).toBe('network');
+    expect(toMovieApiError(httpError({
+      response: { status: 401, data: { Response: 'False', Error: 'Invalid API key!' } }
+    })).kind).toBe('invalid-api-key');
+    expect(toMovieApiError(new Error('boom'))).toBeInstanceOf(MovieApiError);
+  });
+});
+
+/**
+ * Advances fake timers, then lets the pending promise callbacks run
+ */
+const advanceTimers = async (ms: number) => {
+  jest.advanceTimersByTime(ms);
+  for (let i = 0; i < 10; i += 1) {
+    await Promise.resolve();
+  }
+};
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('retries transient failures with exponential backoff', async () => {
+    const request = jest.fn()
+      .mockRejectedValueOnce({ isAxiosError: true, code: 'ERR_NETWORK', message: 'Network Error' })
+      .mockRejectedValueOnce({ isAxiosError: true, code: 'ECONNABORTED', message: 'timeout' })
+      .mockResolvedValueOnce('ok');
+
+    const result = withRetry(request, { retries: 2, baseDelayMs: 100 });
+    await advanceTimers(0);
+
+    // First retry after 100ms, second after a further 200ms
+    await advanceTimers(100);
+    expect(request).toHaveBeenCalledTimes(2);
+    await advanceTimers(199);
+    expect(request).toHaveBeenCalledTimes(2);
+    await advanceTimers(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not retry permanent failures', async () => {
+    const request = jest.fn().mockRejectedValue(new MovieApiError('request-limit'));
+
+    await expect(withRetry(request)).rejects.toMatchObject({ kind: 'request-limit' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * API Errors
+ * A typed error model for failures returned by OMDb or raised while reaching it.
+ */
+
+/**
+ * The kinds of failure the app distinguishes between.
+ */
+export type MovieApiErrorKind =
+  | 'not-found'          // No titles matched the request
+  | 'too-many-results'   // The query was too broad for OMDb to answer
+  | 'invalid-api-key'    // The API key is missing or rejected
+  | 'request-limit'      // The daily request quota has been used up
+  | 'network'            // OMDb could not be reached
+  | 'timeout'            // OMDb took too long to respond
+  | 'unknown';           // Anything else
+
+// User-facing message shown for each kind of error
+const DEFAULT_MESSAGES: Record<MovieApiErrorKind, string> = {
+  'not-found': 'No results found. Check the spelling or try a different title.',
+  'too-many-results': 'Too many results. Try a longer or more specific search.',
+  'invalid-api-key': 'The OMDb API key is missing or invalid. Check REACT_APP_OMDB_API_KEY in your .env file.',
+  'request-limit': 'The OMDb request limit has been reached. Please try again later.',
+  'network': 'Unable to reach OMDb. Check your internet connection and try again.',
+  'timeout': 'OMDb took too long to respond. Please try again.',
+  'unknown': 'Something went wrong while contacting OMDb.'
+};
+
+// Kinds of error that may succeed if the request is simply repeated
+const TRANSIENT_KINDS: MovieApiErrorKind[] = ['network', 'timeout'];
+
+/**
+ * Error raised by the movie API, discriminated by its `kind`.
+ */
+export class MovieApiError extends Error {
+  readonly kind: MovieApiErrorKind;
+  readonly detail?: string; // The raw error text from OMDb or the HTTP client
+
+  constructor(kind: MovieApiErrorKind, message: string = DEFAULT_MESSAGES[kind], detail?: string) {
+    super(message);
+    this.name = 'MovieApiError';
+    this.kind = kind;
+    this.detail = detail;
+    // Restore the prototype chain, which is lost when extending Error in ES5 builds
+    Object.setPrototypeOf(this, MovieApiError.prototype);
+  }
+
+  /**
+   * Whether repeating the request may succeed without any change
+   */
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Maps an OMDb `Error` message to a typed error
+ * @param message The `Error` field of an OMDb response
+ * @returns The matching MovieApiError
+ */
+export const fromOmdbError = (message: string | undefined): MovieApiError => {
+  const text = (message || '').toLowerCase();
+
+  if (text.includes('not found') || text.includes('incorrect imdb id')) {
+    return new MovieApiError('not-found', undefined, message);
+  }
+  if (text.includes('too many results')) {
+    return new MovieApiError('too-many-results', undefined, message);
+  }
+  if (text.includes('api key')) {
+    return new MovieApiError('invalid-api-key', undefined, message);
+  }
+  if (text.includes('request limit')) {
+    return new MovieApiError('request-limit', undefined, message);
+  }
+  return new MovieApiError('unknown', message || undefined, message);
+};
+
+/**
+ * The parts of an axios error used for classification.
+ * Declared here so this module doesn't depend on axios itself.
+ */
+interface HttpClientError {
+  isAxiosError: true;
+  code?: string;
+  message: string;
+  response?: { status: number; data?: { Error?: string } };
+}
+
+/**
+ * Checks whether an error was raised by the HTTP client
+ * @param error The error to check
+ * @returns Boolean indicating the error came from axios
+ */
+const isHttpClientError = (error: unknown): error is HttpClientError =>
+  typeof error === 'object' && error !== null && (error as HttpClientError).isAxiosError === true;
+
+/**
+ * Converts any error thrown while calling OMDb into a MovieApiError
+ * @param error The thrown error
+ * @returns The matching MovieApiError
+ */
+export const toMovieApiError = (error: unknown): MovieApiError => {
+  if (error instanceof MovieApiError) {
+    return error;
+  }
+
+  if (isHttpClientError(error)) {
+    // OMDb reports problems such as an invalid key in the body of non-2xx responses
+    if (error.response?.data?.Error) {
+      return fromOmdbError(error.response.data.Error);
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new MovieApiError('timeout', undefined, error.message);
+    }
+    if (error.response?.status === 401) {
+      return new MovieApiError('invalid-api-key', undefined, error.message);
+    }
+    // No response at all, or a server-side failure, is worth retrying
+    if (!error.response || error.response.status >= 500) {
+      return new MovieApiError('network', undefined, error.message);
+    }
+  }
+
+  return new MovieApiError('unknown', undefined, error instanceof Error ? error.message : String(error));
+};
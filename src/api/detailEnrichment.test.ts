@@ -0,0 +1,89 @@
+/**
+ * Detail Enrichment Tests
+ * Covers the concurrency limit, skipping failed titles and stopping when aborted.
+ */
+
+import { enrichMovies } from './detailEnrichment';
+import { fetchMovieDetails } from './movieApi';
+import { MovieApiError } from './apiErrors';
+import { Movie, MovieDetail } from '../types';
+
+jest.mock('./movieApi', () => ({
+  fetchMovieDetails: jest.fn()
+}));
+
+const movies: Movie[] = ['tt1', 'tt2', 'tt3', 'tt4', 'tt5'].map((imdbID) => ({
+  imdbID,
+  title: imdbID,
+  year: 2000,
+  type: 'movie',
+  poster: null
+}));
+
+/**
+ * Creates a detail request that can be resolved or rejected from the test
+ */
+const deferred = () => {
+  let resolve: (details: MovieDetail) => void = () => {};
+  let reject: (error: Error) => void = () => {};
+  const promise = new Promise<MovieDetail>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const details = (imdbID: string) => ({ imdbID, title: imdbID } as MovieDetail);
+
+describe('detailEnrichment', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('keeps at most the given number of requests in flight and skips failures', async () => {
+    const requests: Record<string, ReturnType<typeof deferred>> = {};
+    (fetchMovieDetails as jest.Mock).mockImplementation((imdbID: string) => {
+      requests[imdbID] = deferred();
+      return requests[imdbID].promise;
+    });
+    const onDetails = jest.fn();
+    const onSettled = jest.fn();
+    const onError = jest.fn();
+
+    const pass = enrichMovies(movies, { concurrency: 2, onDetails, onSettled, onError });
+    expect(Object.keys(requests)).toEqual(['tt1', 'tt2']);
+
+    requests.tt1.resolve(details('tt1'));
+    requests.tt2.reject(new MovieApiError('not-found', undefined, 'Incorrect IMDb ID.'));
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(Object.keys(requests)).toEqual(['tt1', 'tt2', 'tt3', 'tt4']);
+
+    requests.tt3.resolve(details('tt3'));
+    requests.tt4.resolve(details('tt4'));
+    await Promise.resolve();
+    await Promise.resolve();
+    requests.tt5.resolve(details('tt5'));
+    await pass;
+
+    expect(onDetails.mock.calls.map(([detail]) => detail.imdbID)).toEqual(['tt1', 'tt3', 'tt4', 'tt5']);
+    expect(onSettled).toHaveBeenCalledTimes(5);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith('tt2', expect.objectContaining({ kind: 'not-found' }));
+  });
+
+  test('stops starting requests once aborted', async () => {
+    (fetchMovieDetails as jest.Mock).mockImplementation((imdbID: string) => Promise.resolve(details(imdbID)));
+    const controller = new AbortController();
+    const onDetails = jest.fn((detail: MovieDetail) => {
+      if (detail.imdbID === 'tt1') {
+        controller.abort();
+      }
+    });
+
+    await enrichMovies(movies, { concurrency: 1, signal: controller.signal, onDetails });
+
+    expect(fetchMovieDetails).toHaveBeenCalledTimes(1);
+    expect(onDetails).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Detail Enrichment
+ * Fetches the full details of loaded search results, a few at a time, so they
+ * can be filtered on fields OMDb only returns with the details (genre, rating,
+ * runtime and content rating).
+ */
+import { fetchMovieDetails } from './movieApi';
+import { isAbortError } from './abort';
+import { MovieApiError, toMovieApiError } from './apiErrors';
+import { Movie, MovieDetail } from '../types';
+
+// Number of detail requests in flight at once
+export const DEFAULT_ENRICHMENT_CONCURRENCY = 3;
+
+// Number of detail requests a search may make before the user asks for more
+export const DEFAULT_ENRICHMENT_BUDGET = 30;
+
+/**
+ * Options for an enrichment pass.
+ */
+export interface EnrichmentOptions {
+  concurrency?: number;                    // Number of requests in flight at once
+  signal?: AbortSignal;                    // Stops starting new requests and cancels those in flight
+  onDetails: (details: MovieDetail) => void; // Called as each title's details arrive
+  onSettled?: (imdbID: string) => void;    // Called once a title's request has finished, whether or not it succeeded
+  onError?: (imdbID: string, error: MovieApiError) => void; // Called when a title's details can't be loaded
+}
+
+/**
+ * Fetches the details of each movie with limited concurrency. Failed requests
+ * are reported through onError and skipped rather than failing the whole pass.
+ * @param movies The movies to fetch details for
+ * @param options How to run the pass and where to report results
+ * @returns A promise resolving once every request has settled or the pass was aborted
+ */
+export const enrichMovies = async (
+  movies: Movie[],
+  { concurrency = DEFAULT_ENRICHMENT_CONCURRENCY, signal, onDetails, onSettled, onError }: EnrichmentOptions
+): Promise<void> => {
+  const queue = [...movies];
+
+  /**
+   * Takes movies off the queue one at a time until it is empty or the pass is aborted
+   */
+  const worker = async (): Promise<void> => {
+    let movie = queue.shift();
+    while (movie && !signal?.aborted) {
+      try {
+        const details = await fetchMovieDetails(movie.imdbID, signal);
+        if (signal?.aborted) {
+          return;
+        }
+        onDetails(details);
+      } catch (error) {
+        if (signal?.aborted || isAbortError(error)) {
+          return;
+        }
+        // A title whose details can't be loaded is left out of detail filters
+        onError?.(movie.imdbID, toMovieApiError(error));
+      }
+      onSettled?.(movie.imdbID);
+      movie = queue.shift();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, movies.length) }, worker));
+};
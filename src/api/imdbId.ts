@@ -0,0 +1,26 @@
+/**
+ * IMDb ID Helpers
+ * Recognises IMDb IDs and title URLs pasted into the search box.
+ */
+
+// A bare IMDb title ID such as tt0111161
+const IMDB_ID_PATTERN = /^tt\d{7,}$/i;
+
+// The title segment of an IMDb URL such as https://www.imdb.com/title/tt0111161/
+const IMDB_URL_PATTERN = /imdb\.com\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?title\/(tt\d{7,})/i;
+
+/**
+ * Extracts an IMDb title ID from user input
+ * @param input A bare IMDb ID or an IMDb title URL
+ * @returns The IMDb ID in lower case, or null if the input isn't one
+ */
+export const extractImdbId = (input: string): string | null => {
+  const text = input.trim();
+
+  if (IMDB_ID_PATTERN.test(text)) {
+    return text.toLowerCase();
+  }
+
+  const match = text.match(IMDB_URL_PATTERN);
+  return match ? match[1].toLowerCase() : null;
+};
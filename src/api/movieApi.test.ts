@@ -0,0 +1,88 @@
+/**
+ * Movie API Tests
+ * Covers sending requests to the configured metadata provider through the cache.
+ */
+
+import { configureMovieCache, configureMovieProvider, fetchMovies, fetchSuggestions } from './movieApi';
+import { MetadataProvider } from '../providers/metadataProvider';
+import { CacheEntry, PersistentCacheStore } from './responseCache';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { get: jest.fn() }
+}));
+
+/**
+ * Builds a provider answering every search with one title named after the provider
+ */
+const createFixtureProvider = (id: string): MetadataProvider & { search: jest.Mock } => ({
+  id,
+  search: jest.fn(async () => ({
+    totalResults: 1,
+    movies: [{ title: `${id} title`, year: 2000, imdbID: 'tt1', type: 'movie', poster: null }]
+  })),
+  getDetails: jest.fn(),
+  lookupTitle: jest.fn(),
+  getSeason: jest.fn(),
+  getEpisode: jest.fn()
+});
+
+describe('movieApi', () => {
+  test('sends requests to the configured provider and keeps their cache entries apart', async () => {
+    configureMovieCache({ persistent: null });
+    const first = createFixtureProvider('first');
+    const second = createFixtureProvider('second');
+
+    configureMovieProvider(first);
+    await fetchMovies('matrix', 1, 'movie');
+    const cached = await fetchMovies('Matrix ', 1, 'movie');
+    expect(first.search).toHaveBeenCalledTimes(1);
+    expect(first.search).toHaveBeenCalledWith({ query: 'matrix', page: 1, type: 'movie', year: undefined }, expect.anything());
+    expect(cached.movies[0].title).toBe('first title');
+
+    configureMovieProvider(second);
+    const page = await fetchMovies('matrix', 1, 'movie');
+    expect(second.search).toHaveBeenCalledTimes(1);
+    expect(page.movies[0].title).toBe('second title');
+  });
+
+  test('shares the cached first page between suggestions and the search', async () => {
+    configureMovieCache({ persistent: null });
+    const provider = createFixtureProvider('suggestions');
+    configureMovieProvider(provider);
+
+    const suggestions = await fetchSuggestions('Heat', 'movie');
+    const page = await fetchMovies('heat', 1, 'movie');
+    expect(suggestions.map((movie) => movie.title)).toEqual(['suggestions title']);
+    expect(page.movies).toEqual(suggestions);
+    expect(provider.search).toHaveBeenCalledTimes(1);
+  });
+
+  test('never reads back responses persisted in an earlier shape', async () => {
+    // A response saved before the domain types had their own field names
+    const entries = new Map<string, CacheEntry<unknown>>([
+      ['persisted:search:matrix|1|movie|', {
+        value: { totalResults: 1, movies: [{ Title: 'Old title', Year: '2000', imdbID: 'tt1', Type: 'movie', Poster: 'N/A' }] },
+        expiresAt: Date.now() + 60000
+      }]
+    ]);
+    const persistent: PersistentCacheStore = {
+      get: async <T>(key: string) => entries.get(key) as CacheEntry<T> | undefined,
+      set: async (key, entry) => {
+        entries.set(key, entry);
+      },
+      delete: async (key) => {
+        entries.delete(key);
+      },
+      clear: async () => entries.clear(),
+      prune: async () => {}
+    };
+    configureMovieCache({ persistent });
+    const provider = createFixtureProvider('persisted');
+    configureMovieProvider(provider);
+
+    const page = await fetchMovies('matrix', 1, 'movie');
+    expect(provider.search).toHaveBeenCalledTimes(1);
+    expect(page.movies[0].title).toBe('persisted title');
+  });
+});
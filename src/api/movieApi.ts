@@ -1,63 +1,177 @@
-import axios from 'axios'; 
-// Importing axios for making HTTP requests.
-
-import { SearchResponse, MovieDetail } from '../types'; 
+import { Movie, SearchPage, MovieDetail, Season, Episode, TitleType } from '../types'; 
 // Importing TypeScript types to ensure type safety for the API responses.
 
-const API_KEY = process.env.REACT_APP_OMDB_API_KEY; 
-// Fetching the OMDB API key from environment variables for secure usage.
+import { createResponseCache, createIndexedDbStore, ResponseCacheOptions } from './responseCache';
+// Importing the response cache used to avoid repeating identical requests.
+
+import { MovieApiError } from './apiErrors';
+// Importing the typed error model shared by every provider.
+
+import { MetadataProvider } from '../providers/metadataProvider';
+import { createOmdbProvider } from '../providers/omdbProvider';
+// Importing the provider interface and the OMDb adapter used by default.
+
+let provider: MetadataProvider = createOmdbProvider();
+
+/**
+ * Replaces the metadata provider the requests below are sent to.
+ * Cached responses are kept apart per provider, so no cache clearing is needed.
+ * @param nextProvider The provider to use from now on.
+ */
+export const configureMovieProvider = (nextProvider: MetadataProvider): void => {
+  provider = nextProvider;
+};
+
+const DEFAULT_CACHE_TTL = 10 * 60 * 1000;
+// Cached responses are reused for 10 minutes unless REACT_APP_CACHE_TTL_MS overrides it.
+
+const defaultCacheOptions: ResponseCacheOptions = {
+  ttl: Number(process.env.REACT_APP_CACHE_TTL_MS) || DEFAULT_CACHE_TTL,
+  persistent: process.env.REACT_APP_PERSISTENT_CACHE === 'false' ? null : createIndexedDbStore(),
+  // Responses seen before are served past their TTL when the provider can't be reached (e.g. offline)
+  staleIfError: (error) => error instanceof MovieApiError && error.transient
+};
 
-const BASE_URL = 'https://www.omdbapi.com/'; 
-// Defining the base URL for the OMDB API.
+let movieCache = createResponseCache(defaultCacheOptions);
+
+const CACHED_SHAPE_VERSION = 2;
+// Version of the shape of cached responses (the types in ../types). Bump it whenever that
+// shape changes, so responses persisted by an earlier version are never read back.
+
+/**
+ * Builds the cache key of a request, kept apart per provider and per cached shape.
+ * @param kind The kind of request, e.g. "search" or "details".
+ * @param params The request parameters, as they identify the response.
+ * @returns The cache key.
+ */
+const cacheKeyFor = (kind: string, params: string): string =>
+  `v${CACHED_SHAPE_VERSION}:${provider.id}:${kind}:${params}`;
+
+/**
+ * Replaces the response cache, e.g. to change the TTL or disable the persistent tier.
+ * @param options Options overriding the defaults.
+ */
+export const configureMovieCache = (options: Partial<ResponseCacheOptions> = {}): void => {
+  movieCache = createResponseCache({ ...defaultCacheOptions, ...options });
+};
+
+/**
+ * Clears all cached responses from memory and the persistent tier.
+ * @returns A promise that resolves once the cache is empty.
+ */
+export const clearMovieCache = (): Promise<void> => movieCache.clear();
 
 /**
  * Fetches a list of movies based on the search query, page number, and optional type filter.
  * @param query The search query for the movies.
  * @param page The page number of the search results (defaults to 1).
  * @param type Optional type filter for the movie (can be 'movie', 'series', 'episode', or '').
- * @returns A promise that resolves to the search response containing movie data.
+ * @param signal Optional AbortSignal used to cancel the request when it is superseded.
+ * @param year Optional release year, to filter on the server.
+ * @returns A promise that resolves to the page of matching movies.
  */
 export const fetchMovies = async (
   query: string, 
   page: number = 1, 
-  type?: 'movie' | 'series' | 'episode' | ''
-): Promise<SearchResponse> => {
-  // Construct the API endpoint URL with query parameters.
-  let url = `${BASE_URL}?apikey=${API_KEY}&s=${encodeURIComponent(query)}&page=${page}`;
-
-  // Append the type filter if provided.
-  if (type) {
-    url += `&type=${type}`;
-  }
-
-  // Make the API request and type the response using SearchResponse.
-  const response = await axios.get<SearchResponse>(url);
-
-  // Check if the response is successful and return the data.
-  if (response.data.Response === 'True') {
-    return response.data;
-  }
+  type?: TitleType,
+  signal?: AbortSignal,
+  year?: number
+): Promise<SearchPage> => {
+  // Identical searches share a cache entry regardless of case or surrounding whitespace.
+  const cacheKey = cacheKeyFor('search', `${query.trim().toLowerCase()}|${page}|${type || ''}|${year ?? ''}`);
+  return movieCache.get(
+    cacheKey,
+    (requestSignal) => provider.search({ query, page, type, year }, requestSignal),
+    signal
+  );
+};
 
-  // Throw an error if the response indicates failure, with a meaningful message.
-  throw new Error(response.data.Error || 'No results found');
+/**
+ * Fetches the titles suggested while the user types a search.
+ * Only the first page is requested, and it shares its cache entry with the first page
+ * of the matching search, so a search run after the suggestions is served from the cache.
+ * @param query The text typed so far.
+ * @param type Optional type filter for the titles (can be 'movie', 'series', 'episode', or '').
+ * @param signal Optional AbortSignal used to cancel the request when the user types on.
+ * @returns A promise that resolves to the best matching titles.
+ */
+export const fetchSuggestions = async (
+  query: string,
+  type?: TitleType,
+  signal?: AbortSignal
+): Promise<Movie[]> => {
+  const page = await fetchMovies(query, 1, type, signal);
+  return page.movies;
 };
 
 /**
  * Fetches detailed information about a specific movie by IMDb ID.
  * @param imdbID The IMDb ID of the movie to fetch details for.
+ * @param signal Optional AbortSignal used to cancel the request when it is superseded.
  * @returns A promise that resolves to the movie details.
  */
-export const fetchMovieDetails = async (imdbID: string): Promise<MovieDetail> => {
-  // Construct the API endpoint URL for fetching movie details.
-  const response = await axios.get<MovieDetail>(
-    `${BASE_URL}?apikey=${API_KEY}&i=${imdbID}&plot=full`
+export const fetchMovieDetails = async (imdbID: string, signal?: AbortSignal): Promise<MovieDetail> => {
+  return movieCache.get(
+    cacheKeyFor('details', imdbID),
+    (requestSignal) => provider.getDetails(imdbID, requestSignal),
+    signal
   );
+};
 
-  // Check if the response is successful and return the data.
-  if (response.data.Response !== 'False') {
-    return response.data;
-  }
+/**
+ * Fetches the details of the title exactly matching the given name.
+ * @param title The exact title to look up.
+ * @param year Optional release year, to pick between titles with the same name.
+ * @param type Optional type filter for the title (can be 'movie', 'series', 'episode', or '').
+ * @param signal Optional AbortSignal used to cancel the request when it is superseded.
+ * @returns A promise that resolves to the details of the matching title.
+ */
+export const fetchMovieByTitle = async (
+  title: string,
+  year?: number,
+  type?: TitleType,
+  signal?: AbortSignal
+): Promise<MovieDetail> => {
+  const cacheKey = cacheKeyFor('title', `${title.trim().toLowerCase()}|${year ?? ''}|${type || ''}`);
+  return movieCache.get(
+    cacheKey,
+    (requestSignal) => provider.lookupTitle(title, year, type, requestSignal),
+    signal
+  );
+};
+
+/**
+ * Fetches the episode list of one season of a series.
+ * @param seriesId The IMDb ID of the series.
+ * @param season The season number.
+ * @param signal Optional AbortSignal used to cancel the request when it is superseded.
+ * @returns A promise that resolves to the season and its episodes.
+ */
+export const fetchSeason = async (seriesId: string, season: number, signal?: AbortSignal): Promise<Season> => {
+  return movieCache.get(
+    cacheKeyFor('season', `${seriesId}|${season}`),
+    (requestSignal) => provider.getSeason(seriesId, season, requestSignal),
+    signal
+  );
+};
 
-  // Throw an error if the movie details cannot be fetched.
-  throw new Error('Could not fetch movie details');
+/**
+ * Fetches the details of a single episode of a series.
+ * @param seriesId The IMDb ID of the series.
+ * @param season The season number.
+ * @param episode The episode number within the season.
+ * @param signal Optional AbortSignal used to cancel the request when it is superseded.
+ * @returns A promise that resolves to the episode details.
+ */
+export const fetchEpisode = async (
+  seriesId: string,
+  season: number,
+  episode: number,
+  signal?: AbortSignal
+): Promise<Episode> => {
+  return movieCache.get(
+    cacheKeyFor('episode', `${seriesId}|${season}|${episode}`),
+    (requestSignal) => provider.getEpisode(seriesId, season, episode, requestSignal),
+    signal
+  );
 };
@@ -0,0 +1,186 @@
+/**
+ * Response Cache Tests
+ * Covers TTL expiry, request de-duplication and the persistent tier.
+ */
+
+import { CacheEntry, PersistentCacheStore, createIndexedDbStore, createResponseCache } from './responseCache';
+
+/**
+ * In-memory stand-in for the IndexedDB persistent tier
+ */
+const createFakePersistentStore = (): PersistentCacheStore & { entries: Map<string, CacheEntry<unknown>> } => {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  return {
+    entries,
+    get: async <T>(key: string) => entries.get(key) as CacheEntry<T> | undefined,
+    set: async (key, entry) => {
+      entries.set(key, entry);
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    clear: async () => {
+      entries.clear();
+    },
+    prune: async (before) => {
+      entries.forEach((entry, key) => {
+        if (entry.expiresAt < before) {
+          entries.delete(key);
+        }
+      });
+    }
+  };
+};
+
+describe('responseCache', () => {
+  test('reuses cached values until the TTL expires', async () => {
+    let time = 0;
+    const cache = createResponseCache({ ttl: 1000, now: () => time });
+    const load = jest.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+    expect(await cache.get('key', load)).toBe('first');
+    time = 999;
+    expect(await cache.get('key', load)).toBe('first');
+    time = 1000;
+    expect(await cache.get('key', load)).toBe('second');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test('merges identical in-flight requests', async () => {
+    const cache = createResponseCache({ ttl: 1000 });
+    let finish: (value: string) => void = () => {};
+    const response = new Promise<string>((resolve) => { finish = resolve; });
+    const load = jest.fn(() => response);
+
+    const first = cache.get('key', load);
+    const second = cache.get('key', load);
+    finish('value');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['value', 'value']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not cache failed requests', async () => {
+    const cache = createResponseCache({ ttl: 1000 });
+    const load = jest.fn()
+      .mockRejectedValueOnce(new Error('Request failed'))
+      .mockResolvedValueOnce('value');
+
+    await expect(cache.get('key', load)).rejects.toThrow('Request failed');
+    await expect(cache.get('key', load)).resolves.toBe('value');
+  });
+
+  test('serves fresh entries from the persistent tier', async () => {
+    const persistent = createFakePersistentStore();
+    const load = jest.fn().mockResolvedValue('value');
+
+    // A previous session writes through to the persistent tier
+    await createResponseCache({ ttl: 1000, persistent }).get('key', load);
+    expect(persistent.entries.has('key')).toBe(true);
+
+    // A new session reads from it instead of calling the loader
+    await expect(createResponseCache({ ttl: 1000, persistent }).get('key', load)).resolves.toBe('value');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  test('serves expired entries when a refresh fails with a matching error', async () => {
+    let time = 0;
+    const persistent = createFakePersistentStore();
+    const offline = new Error('offline');
+    const staleIfError = (error: unknown) => error === offline;
+    const load = jest.fn().mockResolvedValueOnce('value').mockRejectedValue(offline);
+
+    await createResponseCache({ ttl: 1000, persistent, now: () => time, staleIfError }).get('key', load);
+    time = 5000;
+
+    // From memory and, in a new session, from the persistent tier
+    const cache = createResponseCache({ ttl: 1000, persistent, now: () => time, staleIfError });
+    await expect(cache.get('key', load)).resolves.toBe('value');
+    await expect(cache.get('key', load)).resolves.toBe('value');
+    expect(load).toHaveBeenCalledTimes(3);
+
+    // Other errors still reach the caller
+    load.mockRejectedValueOnce(new Error('Movie not found!'));
+    await expect(cache.get('key', load)).rejects.toThrow('Movie not found!');
+  });
+
+  test('drops expired entries once they are past the stale window', async () => {
+    let time = 0;
+    const persistent = createFakePersistentStore();
+    const offline = new Error('offline');
+    const staleIfError = (error: unknown) => error === offline;
+    const options = { ttl: 1000, maxStale: 10000, persistent, now: () => time, staleIfError };
+    const load = jest.fn().mockResolvedValueOnce('value').mockRejectedValue(offline);
+
+    await createResponseCache(options).get('key', load);
+    persistent.entries.set('unused', { value: 'old', expiresAt: 500 });
+    time = 20000;
+
+    // A new session prunes entries nobody asks for, and no longer serves the stale one
+    const cache = createResponseCache(options);
+    await expect(cache.get('key', load)).rejects.toBe(offline);
+    expect(persistent.entries.size).toBe(0);
+  });
+
+  test('only cancels a shared request once every caller has aborted', async () => {
+    const cache = createResponseCache({ ttl: 1000 });
+    let requestSignal: AbortSignal | undefined;
+    const load = jest.fn((signal: AbortSignal) => {
+      requestSignal = signal;
+      return new Promise<string>(() => {});
+    });
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const firstRequest = cache.get('key', load, first.signal);
+    const secondRequest = cache.get('key', load, second.signal);
+    await waitForLoad(load);
+
+    first.abort();
+    await expect(firstRequest).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requestSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondRequest).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  test('opens IndexedDB again after a failed attempt', async () => {
+    /**
+     * Builds an IndexedDB request that succeeds or fails on the next tick
+     */
+    const settleLater = (result?: unknown, error?: Error) => {
+      const request: Record<string, unknown> = { result, error };
+      setTimeout(() => {
+        const handler = (error ? request.onerror : request.onsuccess) as (() => void) | undefined;
+        handler?.();
+      });
+      return request;
+    };
+    const database = {
+      transaction: () => ({ objectStore: () => ({ get: () => settleLater(undefined) }) })
+    };
+    const open = jest.fn()
+      .mockImplementationOnce(() => settleLater(undefined, new Error('blocked')))
+      .mockImplementationOnce(() => settleLater(database));
+    Object.defineProperty(window, 'indexedDB', { configurable: true, value: { open } });
+
+    try {
+      const store = createIndexedDbStore()!;
+      await expect(store.get('key')).rejects.toThrow('blocked');
+      await expect(store.get('key')).resolves.toBeUndefined();
+      expect(open).toHaveBeenCalledTimes(2);
+    } finally {
+      Reflect.deleteProperty(window, 'indexedDB');
+    }
+  });
+});
+
+/**
+ * Waits until the loader has been called (the cache checks its persistent tier first)
+ */
+const waitForLoad = async (load: jest.Mock) => {
+  while (load.mock.calls.length === 0) {
+    await Promise.resolve();
+  }
+};
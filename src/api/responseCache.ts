@@ -0,0 +1,347 @@
+/**
+ * Response Cache
+ * Caches API responses in memory with a time-to-live, merges identical in-flight
+ * requests and optionally keeps a persistent copy in IndexedDB between sessions.
+ */
+import { createAbortError } from './abort';
+
+// Expired entries are kept as a fallback for failed refreshes for a week at most
+export const DEFAULT_MAX_STALE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * The structure of a cached value and its expiry time.
+ */
+export interface CacheEntry<T> {
+  value: T;          // The cached response
+  expiresAt: number; // Timestamp (ms) after which the entry is stale
+}
+
+/**
+ * Asynchronous store used as the persistent tier of the cache.
+ */
+export interface PersistentCacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  prune(before: number): Promise<void>;   // Deletes the entries that expired before the given timestamp (ms)
+}
+
+/**
+ * Options used to create a response cache.
+ */
+export interface ResponseCacheOptions {
+  ttl: number;                                // Time-to-live for entries in milliseconds
+  maxEntries?: number;                        // Maximum number of entries kept in memory
+  persistent?: PersistentCacheStore | null;   // Optional persistent tier
+  now?: () => number;                         // Clock, overridable in tests
+  staleIfError?: (error: unknown) => boolean; // Serves an expired entry when a refresh fails with a matching error, e.g. offline
+  maxStale?: number;                          // How long (ms) past its expiry an entry may still be served by staleIfError
+}
+
+/**
+ * A response cache keyed by request.
+ * Callers may pass an AbortSignal; the shared request is only cancelled once
+ * every caller waiting on it has aborted.
+ */
+export interface ResponseCache {
+  get<T>(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T>;
+  invalidate(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * A request shared by every caller asking for the same key.
+ */
+interface PendingRequest {
+  promise: Promise<unknown>;    // The shared request
+  controller: AbortController;  // Cancels the shared request
+  subscribers: number;          // Number of callers still waiting on it
+}
+
+/**
+ * Creates a response cache
+ * @param options Cache configuration (TTL, memory size and persistent tier)
+ * @returns The response cache
+ */
+export const createResponseCache = ({
+  ttl,
+  maxEntries = 200,
+  persistent = null,
+  now = Date.now,
+  staleIfError,
+  maxStale = DEFAULT_MAX_STALE
+}: ResponseCacheOptions): ResponseCache => {
+  const memory = new Map<string, CacheEntry<unknown>>();
+  const inFlight = new Map<string, PendingRequest>();
+
+  // Whether entries past the stale window have been pruned from the persistent tier
+  let pruned = false;
+
+  /**
+   * Checks whether an entry can no longer be served, even as a fallback
+   * @param entry The cached entry
+   * @returns Boolean indicating the entry should be deleted
+   */
+  const isDiscardable = (entry: CacheEntry<unknown>): boolean =>
+    entry.expiresAt + (staleIfError ? maxStale : 0) <= now();
+
+  /**
+   * Stores an entry in memory, evicting the oldest entries when full
+   * @param key The cache key
+   * @param entry The entry to store
+   */
+  const remember = (key: string, entry: CacheEntry<unknown>) => {
+    // Re-inserting moves the key to the end of the Map's insertion order
+    memory.delete(key);
+    memory.set(key, entry);
+
+    while (memory.size > maxEntries) {
+      const oldestKey = memory.keys().next().value as string;
+      memory.delete(oldestKey);
+    }
+  };
+
+  /**
+   * Reads an entry from the persistent tier, ignoring storage failures. Stale
+   * entries are kept as a fallback within the stale window when `staleIfError`
+   * is set, and deleted otherwise. The first read also prunes every entry past
+   * that window, so responses that are never requested again don't pile up.
+   * @param key The cache key
+   * @returns The entry, or undefined if missing or unreadable
+   */
+  const readPersistent = async <T>(key: string): Promise<CacheEntry<T> | undefined> => {
+    if (!persistent) {
+      return undefined;
+    }
+    if (!pruned) {
+      pruned = true;
+      persistent.prune(now() - (staleIfError ? maxStale : 0)).catch(() => undefined);
+    }
+    try {
+      const entry = await persistent.get<T>(key);
+      if (entry && isDiscardable(entry)) {
+        persistent.delete(key).catch(() => undefined);
+        return undefined;
+      }
+      return entry;
+    } catch {
+      // Fall through to the network when the persistent tier is unavailable
+    }
+    return undefined;
+  };
+
+  /**
+   * Loads a value through the persistent tier and the loader, then caches it
+   * @param key The cache key
+   * @param load Function that fetches the value when it isn't cached
+   * @param stale An expired entry from memory, served if the refresh fails
+   * @returns The loaded value
+   */
+  const resolve = async <T>(key: string, load: () => Promise<T>, stale?: CacheEntry<T>): Promise<T> => {
+    const stored = await readPersistent<T>(key);
+    if (stored && stored.expiresAt > now()) {
+      remember(key, stored);
+      return stored.value;
+    }
+
+    // Only successful responses are cached, errors propagate to the caller
+    // unless an expired copy may stand in for the response
+    let value: T;
+    try {
+      value = await load();
+    } catch (error) {
+      const fallback = stale ?? stored;
+      if (fallback && staleIfError?.(error)) {
+        return fallback.value;
+      }
+      throw error;
+    }
+    const entry: CacheEntry<T> = { value, expiresAt: now() + ttl };
+    remember(key, entry);
+    persistent?.set(key, entry).catch(() => undefined);
+    return value;
+  };
+
+  /**
+   * Waits on a shared request on behalf of one caller
+   * @param key The cache key
+   * @param pending The shared request
+   * @param signal Optional signal that lets the caller stop waiting
+   * @returns A promise settling with the shared request, or rejecting when aborted
+   */
+  const subscribe = <T>(key: string, pending: PendingRequest, signal?: AbortSignal): Promise<T> => {
+    pending.subscribers += 1;
+    if (!signal) {
+      return pending.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolvePromise, rejectPromise) => {
+      const handleAbort = () => {
+        pending.subscribers -= 1;
+        // Cancel the underlying request once nobody is waiting for it
+        if (pending.subscribers === 0) {
+          pending.controller.abort();
+          if (inFlight.get(key) === pending) {
+            inFlight.delete(key);
+          }
+        }
+        rejectPromise(createAbortError());
+      };
+
+      signal.addEventListener('abort', handleAbort, { once: true });
+      pending.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', handleAbort);
+          resolvePromise(value as T);
+        },
+        (error) => {
+          signal.removeEventListener('abort', handleAbort);
+          rejectPromise(error);
+        }
+      );
+    });
+  };
+
+  return {
+    get: <T>(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+      if (signal?.aborted) {
+        return Promise.reject(createAbortError());
+      }
+
+      const cached = memory.get(key) as CacheEntry<T> | undefined;
+      if (cached && cached.expiresAt > now()) {
+        return Promise.resolve(cached.value);
+      }
+      if (cached && isDiscardable(cached)) {
+        memory.delete(key);
+      }
+      const stale = cached && !isDiscardable(cached) ? cached : undefined;
+
+      // Share the pending request with any identical callers
+      let pending = inFlight.get(key);
+      if (!pending) {
+        const controller = new AbortController();
+        const request: PendingRequest = {
+          promise: resolve(key, () => load(controller.signal), stale).finally(() => {
+            if (inFlight.get(key) === request) {
+              inFlight.delete(key);
+            }
+          }),
+          controller,
+          subscribers: 0
+        };
+        inFlight.set(key, request);
+        pending = request;
+      }
+
+      return subscribe<T>(key, pending, signal);
+    },
+
+    invalidate: async (key) => {
+      memory.delete(key);
+      await persistent?.delete(key).catch(() => undefined);
+    },
+
+    clear: async () => {
+      memory.clear();
+      await persistent?.clear().catch(() => undefined);
+    }
+  };
+};
+
+/**
+ * Wraps an IndexedDB request in a promise
+ * @param request The IndexedDB request
+ * @returns A promise resolving to the request result
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Creates a persistent cache store backed by IndexedDB
+ * @param dbName Name of the IndexedDB database
+ * @param storeName Name of the object store holding the responses
+ * @returns The store, or null when IndexedDB isn't available
+ */
+export const createIndexedDbStore = (
+  dbName: string = 'omdb-movie-search',
+  storeName: string = 'responses'
+): PersistentCacheStore | null => {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Opens the database on first use, creating the object store if needed.
+   * A failed attempt (e.g. blocked or over quota) is forgotten, so the next use tries again.
+   * @returns A promise resolving to the open database
+   */
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      const opening = promisifyRequest(request);
+      opening.catch(() => {
+        if (database === opening) {
+          database = null;
+        }
+      });
+      database = opening;
+    }
+    return database;
+  };
+
+  /**
+   * Runs a request against the object store in a new transaction
+   * @param mode The transaction mode
+   * @param run Function issuing the request
+   * @returns A promise resolving to the request result
+   */
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+    return promisifyRequest(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: <T>(key: string) =>
+      withStore<CacheEntry<T> | undefined>('readonly', (store) => store.get(key)),
+    set: async (key, entry) => {
+      await withStore('readwrite', (store) => store.put(entry, key));
+    },
+    delete: async (key) => {
+      await withStore('readwrite', (store) => store.delete(key));
+    },
+    clear: async () => {
+      await withStore('readwrite', (store) => store.clear());
+    },
+    prune: async (before) => {
+      const db = await open();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(storeName, 'readwrite');
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            if ((cursor.value as CacheEntry<unknown>).expiresAt < before) {
+              cursor.delete();
+            }
+            cursor.continue();
+          }
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    }
+  };
+};
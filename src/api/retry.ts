@@ -0,0 +1,69 @@
+/**
+ * Retry Helper
+ * Repeats transient API failures with exponential backoff.
+ */
+import { createAbortError, isAbortError } from './abort';
+import { toMovieApiError } from './apiErrors';
+
+/**
+ * Options controlling how a request is retried.
+ */
+export interface RetryOptions {
+  retries?: number;      // Number of retries after the first attempt
+  baseDelayMs?: number;  // Delay before the first retry, doubled for each one after
+  maxDelayMs?: number;   // Upper bound for any single delay
+  signal?: AbortSignal;  // Stops waiting and retrying when aborted
+}
+
+/**
+ * Waits for the given delay unless the signal aborts first
+ * @param ms The delay in milliseconds
+ * @param signal Optional AbortSignal that cancels the wait
+ * @returns A promise resolving after the delay
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+
+/**
+ * Runs a request, retrying transient failures (network errors and timeouts)
+ * with exponential backoff. Other failures are converted to a MovieApiError
+ * and thrown straight away.
+ * @param request Function performing the request
+ * @param options Retry configuration
+ * @returns A promise resolving to the request result
+ */
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  { retries = 2, baseDelayMs = 500, maxDelayMs = 4000, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await request();
+    } catch (error) {
+      // Cancelled requests are never retried or converted
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      const apiError = toMovieApiError(error);
+      if (!apiError.transient || attempt >= retries) {
+        throw apiError;
+      }
+
+      await wait(Math.min(baseDelayMs * 2 ** attempt, maxDelayMs), signal);
+    }
+  }
+};
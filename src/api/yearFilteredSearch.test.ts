@@ -0,0 +1,93 @@
+/**
+ * Year Filtered Search Tests
+ * Covers server-side `y=` filtering, filling pages of matches and honest counts.
+ */
+
+import { createSearchCursor, fetchYearFilteredPage, matchesYearRange } from './yearFilteredSearch';
+import { fetchMovies } from './movieApi';
+import { Movie, SearchPage } from '../types';
+
+jest.mock('./movieApi', () => ({
+  fetchMovies: jest.fn()
+}));
+
+/**
+ * Builds a page of search results
+ */
+const page = (years: number[], totalResults: number, offset: number = 0): SearchPage => ({
+  totalResults,
+  movies: years.map((year, index): Movie => ({
+    imdbID: `tt${offset + index}`,
+    title: `Movie ${offset + index}`,
+    year,
+    type: 'movie',
+    poster: null
+  }))
+});
+
+describe('yearFilteredSearch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('uses the y= parameter for a single year and reports exact totals', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue(page([1999, 1999], 2));
+
+    const result = await fetchYearFilteredPage(
+      createSearchCursor('matrix', 'movie', { startYear: 1999, endYear: 1999 })
+    );
+
+    expect(fetchMovies).toHaveBeenCalledWith('matrix', 1, 'movie', undefined, 1999);
+    expect(result.movies).toHaveLength(2);
+    expect(result.totalResults).toBe(2);
+    expect(result.totalIsLowerBound).toBe(false);
+    expect(result.hasMore).toBe(false);
+  });
+
+  test('keeps fetching pages until a page of matches is filled', async () => {
+    const years = (year: number, count: number) => Array.from({ length: count }, () => year);
+    (fetchMovies as jest.Mock)
+      .mockResolvedValueOnce(page([...years(1950, 8), ...years(1990, 2)], 40, 0))
+      .mockResolvedValueOnce(page(years(1950, 10), 40, 10))
+      .mockResolvedValueOnce(page(years(1990, 10), 40, 20));
+
+    const result = await fetchYearFilteredPage(
+      createSearchCursor('love', '', { startYear: 1980, endYear: 2000 })
+    );
+
+    expect(fetchMovies).toHaveBeenCalledTimes(3);
+    expect(result.movies).toHaveLength(12);
+    expect(result.totalResults).toBe(12);
+    expect(result.totalIsLowerBound).toBe(true);
+    expect(result.hasMore).toBe(true);
+    expect(result.cursor.sources[0].nextPage).toBe(4);
+  });
+
+  test('explains when results exist but none fall within the year range', async () => {
+    (fetchMovies as jest.Mock).mockResolvedValue(page([1950], 1));
+
+    await expect(fetchYearFilteredPage(
+      createSearchCursor('love', '', { startYear: 1980, endYear: 2000 })
+    )).rejects.toMatchObject({ kind: 'not-found', message: 'No titles found between 1980 and 2000' });
+  });
+
+  test('matches series on the year their run began, as the y= parameter does', async () => {
+    const [series] = page([2008], 1).movies;
+    const eighties = { startYear: 1980, endYear: 1989 };
+    const recent = { startYear: new Date().getFullYear(), endYear: new Date().getFullYear() };
+
+    expect(matchesYearRange({ ...series, year: 1984, endYear: 1992 }, eighties)).toBe(true);
+    expect(matchesYearRange({ ...series, year: 1975, endYear: 1982 }, eighties)).toBe(false);
+    expect(matchesYearRange({ ...series, year: 2008, endYear: null }, recent)).toBe(false);
+    expect(matchesYearRange({ ...series, year: null }, eighties)).toBe(false);
+
+    // A series that began before a wide range is left out when filtering here,
+    // just as a y= search for each year of a short range leaves it out
+    (fetchMovies as jest.Mock).mockResolvedValue({
+      totalResults: 2,
+      movies: [{ ...series, imdbID: 'tt1', year: 1975, endYear: 1982 }, { ...series, imdbID: 'tt2', year: 1984, endYear: 1992 }]
+    });
+    const filtered = await fetchYearFilteredPage(createSearchCursor('cops', 'series', eighties));
+    expect(filtered.movies.map((movie) => movie.imdbID)).toEqual(['tt2']);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Year Filtered Search
+ * Runs searches restricted to a year range, using OMDb's `y=` parameter where it
+ * applies and fetching further pages until a page of matches has been filled.
+ */
+import { fetchMovies } from './movieApi';
+import { MovieApiError } from './apiErrors';
+import { Movie, YearRange } from '../types';
+
+// Number of results OMDb returns per page
+export const OMDB_PAGE_SIZE = 10;
+
+// Ranges up to this many years are searched year by year with `y=`
+export const MAX_FAN_OUT_YEARS = 5;
+
+// Upper bound on OMDb requests made to fill a single page of matches
+export const MAX_REQUESTS_PER_PAGE = 5;
+
+/**
+ * One stream of OMDb result pages (a single year, or every year).
+ */
+interface SearchSource {
+  year?: number;          // Year passed to OMDb as `y=`, if any
+  nextPage: number;       // The next OMDb page to request
+  total: number | null;   // Total results reported by OMDb, once known
+}
+
+/**
+ * Where a year filtered search has got to, used to load the next page.
+ */
+export interface SearchCursor {
+  query: string;
+  type: 'movie' | 'series' | 'episode' | '';
+  yearRange: YearRange | null;  // The year range, or null for any year
+  sources: SearchSource[];      // The OMDb result streams being read
+  clientFilter: boolean;        // Whether results still need filtering by year here
+  seenIds: string[];            // IMDb IDs already returned, to drop duplicates
+  fetchedAny: boolean;          // Whether OMDb has returned any results at all
+}
+
+/**
+ * A page of year filtered results.
+ */
+export interface FilteredSearchPage {
+  movies: Movie[];              // The new matches on this page
+  totalResults: number;         // Total matches, or a lower bound when not exact
+  totalIsLowerBound: boolean;   // True when there may be more matches than totalResults
+  hasMore: boolean;             // Whether another page can be loaded
+  cursor: SearchCursor;         // Cursor for the next page
+}
+
+/**
+ * Checks whether a movie falls within a year range.
+ * Series with a span of years (eg: 2020–2022) match on the year they began, as
+ * OMDb's `y=` does, so a range gives the same titles whichever way it is searched.
+ * @param movie The movie to check
+ * @param yearRange The year range
+ * @returns Boolean indicating the movie is in range
+ */
+export const matchesYearRange = (movie: Movie, yearRange: YearRange): boolean =>
+  movie.year !== null && movie.year >= yearRange.startYear && movie.year <= yearRange.endYear;
+
+/**
+ * Creates the cursor for the first page of a search.
+ * A single year or a short range is searched year by year with `y=`, which gives
+ * exact counts. Wider ranges fall back to filtering each page of results here.
+ * @param query The search query
+ * @param type The type filter
+ * @param yearRange The year range, or null for any year
+ * @returns The initial cursor
+ */
+export const createSearchCursor = (
+  query: string,
+  type: 'movie' | 'series' | 'episode' | '',
+  yearRange: YearRange | null
+): SearchCursor => {
+  const cursor = { query, type, yearRange, seenIds: [], fetchedAny: false };
+
+  if (!yearRange) {
+    return { ...cursor, sources: [{ nextPage: 1, total: null }], clientFilter: false };
+  }
+
+  const span = yearRange.endYear - yearRange.startYear + 1;
+  if (span <= MAX_FAN_OUT_YEARS) {
+    const sources = Array.from({ length: span }, (_, index) => ({
+      year: yearRange.startYear + index,
+      nextPage: 1,
+      total: null
+    }));
+    return { ...cursor, sources, clientFilter: false };
+  }
+
+  return { ...cursor, sources: [{ nextPage: 1, total: null }], clientFilter: true };
+};
+
+/**
+ * Checks whether every page of a source has been read
+ * @param source The source to check
+ * @returns Boolean indicating no pages remain
+ */
+const isExhausted = (source: SearchSource): boolean =>
+  source.total !== null && (source.nextPage - 1) * OMDB_PAGE_SIZE >= source.total;
+
+/**
+ * Fetches the next page of year filtered results, requesting further OMDb pages
+ * until a full page of matches is found, the results run out or the request
+ * budget for the page is spent
+ * @param cursor The cursor returned with the previous page (or a new one)
+ * @param signal Optional AbortSignal used to cancel the requests
+ * @returns A promise that resolves to the page of matches and the next cursor
+ */
+export const fetchYearFilteredPage = async (
+  cursor: SearchCursor,
+  signal?: AbortSignal
+): Promise<FilteredSearchPage> => {
+  const sources = cursor.sources.map((source) => ({ ...source }));
+  const seenIds = new Set(cursor.seenIds);
+  const movies: Movie[] = [];
+  let fetchedAny = cursor.fetchedAny;
+  let requests = 0;
+
+  let source = sources.find((candidate) => !isExhausted(candidate));
+  while (source && movies.length < OMDB_PAGE_SIZE && requests < MAX_REQUESTS_PER_PAGE) {
+    requests += 1;
+
+    let results: Movie[] = [];
+    try {
+      const response = await fetchMovies(cursor.query, source.nextPage, cursor.type, signal, source.year);
+      source.total = response.totalResults;
+      results = response.movies;
+      fetchedAny = true;
+    } catch (error) {
+      // A year with no matching titles simply contributes nothing
+      if (!(error instanceof MovieApiError && error.kind === 'not-found')) {
+        throw error;
+      }
+      source.total = 0;
+    }
+    source.nextPage += 1;
+
+    const { yearRange } = cursor;
+    results
+      .filter((movie) => !cursor.clientFilter || !yearRange || matchesYearRange(movie, yearRange))
+      .forEach((movie) => {
+        if (!seenIds.has(movie.imdbID)) {
+          seenIds.add(movie.imdbID);
+          movies.push(movie);
+        }
+      });
+
+    source = sources.find((candidate) => !isExhausted(candidate));
+  }
+
+  const hasMore = sources.some((candidate) => !isExhausted(candidate));
+  const matched = seenIds.size;
+
+  // Nothing matched anywhere: explain whether the query or the year range is to blame
+  if (matched === 0 && !hasMore) {
+    if (!fetchedAny) {
+      throw new MovieApiError('not-found');
+    }
+    if (cursor.yearRange) {
+      throw new MovieApiError(
+        'not-found',
+        `No titles found between ${cursor.yearRange.startYear} and ${cursor.yearRange.endYear}`
+      );
+    }
+  }
+
+  // Totals reported for `y=` searches are exact once every source has answered;
+  // when filtering here, only the matches found so far are certain
+  const reportedTotal = sources.reduce((sum, candidate) => sum + (candidate.total ?? 0), 0);
+  const totalIsLowerBound = cursor.clientFilter
+    ? hasMore
+    : sources.some((candidate) => candidate.total === null);
+
+  return {
+    movies,
+    totalResults: cursor.clientFilter ? matched : Math.max(reportedTotal, matched),
+    totalIsLowerBound,
+    hasMore,
+    cursor: { ...cursor, sources, seenIds: Array.from(seenIds), fetchedAny }
+  };
+};
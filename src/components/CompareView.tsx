@@ -0,0 +1,201 @@
+/**
+ * CompareView Component
+ * This component shows two to four titles side by side, lining up their details
+ * and scores so differences are easy to spot.
+ */
+import React, { FC, ReactNode, useState } from 'react';
+import {
+  Box,
+  FormControlLabel,
+  IconButton,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { Close as CloseIcon, EmojiEvents } from '@mui/icons-material';
+import { MovieDetail } from '../types';
+import {
+  IMDB_SOURCE,
+  METACRITIC_SOURCE,
+  ROTTEN_TOMATOES_SOURCE,
+  findRating,
+  movieScore,
+  normalizeRatings
+} from '../ratings/normalizedRatings';
+import { formatRuntime, formatYears } from '../titles/titleText';
+
+// Fewest and most titles that can be compared at once
+export const MIN_COMPARE_TITLES = 2;
+export const MAX_COMPARE_TITLES = 4;
+
+/**
+ * Props for the CompareView component
+ */
+interface CompareViewProps {
+  movies: MovieDetail[];                // The titles being compared, in the order they were picked
+  onRemove: (imdbID: string) => void;   // Takes a title out of the comparison
+}
+
+/**
+ * One row of the comparison table.
+ */
+interface CompareRow {
+  label: string;
+  value: (movie: MovieDetail) => string;            // The value shown for a title
+  score?: (movie: MovieDetail) => number | null;    // Numeric score, for rows where higher is better
+  items?: (movie: MovieDetail) => string[];         // The items of the value, for rows listing several
+}
+
+/**
+ * Builds a row for one rating source, compared on the normalized 0–100 scale
+ * @param label The row label
+ * @param source The rating source
+ * @param format Formats the rating on its own scale
+ * @returns The row
+ */
+const ratingRow = (label: string, source: string, format: (value: number, scale: number) => string): CompareRow => ({
+  label,
+  value: (movie) => {
+    const rating = findRating(normalizeRatings(movie), source);
+    return rating ? format(rating.value, rating.scale) : 'N/A';
+  },
+  score: (movie) => findRating(normalizeRatings(movie), source)?.normalized0to100 ?? null
+});
+
+// The rows of the comparison, in display order
+const ROWS: CompareRow[] = [
+  { label: 'Year', value: (movie) => formatYears(movie) },
+  { label: 'Type', value: (movie) => movie.type },
+  { label: 'Runtime', value: (movie) => formatRuntime(movie.runtimeMinutes) },
+  { label: 'Rated', value: (movie) => movie.rated ?? '' },
+  { label: 'Genre', value: (movie) => movie.genres.join(', '), items: (movie) => movie.genres },
+  { label: 'Director', value: (movie) => movie.directors.join(', '), items: (movie) => movie.directors },
+  { label: 'Cast', value: (movie) => movie.actors.join(', '), items: (movie) => movie.actors },
+  ratingRow('IMDb', IMDB_SOURCE, (value, scale) => `${value.toFixed(1)}/${scale}`),
+  ratingRow('Rotten Tomatoes', ROTTEN_TOMATOES_SOURCE, (value) => `${Math.round(value)}%`),
+  ratingRow('Metacritic', METACRITIC_SOURCE, (value, scale) => `${Math.round(value)}/${scale}`),
+  {
+    label: 'Combined score',
+    value: (movie) => {
+      const score = movieScore(movie);
+      return score !== null ? `${Math.round(score)}/100` : 'N/A';
+    },
+    score: (movie) => movieScore(movie)
+  }
+];
+
+// Functional component for the CompareView
+const CompareView: FC<CompareViewProps> = ({ movies, onRemove }) => {
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  /**
+   * Renders one cell of a row, emphasising list items not shared by every title
+   * and marking the best score
+   * @param row The row
+   * @param movie The title
+   * @param isBest Whether this title has the best score in the row
+   * @returns The cell contents
+   */
+  const renderValue = (row: CompareRow, movie: MovieDetail, isBest: boolean): ReactNode => {
+    const value = row.value(movie) || 'N/A';
+
+    const { items } = row;
+    if (items && items(movie).length > 0) {
+      return items(movie).map((item, index, all) => {
+        const shared = movies.every((other) => items(other).includes(item));
+        return (
+          <React.Fragment key={item}>
+            <Box component="span" sx={{ fontWeight: shared ? 'normal' : 600 }}>{item}</Box>
+            {index < all.length - 1 && ', '}
+          </React.Fragment>
+        );
+      });
+    }
+
+    return isBest ? (
+      <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5, fontWeight: 600, color: 'success.main' }}>
+        <EmojiEvents fontSize="small" aria-label="Best score" />
+        {value}
+      </Box>
+    ) : value;
+  };
+
+  const rows = ROWS.map((row) => {
+    const values = movies.map((movie) => row.value(movie));
+    const differs = new Set(values).size > 1;
+
+    // The best score is only highlighted when it beats at least one other title
+    const scores = row.score ? movies.map(row.score) : [];
+    const known = scores.filter((score): score is number => score !== null);
+    const best = known.length > 1 && new Set(known).size > 1 ? Math.max(...known) : null;
+
+    return { row, differs, scores, best };
+  }).filter(({ differs }) => differs || !differencesOnly);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1, pr: 5 }}>
+        <Typography variant="h6">Compare Titles</Typography>
+        <FormControlLabel
+          control={<Switch checked={differencesOnly} onChange={(event) => setDifferencesOnly(event.target.checked)} />}
+          label="Only differences"
+        />
+      </Box>
+
+      <TableContainer>
+        <Table size="small" aria-label="Title comparison">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              {movies.map((movie) => (
+                <TableCell key={movie.imdbID} sx={{ verticalAlign: 'top', width: `${80 / movies.length}%` }}>
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                    <Box
+                      component="img"
+                      src={movie.poster ?? '/placeholder.png'}
+                      alt={movie.title}
+                      sx={{ width: 48, borderRadius: 1 }}
+                    />
+                    <Typography variant="subtitle2" sx={{ flex: 1 }}>{movie.title}</Typography>
+                    {movies.length > MIN_COMPARE_TITLES && (
+                      <IconButton size="small" aria-label={`Remove ${movie.title} from comparison`} onClick={() => onRemove(movie.imdbID)}>
+                        <CloseIcon fontSize="small" />
+                      </IconButton>
+                    )}
+                  </Box>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(({ row, differs, scores, best }) => (
+              // Rows where the titles differ are tinted so they stand out
+              <TableRow key={row.label} sx={{ bgcolor: differs ? 'action.hover' : 'transparent' }}>
+                <TableCell component="th" scope="row" sx={{ fontWeight: 600, whiteSpace: 'nowrap' }}>
+                  {row.label}
+                </TableCell>
+                {movies.map((movie, index) => (
+                  <TableCell key={movie.imdbID}>
+                    {renderValue(row, movie, best !== null && scores[index] === best)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      {rows.length === 0 && (
+        <Typography variant="body2" color="textSecondary" sx={{ mt: 2 }}>
+          These titles don't differ in any of the compared details.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,90 @@
+/**
+ * ListPicker Component
+ * This component lets the user choose which of their lists a movie belongs to,
+ * and create a new list for it.
+ */
+import React, { FC, FormEvent, useState } from 'react';
+import { Box, Button, Checkbox, IconButton, ListItemIcon, ListItemText, Menu, MenuItem, TextField } from '@mui/material';
+import { ArrowDropDown } from '@mui/icons-material';
+import { MovieDetail, NamedList } from '../types';
+
+/**
+ * Props for the ListPicker component
+ */
+interface ListPickerProps {
+  movie: MovieDetail;                                         // The movie being added or removed
+  lists: NamedList[];                                         // The user's lists
+  onToggleList: (listId: string, movie: MovieDetail) => void; // Adds the movie to a list or removes it
+  onCreateList: (name: string) => string;                     // Creates a list and returns its ID
+}
+
+// Functional component for the ListPicker
+const ListPicker: FC<ListPickerProps> = ({ movie, lists, onToggleList, onCreateList }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [newListName, setNewListName] = useState('');
+
+  /**
+   * Creates a new list from the typed name and adds the movie to it
+   * @param event The form submit event
+   */
+  const handleCreateList = (event: FormEvent) => {
+    event.preventDefault();
+    if (!newListName.trim()) {
+      return;
+    }
+    onToggleList(onCreateList(newListName), movie);
+    setNewListName('');
+  };
+
+  return (
+    <>
+      <IconButton
+        aria-label="Choose lists"
+        aria-haspopup="menu"
+        aria-expanded={Boolean(anchorEl)}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+      >
+        <ArrowDropDown />
+      </IconButton>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {/* One checkable item per list */}
+        {lists.map((list) => {
+          const inList = list.entries.some((entry) => entry.imdbID === movie.imdbID);
+          return (
+            <MenuItem
+              key={list.id}
+              role="menuitemcheckbox"
+              aria-checked={inList}
+              onClick={() => onToggleList(list.id, movie)}
+            >
+              <ListItemIcon>
+                <Checkbox edge="start" size="small" checked={inList} tabIndex={-1} disableRipple />
+              </ListItemIcon>
+              <ListItemText primary={list.name} />
+            </MenuItem>
+          );
+        })}
+        {/* Form for creating a new list (keys are kept from the menu's type-ahead) */}
+        <Box
+          component="form"
+          onSubmit={handleCreateList}
+          onKeyDown={(event) => event.stopPropagation()}
+          sx={{ display: 'flex', gap: 1, px: 2, pt: 1 }}
+        >
+          <TextField
+            size="small"
+            placeholder="New list"
+            value={newListName}
+            onChange={(event) => setNewListName(event.target.value)}
+            inputProps={{ 'aria-label': 'New list name' }}
+          />
+          <Button type="submit" size="small" disabled={!newListName.trim()}>
+            Create
+          </Button>
+        </Box>
+      </Menu>
+    </>
+  );
+};
+
+export default ListPicker;
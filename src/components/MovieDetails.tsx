@@ -3,11 +3,16 @@
  * This component displays detailed information about a specific movie.
  */
 
-import React, { FC } from 'react';
-import { Box, Typography, Button, Card, CardMedia, CardContent, Chip } from '@mui/material';
-import { MovieDetail } from '../types';
+import React, { FC, useEffect, useRef } from 'react';
+import { Box, Typography, Button, Card, CardMedia, CardContent, Chip, Alert, Tooltip } from '@mui/material';
+import { MovieDetail, NamedList } from '../types';
+import { MovieApiError } from '../api/apiErrors';
 import { BookmarkBorderOutlined, BookmarkOutlined } from '@mui/icons-material';
 import MovieRatings from './MovieRatings';
+import ListPicker from './ListPicker';
+import SeasonBrowser from './SeasonBrowser';
+import { movieScore } from '../ratings/normalizedRatings';
+import { formatRuntime, formatYears } from '../titles/titleText';
 import { MovieFilter as MovieFilterIcon } from '@mui/icons-material';
 
 /**
@@ -15,15 +20,74 @@ import { MovieFilter as MovieFilterIcon } from '@mui/icons-material';
  */
 interface MovieDetailsProps {
   movie: MovieDetail | null;
+  error?: MovieApiError | null; // Error from the last details request, if it failed
+  onRetry?: () => void;         // Repeats the failed details request
   addToWatchlist: (movie: MovieDetail) => void;
   isInWatchlist: (movieId: string) => boolean;
+  lists?: NamedList[];                                         // The user's lists, for the list picker
+  onToggleList?: (listId: string, movie: MovieDetail) => void; // Adds the movie to a list or removes it
+  onCreateList?: (name: string) => string;                     // Creates a list and returns its ID
+  focusOnOpen?: boolean;   // Moves focus to the title when a movie opens, e.g. after choosing it from the keyboard
+  onBack?: () => void;     // Returns to the results when Escape is pressed in the details
 }
 
 /**
  * Functional component for MovieDetails.
  * Displays the details of the selected movie or a prompt to select a movie.
  */
-const MovieDetails: FC<MovieDetailsProps> = ({ movie, addToWatchlist, isInWatchlist }) => {
+const MovieDetails: FC<MovieDetailsProps> = ({
+  movie,
+  error,
+  onRetry,
+  addToWatchlist,
+  isInWatchlist,
+  lists,
+  onToggleList,
+  onCreateList,
+  focusOnOpen = false,
+  onBack
+}) => {
+  // Ref for the title, which receives focus when a movie opens from the keyboard
+  const titleRef = useRef<HTMLHeadingElement>(null);
+
+  // Effect to move focus to the title of a newly opened movie
+  useEffect(() => {
+    if (focusOnOpen && movie) {
+      titleRef.current?.focus();
+    }
+  }, [movie, focusOnOpen]);
+
+  /**
+   * Returns to the results on Escape (menus and dialogs inside handle their own Escape first)
+   * @param event Keyboard event object
+   */
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && onBack) {
+      event.preventDefault();
+      onBack();
+    }
+  };
+
+  // If the details couldn't be loaded, explain why and offer to try again when that can help
+  if (error) {
+    return (
+      <Card>
+        <CardContent>
+          <Alert
+            severity="error"
+            action={onRetry && error.transient && (
+              <Button color="inherit" size="small" onClick={onRetry}>
+                Retry
+              </Button>
+            )}
+          >
+            {error.message}
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
   // If no movie is selected, show a message prompting the user to select one
   if (!movie) {
     return (
@@ -50,18 +114,20 @@ const MovieDetails: FC<MovieDetailsProps> = ({ movie, addToWatchlist, isInWatchl
   }
 
   const inWatchlist = isInWatchlist(movie.imdbID);
+  const combinedScore = movieScore(movie);
 
   return (
-    <Card>
+    <Card component="section" aria-label="Movie details" onKeyDown={handleKeyDown}>
       <CardContent>
         {/* Main container */}
         <Box sx={{ position: 'relative', pt: 5 }}>
-          {/* Watchlist Button */}
-          <Box sx={{ position: 'absolute', top: 0, right: 0, zIndex: 1 }}>
+          {/* Watchlist Button, with a picker for the user's other lists */}
+          <Box sx={{ position: 'absolute', top: 0, right: 0, zIndex: 1, display: 'flex', alignItems: 'center' }}>
             <Button
               variant="outlined"
               startIcon={inWatchlist ? <BookmarkOutlined /> : <BookmarkBorderOutlined />}
               onClick={() => addToWatchlist(movie)}
+              aria-pressed={inWatchlist}
               sx={{
                 color: inWatchlist ? 'text.primary' : 'inherit',
                 borderColor: inWatchlist ? 'text.primary' : 'inherit',
@@ -69,6 +135,9 @@ const MovieDetails: FC<MovieDetailsProps> = ({ movie, addToWatchlist, isInWatchl
             >
               Watchlist
             </Button>
+            {lists && onToggleList && onCreateList && (
+              <ListPicker movie={movie} lists={lists} onToggleList={onToggleList} onCreateList={onCreateList} />
+            )}
           </Box>
 
           {/* Content Container */}
@@ -90,35 +159,43 @@ const MovieDetails: FC<MovieDetailsProps> = ({ movie, addToWatchlist, isInWatchl
               <CardMedia
                 component="img"
                 height="450"
-                image={movie.Poster !== 'N/A' ? movie.Poster : '/placeholder.png'}
-                alt={movie.Title}
+                image={movie.poster ?? '/placeholder.png'}
+                alt={movie.title}
                 sx={{ objectFit: 'cover', width: '100%', borderRadius: 1 }}
               />
             </Box>
 
             {/* Movie Details */}
             <Box sx={{ flex: 1 }}>
-              <Typography variant="h4" gutterBottom>{movie.Title}</Typography>
+              <Typography ref={titleRef} tabIndex={-1} variant="h4" gutterBottom sx={{ outline: 'none' }}>
+                {movie.title}
+              </Typography>
 
               <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
-                <Chip label={movie.Year} />
-                <Chip label={movie.Rated} />
-                <Chip label={movie.Runtime} />
-                <Chip label={movie.Type} />
+                {movie.year !== null && <Chip label={formatYears(movie)} />}
+                {movie.rated && <Chip label={movie.rated} />}
+                {movie.runtimeMinutes !== null && <Chip label={formatRuntime(movie.runtimeMinutes)} />}
+                <Chip label={movie.type} />
+                {/* Weighted average of the available ratings, on a 0–100 scale */}
+                {combinedScore !== null && (
+                  <Tooltip title="Average of the available IMDb, Rotten Tomatoes and Metacritic ratings">
+                    <Chip color="primary" label={`Combined score ${Math.round(combinedScore)}/100`} />
+                  </Tooltip>
+                )}
               </Box>
 
               {/* Movie Information (Genre, Director, Actors, Plot) */}
               <Typography variant="body1" paragraph>
-                <strong>Genre:</strong> {movie.Genre}
+                <strong>Genre:</strong> {movie.genres.join(', ') || 'N/A'}
               </Typography>
               <Typography variant="body1" paragraph>
-                <strong>Director:</strong> {movie.Director}
+                <strong>Director:</strong> {movie.directors.join(', ') || 'N/A'}
               </Typography>
               <Typography variant="body1" paragraph>
-                <strong>Actors:</strong> {movie.Actors}
+                <strong>Actors:</strong> {movie.actors.join(', ') || 'N/A'}
               </Typography>
               <Typography variant="body1" paragraph>
-                <strong>Plot:</strong> {movie.Plot}
+                <strong>Plot:</strong> {movie.plot ?? 'N/A'}
               </Typography>
             </Box>
           </Box>
@@ -126,6 +203,11 @@ const MovieDetails: FC<MovieDetailsProps> = ({ movie, addToWatchlist, isInWatchl
 
         {/* Movie Ratings Component */}
         <MovieRatings movie={movie} />
+
+        {/* Seasons and episodes of a series */}
+        {movie.type === 'series' && (movie.totalSeasons ?? 0) > 0 && (
+          <SeasonBrowser key={movie.imdbID} series={movie} />
+        )}
       </CardContent>
     </Card>
   );
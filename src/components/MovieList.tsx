@@ -1,10 +1,17 @@
 /**
  * MovieList Component
- * This component renders a list of movies with infinite scroll functionality.
+ * This component renders a list of movies with infinite scroll functionality,
+ * with controls to sort and filter the loaded results. Only the rows in view are
+ * mounted, so long infinite-scroll sessions stay responsive.
  */
-import React, { FC, useRef, useEffect, useState, KeyboardEvent } from 'react';
+import React, { FC, useRef, useEffect, useCallback, useMemo, useState, KeyboardEvent } from 'react';
 import {
     Box,
+    Chip,
+    FormControl,
+    InputLabel,
+    MenuItem,
+    Select,
     Typography,
     List,
     ListItem,
@@ -13,20 +20,50 @@ import {
     ListItemButton,
     Avatar,
     Divider,
-    CircularProgress
+    CircularProgress,
+    IconButton,
+    Tooltip
 } from '@mui/material';
+import { CompareArrows } from '@mui/icons-material';
 import { Movie } from '../types';
+import {
+    NO_FACETS,
+    RESULT_SORTS,
+    ResultFacets,
+    ResultSort,
+    availableFacets,
+    filterResults,
+    sortResults,
+    toggleFacetValue
+} from '../results/resultFacets';
+import { scrollTopToReveal, visibleRowWindow } from '../results/rowWindow';
+import { formatYears } from '../titles/titleText';
+import { NEXT_RESULT_KEYS, PREVIOUS_RESULT_KEYS, isShortcutEvent } from '../keyboard/shortcuts';
+
+// Height of each result row including its divider (rows are kept to one line of title)
+const ROW_HEIGHT = 73;
+
+// Height assumed for the visible area before the list has been laid out
+const FALLBACK_VIEWPORT_HEIGHT = 800;
 
 /**
  * Props for the MovieList component
  */
 interface MovieListProps {
     movies: Movie[];
-    onSelectMovie: (movie: Movie) => void;
+    onSelectMovie: (movie: Movie, viaKeyboard?: boolean) => void; // viaKeyboard is true when opened with Enter
     totalResults?: number;
+    totalIsLowerBound?: boolean; // True when totalResults is only the number found so far
     onLoadMore?: () => void;
     hasMore?: boolean;
     loading?: boolean;
+    selectedMovieId?: string; // IMDb ID of the selected movie, when controlled by the parent
+    compareIds?: string[]; // IMDb IDs of the titles picked for comparison
+    onToggleCompare?: (movie: Movie) => void; // Adds a title to the comparison or takes it out
+    canAddToCompare?: boolean; // False once the comparison is full
+    matchesFilters?: (movie: Movie) => boolean; // Further filters applied by the parent, e.g. on fetched details
+    scoreOf?: (movie: Movie) => number | null; // Combined rating score of a result, offered as a sort when given
+    focusRequest?: number; // Changed by the parent to move focus back to the selected result
 }
 
 // Functional component for the MovieList
@@ -34,16 +71,179 @@ const MovieList: FC<MovieListProps> = ({
     movies,
     onSelectMovie,
     totalResults = 0,
+    totalIsLowerBound = false,
     onLoadMore,
     hasMore = false,
-    loading = false
+    loading = false,
+    selectedMovieId: controlledSelectedMovieId,
+    compareIds = [],
+    onToggleCompare,
+    canAddToCompare = true,
+    matchesFilters,
+    scoreOf,
+    focusRequest = 0
 }) => {
     // Create refs for intersection observer
     const observerRef = useRef<IntersectionObserver>();
     const loadingRef = useRef<HTMLDivElement>(null);
 
-    // State for managing selected movie ID
-    const [selectedMovieId, setSelectedMovieId] = useState<string>('');
+    // Refs for the scrolling container and the list inside it, used to work out the rows in view
+    const scrollerRef = useRef<HTMLDivElement>(null);
+    const listRef = useRef<HTMLUListElement>(null);
+
+    // State for the part of the list in view. The scroll offset is rounded down to
+    // a whole row so scrolling within a row doesn't re-render the list.
+    const [viewport, setViewport] = useState({ scrollOffset: 0, height: FALLBACK_VIEWPORT_HEIGHT });
+
+    // State for the result that holds the list's single tab stop, moved with the arrow keys
+    const [activeMovieId, setActiveMovieId] = useState<string>('');
+
+    // Rows by IMDb ID, and the result to focus once its row is mounted
+    const rowRefs = useRef(new Map<string, HTMLDivElement>());
+    const pendingFocusRef = useRef<string | null>(null);
+    const lastFocusRequestRef = useRef(focusRequest);
+
+    // State for managing selected movie ID (the parent's value wins when provided)
+    const [localSelectedMovieId, setSelectedMovieId] = useState<string>('');
+    const selectedMovieId = controlledSelectedMovieId ?? localSelectedMovieId;
+
+    // State for the client-side sort order and facet filters
+    const [sort, setSort] = useState<ResultSort>('relevance');
+    const [facets, setFacets] = useState<ResultFacets>(NO_FACETS);
+
+    // Only the facet values present in the loaded results are offered, and a
+    // chosen value that a new search no longer contains stops filtering
+    const available = useMemo(() => availableFacets(movies), [movies]);
+    const activeFacets = useMemo<ResultFacets>(() => ({
+        types: facets.types.filter((type) => available.types.includes(type)),
+        decades: facets.decades.filter((decade) => available.decades.includes(decade))
+    }), [facets, available]);
+
+    // Sorting by score is only offered while the parent can score the results
+    const sortOptions = RESULT_SORTS.filter((option) => option.value !== 'score' || scoreOf);
+    const activeSort: ResultSort = sort === 'score' && !scoreOf ? 'relevance' : sort;
+
+    const visibleMovies = useMemo(
+        () => sortResults(
+            filterResults(matchesFilters ? movies.filter(matchesFilters) : movies, activeFacets),
+            activeSort,
+            scoreOf
+        ),
+        [movies, matchesFilters, activeFacets, activeSort, scoreOf]
+    );
+
+    // Windowed rendering: only these rows are mounted
+    const { start, end } = visibleRowWindow(viewport.scrollOffset, viewport.height, ROW_HEIGHT, visibleMovies.length);
+    const selectedIndex = visibleMovies.findIndex((movie) => movie.imdbID === selectedMovieId);
+
+    // The tab stop stays on the last result moved to, falling back to the selected or first one
+    const activeIndex = [activeMovieId, selectedMovieId]
+        .map((id) => visibleMovies.findIndex((movie) => movie.imdbID === id))
+        .find((index) => index >= 0) ?? 0;
+
+    /**
+     * Measures the distance from the top of the scrolling container's content to the first row.
+     * offsetTop counts from the nearest positioned ancestor, which also holds the content
+     * above the container (the search bar, filters and alerts), so that part is taken off.
+     * @returns The distance in pixels
+     */
+    const listOffset = useCallback((): number => {
+        const scroller = scrollerRef.current;
+        const list = listRef.current;
+        return scroller && list ? list.offsetTop - scroller.offsetTop : 0;
+    }, []);
+
+    /**
+     * Reads the scroll position and size of the container into state
+     */
+    const updateViewport = useCallback(() => {
+        const scroller = scrollerRef.current;
+        if (!scroller) {
+            return;
+        }
+        const scrollOffset = Math.floor(Math.max(0, scroller.scrollTop - listOffset()) / ROW_HEIGHT) * ROW_HEIGHT;
+        const height = scroller.clientHeight || FALLBACK_VIEWPORT_HEIGHT;
+        setViewport((current) =>
+            current.scrollOffset === scrollOffset && current.height === height ? current : { scrollOffset, height }
+        );
+    }, [listOffset]);
+
+    // Effect to measure the container on mount and whenever the window is resized
+    useEffect(() => {
+        updateViewport();
+        window.addEventListener('resize', updateViewport);
+        return () => window.removeEventListener('resize', updateViewport);
+    }, [updateViewport]);
+
+    // Effect to bring the selected title back into view, e.g. when returning to it
+    // through the browser history or after changing the sort order
+    useEffect(() => {
+        const scroller = scrollerRef.current;
+        if (!scroller || selectedIndex < 0) {
+            return;
+        }
+        const scrollTop = scrollTopToReveal(
+            selectedIndex,
+            scroller.scrollTop,
+            scroller.clientHeight || FALLBACK_VIEWPORT_HEIGHT,
+            ROW_HEIGHT,
+            listOffset()
+        );
+        if (scrollTop !== null) {
+            scroller.scrollTop = scrollTop;
+            updateViewport();
+        }
+    }, [selectedIndex, listOffset, updateViewport]);
+
+    /**
+     * Moves focus to a result, scrolling its row into view first if needed
+     * @param index Position of the result in the shown list
+     */
+    const focusRow = useCallback((index: number) => {
+        const movie = visibleMovies[index];
+        const scroller = scrollerRef.current;
+        if (!movie || !scroller) {
+            return;
+        }
+        setActiveMovieId(movie.imdbID);
+
+        // A mounted row can take focus straight away; others are focused once scrolled into the window
+        const row = rowRefs.current.get(movie.imdbID);
+        if (row) {
+            row.focus();
+        } else {
+            pendingFocusRef.current = movie.imdbID;
+        }
+
+        const scrollTop = scrollTopToReveal(
+            index,
+            scroller.scrollTop,
+            scroller.clientHeight || FALLBACK_VIEWPORT_HEIGHT,
+            ROW_HEIGHT,
+            listOffset()
+        );
+        if (scrollTop !== null) {
+            scroller.scrollTop = scrollTop;
+            updateViewport();
+        }
+    }, [visibleMovies, listOffset, updateViewport]);
+
+    // Effect to focus a result once its row has been mounted
+    useEffect(() => {
+        const row = pendingFocusRef.current && rowRefs.current.get(pendingFocusRef.current);
+        if (row) {
+            pendingFocusRef.current = null;
+            row.focus();
+        }
+    });
+
+    // Effect to move focus back to the selected result when the parent asks, e.g. from the details
+    useEffect(() => {
+        if (focusRequest !== lastFocusRequestRef.current) {
+            lastFocusRequestRef.current = focusRequest;
+            focusRow(Math.max(0, selectedIndex));
+        }
+    }, [focusRequest, selectedIndex, focusRow]);
 
     useEffect(() => {
         // Create intersection observer
@@ -74,83 +274,205 @@ const MovieList: FC<MovieListProps> = ({
      * Handles movie selection
      * @param movie Selected movie object
      */
-    const handleMovieSelect = (movie: Movie) => {
+    const handleMovieSelect = (movie: Movie, viaKeyboard: boolean = false) => {
         setSelectedMovieId(movie.imdbID);
-        onSelectMovie(movie);
+        setActiveMovieId(movie.imdbID);
+        if (viaKeyboard) {
+            onSelectMovie(movie, true);
+        } else {
+            onSelectMovie(movie);
+        }
     };
 
     /**
-     * Handles keyboard interaction for accessibility
+     * Handles keyboard interaction for accessibility: the arrow keys (or j and k),
+     * Home and End move between results. Enter and Space reach the row's onClick
+     * through ButtonBase.
      * @param event Keyboard event object
-     * @param movie Movie object to be selected
+     * @param index Position of the focused result in the shown list
      */
-    const handleKeyPress = (event: KeyboardEvent<HTMLDivElement>, movie: Movie) => {
-        if (event.key === 'Enter') {
-            handleMovieSelect(movie);
+    const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>, index: number) => {
+        if (!isShortcutEvent(event)) {
+            return;
+        }
+
+        let target: number | null = null;
+        if (NEXT_RESULT_KEYS.includes(event.key)) {
+            target = Math.min(index + 1, visibleMovies.length - 1);
+        } else if (PREVIOUS_RESULT_KEYS.includes(event.key)) {
+            target = Math.max(index - 1, 0);
+        } else if (event.key === 'Home') {
+            target = 0;
+        } else if (event.key === 'End') {
+            target = visibleMovies.length - 1;
+        }
+
+        if (target !== null) {
+            event.preventDefault();
+            focusRow(target);
         }
     };
 
     return (
         <Box
+            ref={scrollerRef}
+            onScroll={updateViewport}
+            role="region"
+            aria-label="Search results"
             sx={{
                 height: '80vh',
                 overflow: 'auto',
                 '&::-webkit-scrollbar': { width: '8px' },
-                '&::-webkit-scrollbar-track': { backgroundColor: 'rgba(0, 0, 0, 0.1)' },
+                '&::-webkit-scrollbar-track': { backgroundColor: 'action.hover' },
                 '&::-webkit-scrollbar-thumb': {
-                    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+                    backgroundColor: 'results.scrollbar',
                     borderRadius: '4px',
-                    '&:hover': { backgroundColor: 'rgba(0, 0, 0, 0.3)' },
+                    '&:hover': { backgroundColor: 'action.disabled' },
                 },
             }}
         >
-            {/* Display total number of results */}
-            <Typography
-                gutterBottom
+            <Box
                 sx={{
                     position: 'sticky',
                     top: 0,
-                    zIndex: 1,
-                    backgroundColor: 'white',
+                    zIndex: 2,
+                    backgroundColor: 'background.default',
                     padding: '10px',
-                    boxShadow: '0px 1px 3px rgba(0,0,0,0.1)',
+                    boxShadow: (theme) => theme.shadows[1],
                 }}
             >
-                {totalResults ? `${totalResults} Results` : `${movies.length} Results`}
-            </Typography>
-
-            {/* Render list of movies */}
-            <List>
-                {movies.map((movie) => (
-                    <React.Fragment key={movie.imdbID}>
-                        <ListItem disablePadding>
-                            <ListItemButton
-                                onClick={() => handleMovieSelect(movie)}
-                                onKeyPress={(e) => handleKeyPress(e, movie)}
-                                tabIndex={0}
-                                sx={{
-                                    backgroundColor: selectedMovieId === movie.imdbID ? '#00000033' : 'transparent',
-                                    '&:hover': {
-                                        backgroundColor:
-                                            selectedMovieId === movie.imdbID ? '#00000033' : 'transparent',
-                                    },
-                                }}
+                {/* Display total number of results, and how many the filters leave */}
+                <Typography gutterBottom role="status">
+                    {totalIsLowerBound ? 'At least ' : ''}
+                    {totalResults ? `${totalResults} Results` : `${movies.length} Results`}
+                    {visibleMovies.length < movies.length && ` (showing ${visibleMovies.length} of ${movies.length} loaded)`}
+                </Typography>
+
+                {/* Sort order */}
+                <FormControl size="small" sx={{ minWidth: 180, mb: 1 }}>
+                    <InputLabel id="result-sort-label">Sort by</InputLabel>
+                    <Select
+                        labelId="result-sort-label"
+                        label="Sort by"
+                        value={activeSort}
+                        onChange={(event) => setSort(event.target.value as ResultSort)}
+                    >
+                        {sortOptions.map((option) => (
+                            <MenuItem key={option.value} value={option.value}>
+                                {option.label}
+                            </MenuItem>
+                        ))}
+                    </Select>
+                </FormControl>
+
+                {/* Facet chips for the types and decades in the loaded results */}
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }} role="group" aria-label="Filter results">
+                    {available.types.map((type) => {
+                        const chosen = activeFacets.types.includes(type);
+                        return (
+                            <Chip
+                                key={type}
+                                size="small"
+                                label={type.charAt(0).toUpperCase() + type.slice(1)}
+                                color={chosen ? 'primary' : 'default'}
+                                variant={chosen ? 'filled' : 'outlined'}
+                                aria-pressed={chosen}
+                                onClick={() => setFacets((current) => ({ ...current, types: toggleFacetValue(current.types, type) }))}
+                            />
+                        );
+                    })}
+                    {available.decades.map((decade) => {
+                        const chosen = activeFacets.decades.includes(decade);
+                        return (
+                            <Chip
+                                key={decade}
+                                size="small"
+                                label={`${decade}s`}
+                                color={chosen ? 'primary' : 'default'}
+                                variant={chosen ? 'filled' : 'outlined'}
+                                aria-pressed={chosen}
+                                onClick={() => setFacets((current) => ({ ...current, decades: toggleFacetValue(current.decades, decade) }))}
+                            />
+                        );
+                    })}
+                    {(activeFacets.types.length > 0 || activeFacets.decades.length > 0) && (
+                        <Chip size="small" label="Clear filters" onClick={() => setFacets(NO_FACETS)} />
+                    )}
+                </Box>
+            </Box>
+
+            {/* Render the movies in view, with padding standing in for the rows above and below */}
+            <List
+                ref={listRef}
+                disablePadding
+                aria-label="Results"
+                style={{ paddingTop: start * ROW_HEIGHT, paddingBottom: (visibleMovies.length - end) * ROW_HEIGHT }}
+            >
+                {visibleMovies.slice(start, end).map((movie, offset) => {
+                    const index = start + offset;
+                    const comparing = compareIds.includes(movie.imdbID);
+                    return (
+                        <React.Fragment key={movie.imdbID}>
+                            <ListItem
+                                disablePadding
+                                aria-setsize={visibleMovies.length}
+                                aria-posinset={index + 1}
+                                secondaryAction={onToggleCompare && (
+                                    <Tooltip title={comparing ? 'Remove from comparison' : 'Add to comparison'}>
+                                        <span>
+                                            <IconButton
+                                                edge="end"
+                                                aria-label={`Compare ${movie.title}`}
+                                                aria-pressed={comparing}
+                                                color={comparing ? 'primary' : 'default'}
+                                                disabled={!comparing && !canAddToCompare}
+                                                onClick={() => onToggleCompare(movie)}
+                                            >
+                                                <CompareArrows />
+                                            </IconButton>
+                                        </span>
+                                    </Tooltip>
+                                )}
                             >
-                                {/* Movie poster avatar */}
-                                <ListItemAvatar>
-                                    <Avatar src={movie.Poster} alt={movie.Title} />
-                                </ListItemAvatar>
-                                {/* Movie title and year/type details */}
-                                <ListItemText
-                                    primary={movie.Title}
-                                    secondary={`${movie.Year} | ${movie.Type}`}
-                                />
-                            </ListItemButton>
-                        </ListItem>
-                        {/* Divider after each movie */}
-                        <Divider variant="fullWidth" />
-                    </React.Fragment>
-                ))}
+                                <ListItemButton
+                                    ref={(row: HTMLDivElement | null) => {
+                                        if (row) {
+                                            rowRefs.current.set(movie.imdbID, row);
+                                        } else {
+                                            rowRefs.current.delete(movie.imdbID);
+                                        }
+                                    }}
+                                    // A keyboard activation arrives as the key event rather than a click
+                                    onClick={(e) => handleMovieSelect(movie, e.type !== 'click')}
+                                    onKeyDown={(e) => handleKeyDown(e, index)}
+                                    tabIndex={index === activeIndex ? 0 : -1}
+                                    aria-current={selectedMovieId === movie.imdbID ? 'true' : undefined}
+                                    sx={{
+                                        height: ROW_HEIGHT - 1,
+                                        backgroundColor: selectedMovieId === movie.imdbID ? 'results.selected' : 'transparent',
+                                        '&:hover': {
+                                            backgroundColor:
+                                                selectedMovieId === movie.imdbID ? 'results.selected' : 'transparent',
+                                        },
+                                    }}
+                                >
+                                    {/* Movie poster avatar */}
+                                    <ListItemAvatar>
+                                        <Avatar src={movie.poster ?? undefined} alt={movie.title} />
+                                    </ListItemAvatar>
+                                    {/* Movie title and year/type details */}
+                                    <ListItemText
+                                        primary={movie.title}
+                                        secondary={`${formatYears(movie)} | ${movie.type}`}
+                                        primaryTypographyProps={{ noWrap: true }}
+                                    />
+                                </ListItemButton>
+                            </ListItem>
+                            {/* Divider after each movie */}
+                            <Divider variant="fullWidth" />
+                        </React.Fragment>
+                    );
+                })}
             </List>
 
             {/* Loading indicator that triggers infinite scroll */}
@@ -5,8 +5,15 @@
 
 import React from 'react';
 import { Box, Typography, Divider, Theme } from '@mui/material';
-import { MovieDetail } from '../types'; // Import for movie detail type
+import { MovieDetail, NormalizedRating } from '../types'; // Import for movie detail type
 import { SxProps } from '@mui/system';
+import {
+  IMDB_SOURCE,
+  METACRITIC_SOURCE,
+  ROTTEN_TOMATOES_SOURCE,
+  findRating,
+  normalizeRatings
+} from '../ratings/normalizedRatings';
 
 /**
  * Props interface for the main MovieRatings component
@@ -77,6 +84,27 @@ const RatingSection: React.FC<RatingSectionProps> = ({ source, rating, outOf })
   </Box>
 );
 
+// The sources always shown, with the scale shown when a source has no rating
+const MAIN_SOURCES = [
+  { source: IMDB_SOURCE, scale: 10 },
+  { source: ROTTEN_TOMATOES_SOURCE, scale: 100 },
+  { source: METACRITIC_SOURCE, scale: 100 }
+];
+
+/**
+ * Formats a normalized rating for a rating section
+ * @param rating The normalized rating
+ * @returns The rating and the scale it is out of
+ */
+const formatRating = (rating: NormalizedRating): { rating: string; outOf: string } => {
+  // Rotten Tomatoes scores read as percentages rather than "out of 100"
+  if (rating.source === ROTTEN_TOMATOES_SOURCE) {
+    return { rating: `${Math.round(rating.value)}%`, outOf: '' };
+  }
+  const decimals = rating.scale <= 10 ? 1 : 0;
+  return { rating: rating.value.toFixed(decimals), outOf: String(rating.scale) };
+};
+
 /**
  * Displays ratings for a given movie
  * @param movie Movie details including ratings from different sources
@@ -84,33 +112,19 @@ const RatingSection: React.FC<RatingSectionProps> = ({ source, rating, outOf })
  * @returns JSX Element for the ratings component
  */
 const MovieRatings: React.FC<MovieRatingsProps> = ({ movie, sx }) => {
-  /**
-   * Fetches a specific rating from the movie data by source
-   * @param source The name of the rating source
-   * @returns The rating value or 'N/A' if not found
-   */
-  const getRatingBySource = (source: string): string => {
-    const rating = movie.Ratings?.find((r) => r.Source === source);
-    return rating?.Value || 'N/A';
-  };
+  const ratings = normalizeRatings(movie);
 
-  // Define the data for each rating section
+  // Define the data for each rating section: the main sources first, then any others the provider returned
   const ratingsData = [
-    {
-      source: 'Internet Movie Database',
-      rating: movie.imdbRating || 'N/A',
-      outOf: '10'
-    },
-    {
-      source: 'Rotten Tomatoes',
-      rating: getRatingBySource('Rotten Tomatoes'),
-      outOf: '' // No outOf needed as Rotten Tomatoes includes % in the rating
-    },
-    {
-      source: 'Metacritic',
-      rating: getRatingBySource('Metacritic').replace('/100', ''),
-      outOf: '100'
-    }
+    ...MAIN_SOURCES.map(({ source, scale }) => {
+      const rating = findRating(ratings, source);
+      return rating
+        ? { source, ...formatRating(rating) }
+        : { source, rating: 'N/A', outOf: source === ROTTEN_TOMATOES_SOURCE ? '' : String(scale) };
+    }),
+    ...ratings
+      .filter((rating) => !MAIN_SOURCES.some(({ source }) => source === rating.source))
+      .map((rating) => ({ source: rating.source, ...formatRating(rating) }))
   ];
 
   return (
@@ -0,0 +1,100 @@
+/**
+ * RecentlyViewed Component
+ * Shows the titles the user opened recently as a strip of posters, shown while
+ * no search is active so they can be reopened without searching again.
+ */
+
+import React, { FC } from 'react';
+import { Box, Button, ButtonBase, IconButton, Typography } from '@mui/material';
+import { Close, Movie as MovieIcon } from '@mui/icons-material';
+import { RecentlyViewedEntry } from '../types';
+import { formatYears } from '../titles/titleText';
+
+interface RecentlyViewedProps {
+  entries: RecentlyViewedEntry[];                   // The titles, newest first
+  onSelect: (entry: RecentlyViewedEntry) => void;   // Opens a title's details
+  onRemove: (entry: RecentlyViewedEntry) => void;   // Removes a title from the strip
+  onClear: () => void;                              // Clears all recently viewed titles
+}
+
+/**
+ * RecentlyViewed Component
+ * @param entries The recently viewed titles
+ * @param onSelect Callback to open a title
+ * @param onRemove Callback to remove a title
+ * @param onClear Callback to clear the titles
+ */
+const RecentlyViewed: FC<RecentlyViewedProps> = ({ entries, onSelect, onRemove, onClear }) => (
+  <Box component="section" aria-labelledby="recently-viewed-title" sx={{ mb: 2 }}>
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+      <Typography id="recently-viewed-title" variant="h6" component="h2">
+        Recently viewed
+      </Typography>
+      <Button size="small" onClick={onClear}>
+        Clear recently viewed
+      </Button>
+    </Box>
+    <Box
+      component="ul"
+      sx={{ display: 'flex', gap: 2, overflowX: 'auto', listStyle: 'none', m: 0, p: 0, pb: 1 }}
+    >
+      {entries.map((entry) => (
+        <Box component="li" key={entry.imdbID} sx={{ position: 'relative', flex: '0 0 112px' }}>
+          <ButtonBase
+            onClick={() => onSelect(entry)}
+            aria-label={`${entry.title} (${formatYears(entry)})`}
+            sx={{ display: 'flex', flexDirection: 'column', alignItems: 'stretch', width: '100%', textAlign: 'left', borderRadius: 1 }}
+          >
+            {/* Poster, or a placeholder when there is none */}
+            {entry.poster ? (
+              <Box
+                component="img"
+                src={entry.poster}
+                alt=""
+                loading="lazy"
+                sx={{ width: '100%', height: 160, objectFit: 'cover', borderRadius: 1 }}
+              />
+            ) : (
+              <Box
+                sx={{
+                  width: '100%',
+                  height: 160,
+                  borderRadius: 1,
+                  bgcolor: 'action.hover',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center'
+                }}
+              >
+                <MovieIcon color="disabled" />
+              </Box>
+            )}
+            <Typography variant="body2" noWrap sx={{ mt: 0.5 }}>
+              {entry.title}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {formatYears(entry)}
+            </Typography>
+          </ButtonBase>
+          <IconButton
+            size="small"
+            aria-label={`Remove ${entry.title} from recently viewed`}
+            onClick={() => onRemove(entry)}
+            sx={{
+              position: 'absolute',
+              top: 4,
+              right: 4,
+              bgcolor: 'results.overlay',
+              color: 'common.white',
+              '&:hover': { bgcolor: 'results.overlayHover' }
+            }}
+          >
+            <Close fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+    </Box>
+  </Box>
+);
+
+export default RecentlyViewed;
@@ -2,7 +2,7 @@
  * SearchBar Component
  * This component provides search functionality for movies, series, or episodes
  */
-import React, { FC, useEffect, useCallback, memo, useState } from 'react';
+import React, { FC, Ref, useEffect, useCallback, memo, useState, useRef, useId } from 'react';
 import {
   Box,
   TextField,
@@ -15,11 +15,34 @@ import {
   Stack,
   FormLabel,
   IconButton,
-  FormHelperText
+  FormHelperText,
+  Button,
+  Collapse,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
+import { Tune } from '@mui/icons-material';
 import YearRangeSlider from './YearRangeSlide';
-import { YearRange } from '../types';
+import SearchHistoryMenu from './SearchHistoryMenu';
+import SearchSuggestions, { MAX_SUGGESTIONS, suggestionId } from './SearchSuggestions';
+import { DetailFilters, Movie, SearchHistoryEntry, YearRange } from '../types';
+import { YearBounds } from '../config/yearBounds';
+import { extractImdbId } from '../api/imdbId';
+import { CONTENT_RATINGS, GENRES, NO_DETAIL_FILTERS, hasDetailFilters } from '../results/detailFilters';
+import { matchingSearches } from '../storage/historyStorage';
+
+// Delay after the last change before an automatic search runs
+export const DEFAULT_DEBOUNCE_MS = 400;
+
+// Shorter queries are not searched automatically (OMDb returns "Too many results.")
+export const DEFAULT_MIN_QUERY_LENGTH = 3;
+
+// Delay after the last change before suggestions are fetched, shorter than the search's
+export const DEFAULT_SUGGESTION_DEBOUNCE_MS = 200;
 
 // Define the types for the props SearchBar component will receive
 interface SearchBarProps {
@@ -27,12 +50,62 @@ interface SearchBarProps {
   setQuery: (query: string) => void;
   onSearch: () => void;
   loading: boolean;
-  yearRange: YearRange;
-  setYearRange: (range: YearRange) => void;
+  yearRange: YearRange | null;                 // The year range filter, or null for any year
+  setYearRange: (range: YearRange | null) => void;
+  yearBounds: YearBounds;                      // The years the year filter can cover
   type: 'movie' | 'series' | 'episode' | '';
   setType: (type: 'movie' | 'series' | 'episode' | '') => void;
+  debounceMs?: number;      // Delay before searching as the user types
+  minQueryLength?: number;  // Minimum query length for automatic searches
+  searchMode?: 'search' | 'title';                    // Keyword search or exact title lookup
+  setSearchMode?: (mode: 'search' | 'title') => void;
+  exactYear?: string;                                 // Optional year for exact title lookups
+  setExactYear?: (year: string) => void;
+  onLookupId?: (imdbID: string) => void;              // Opens a title from a pasted IMDb ID or URL
+  detailFilters?: DetailFilters;                      // Advanced filters run on each result's details
+  setDetailFilters?: (filters: DetailFilters) => void;
+  enrichDetails?: boolean;                            // Whether result details are fetched for the advanced filters
+  setEnrichDetails?: (enabled: boolean) => void;
+  enrichment?: EnrichmentProgress;                    // How far fetching result details has got
+  onExtendEnrichment?: () => void;                    // Raises the request budget for result details
+  inputRef?: Ref<HTMLInputElement>;                   // Ref for the search box, e.g. to focus it from a shortcut
+  searchHistory?: SearchHistoryEntry[];               // Recent searches, suggested under the search box
+  onSelectHistory?: (entry: SearchHistoryEntry) => void;
+  onRemoveHistory?: (entry: SearchHistoryEntry) => void;
+  onClearHistory?: () => void;
+  loadSuggestions?: (query: string, signal: AbortSignal) => Promise<Movie[]>; // Fetches the titles suggested while typing
+  onSelectSuggestion?: (movie: Movie, viaKeyboard: boolean) => void;           // Opens a suggested title
+  suggestionDebounceMs?: number;                      // Delay before fetching suggestions as the user types
+}
+
+/**
+ * Progress of fetching the details of the loaded results.
+ */
+export interface EnrichmentProgress {
+  loaded: number;           // Results whose details have been fetched
+  total: number;            // Results loaded
+  failed?: number;          // Results whose details couldn't be loaded
+  budgetReached: boolean;   // True when the request budget stops further details being fetched
+  loadingPaused?: boolean;  // True when more results aren't loaded until more details are fetched
 }
 
+/**
+ * Parses a number typed into an advanced filter
+ * @param value The typed value
+ * @returns The number, or null when the field is empty or invalid
+ */
+const parseFilterNumber = (value: string): number | null => {
+  const number = parseFloat(value);
+  return value.trim() === '' || isNaN(number) ? null : number;
+};
+
+// Shared styling for the radio buttons on the search bar
+const radioSx = {
+  color: 'searchBar.contrastText',
+  '&.Mui-checked': { color: 'searchBar.contrastText' },
+  padding: '4px'
+};
+
 const SearchBar: FC<SearchBarProps> = ({
   query,
   setQuery,
@@ -40,22 +113,129 @@ const SearchBar: FC<SearchBarProps> = ({
   loading,
   yearRange,
   setYearRange,
+  yearBounds,
   type,
-  setType
+  setType,
+  debounceMs = DEFAULT_DEBOUNCE_MS,
+  minQueryLength = DEFAULT_MIN_QUERY_LENGTH,
+  searchMode = 'search',
+  setSearchMode,
+  exactYear = '',
+  setExactYear,
+  onLookupId,
+  detailFilters = NO_DETAIL_FILTERS,
+  setDetailFilters,
+  enrichDetails = false,
+  setEnrichDetails,
+  enrichment,
+  onExtendEnrichment,
+  inputRef,
+  searchHistory = [],
+  onSelectHistory,
+  onRemoveHistory,
+  onClearHistory,
+  loadSuggestions,
+  onSelectSuggestion,
+  suggestionDebounceMs = DEFAULT_SUGGESTION_DEBOUNCE_MS
 }) => {
   // State to manage search input validation error
   const [error, setError] = useState<string>('');
 
+  // State to show that a debounced search is waiting to run
+  const [waiting, setWaiting] = useState(false);
+
+  // State to show or hide the advanced filters
+  const [advancedOpen, setAdvancedOpen] = useState(false);
+
+  // State to show or hide the suggestions and recent searches under the search box
+  const [menuOpen, setMenuOpen] = useState(false);
+
+  // State for the titles suggested while typing, and the one picked with the arrow keys
+  const [suggestions, setSuggestions] = useState<Movie[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+
+  // Id of the list of suggestions, referenced by the search box
+  const suggestionListId = `search-suggestions-${useId().replace(/:/g, '')}`;
+
+  // Timer for the pending debounced search
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // IMDb ID typed or pasted into the search box, if any
+  const imdbId = onLookupId ? extractImdbId(query) : null;
+
+  /**
+   * Cancels the pending debounced search, if any
+   */
+  const cancelPendingSearch = useCallback(() => {
+    clearTimeout(debounceTimerRef.current);
+    debounceTimerRef.current = undefined;
+    setWaiting(false);
+  }, []);
+
   /**
    * Effect hook to trigger search when filters change
-   * Automatically updates results when type, year range, or query changes
+   * Automatically updates results when type, year range, or query changes,
+   * once the user has paused and the query is long enough. Exact title lookups
+   * only run on Enter or the search button, as a partial title matches nothing.
    */
   useEffect(() => {
-    if (query.trim()) {
-      onSearch();
+    if (!imdbId && (searchMode === 'title' || query.trim().length < minQueryLength)) {
+      cancelPendingSearch();
+      return;
+    }
+
+    setWaiting(true);
+    debounceTimerRef.current = setTimeout(() => {
+      debounceTimerRef.current = undefined;
+      setWaiting(false);
       setError(''); // Clear any previous errors
+      // IMDb IDs and URLs jump straight to the title instead of searching
+      if (imdbId) {
+        onLookupId?.(imdbId);
+      } else {
+        onSearch();
+      }
+    }, debounceMs);
+
+    return () => clearTimeout(debounceTimerRef.current);
+  }, [
+    type, yearRange, query, searchMode, exactYear, imdbId,
+    onSearch, onLookupId, debounceMs, minQueryLength, cancelPendingSearch
+  ]);
+
+  /**
+   * Effect hook to fetch suggestions as the user types
+   * Waits for a shorter pause than the search, and cancels the request when the
+   * user types on. Failures only hide the suggestions, as the search reports errors.
+   */
+  useEffect(() => {
+    const text = query.trim();
+    setActiveSuggestion(-1);
+    if (!loadSuggestions || searchMode !== 'search' || imdbId || text.length < minQueryLength) {
+      setSuggestions(prev => prev.length ? [] : prev);
+      return;
     }
-  }, [type, yearRange, query, onSearch]);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      loadSuggestions(text, controller.signal)
+        .then(movies => {
+          if (!controller.signal.aborted) {
+            setSuggestions(movies.slice(0, MAX_SUGGESTIONS));
+          }
+        })
+        .catch(() => {
+          if (!controller.signal.aborted) {
+            setSuggestions([]);
+          }
+        });
+    }, suggestionDebounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, searchMode, imdbId, minQueryLength, loadSuggestions, suggestionDebounceMs]);
 
   /**
    * Updates the type filter and maintains the controlled component pattern
@@ -66,7 +246,7 @@ const SearchBar: FC<SearchBarProps> = ({
   }, [setType]);
 
   /**
-   * Executes search when the query is valid and not loading
+   * Executes search immediately when the query is valid and not loading
    * Validates search input and sets error message if empty
    */
   const handleSearch = useCallback(() => {
@@ -76,12 +256,25 @@ const SearchBar: FC<SearchBarProps> = ({
       return;
     }
 
-    // Clear any previous errors and execute search
+    // Skip the debounce delay, then clear any previous errors and execute search.
+    // A search still loading is superseded, so there is no need to wait for it.
+    cancelPendingSearch();
+    setMenuOpen(false);
     setError('');
-    if (!loading) {
+    if (imdbId) {
+      onLookupId?.(imdbId);
+    } else {
       onSearch();
     }
-  }, [loading, query, onSearch]);
+  }, [query, imdbId, onSearch, onLookupId, cancelPendingSearch]);
+
+  /**
+   * Updates the optional year for exact title lookups, keeping digits only
+   * @param e - Event from input change
+   */
+  const handleExactYearChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setExactYear?.(e.target.value.replace(/\D/g, '').slice(0, 4));
+  }, [setExactYear]);
 
   /**
    * Handles input change for the search query
@@ -97,21 +290,94 @@ const SearchBar: FC<SearchBarProps> = ({
   }, [setQuery, error]);
 
   /**
-   * Handles the Enter key press event to execute a search
+   * Opens a suggested title. A search still waiting to run is run first, so the
+   * results match the query while the title is open.
+   * @param movie The suggested title
+   * @param viaKeyboard Whether it was opened with Enter
+   */
+  const handleSelectSuggestion = useCallback((movie: Movie, viaKeyboard: boolean) => {
+    setMenuOpen(false);
+    setActiveSuggestion(-1);
+    if (debounceTimerRef.current) {
+      cancelPendingSearch();
+      onSearch();
+    }
+    onSelectSuggestion?.(movie, viaKeyboard);
+  }, [onSearch, onSelectSuggestion, cancelPendingSearch]);
+
+  // Whether the suggestions are showing under the search box
+  const showSuggestions = menuOpen && suggestions.length > 0;
+
+  /**
+   * Handles the Enter key press event to open the active suggestion or execute a search
    * @param e - Key press event from the input
    */
   const handleKeyPress = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
-      handleSearch();
+      if (showSuggestions && suggestions[activeSuggestion]) {
+        handleSelectSuggestion(suggestions[activeSuggestion], true);
+      } else {
+        handleSearch();
+      }
     }
-  }, [handleSearch]);
+  }, [handleSearch, handleSelectSuggestion, showSuggestions, suggestions, activeSuggestion]);
+
+  /**
+   * Moves through the suggestions with the arrow keys, wrapping around at either end
+   * @param e - Key down event from the input
+   */
+  const handleSuggestionKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key !== 'ArrowDown' && e.key !== 'ArrowUp') || suggestions.length === 0) {
+      return;
+    }
+    e.preventDefault();
+    if (!menuOpen) {
+      setMenuOpen(true);
+    }
+    setActiveSuggestion(index => e.key === 'ArrowDown'
+      ? (index + 1) % suggestions.length
+      : (index <= 0 ? suggestions.length : index) - 1);
+  }, [suggestions.length, menuOpen]);
+
+  /**
+   * Runs a search from the history and closes the list of recent searches
+   * @param entry The saved search
+   */
+  const handleSelectHistory = useCallback((entry: SearchHistoryEntry) => {
+    setMenuOpen(false);
+    setError('');
+    onSelectHistory?.(entry);
+  }, [onSelectHistory]);
+
+  /**
+   * Closes the list of recent searches once focus leaves the search box and the list
+   * @param e - Blur event from within the search box area
+   */
+  const handleSearchAreaBlur = useCallback((e: React.FocusEvent<HTMLElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setMenuOpen(false);
+    }
+  }, []);
+
+  // Recent searches matching what has been typed, offered for keyword searches only
+  const historySuggestions = onSelectHistory && searchMode === 'search'
+    ? matchingSearches(searchHistory, query)
+    : [];
+
+  /**
+   * Updates one of the advanced filters
+   * @param changes The filters to change
+   */
+  const updateDetailFilters = useCallback((changes: Partial<DetailFilters>) => {
+    setDetailFilters?.({ ...detailFilters, ...changes });
+  }, [detailFilters, setDetailFilters]);
 
   return (
     <Stack spacing={1}>
       {/* Main Search Container */}
       <Box
         sx={{
-          backgroundColor: '#727272',
+          backgroundColor: 'searchBar.main',
           borderRadius: 1,
           p: 2,
           width: '100%',
@@ -122,60 +388,108 @@ const SearchBar: FC<SearchBarProps> = ({
       >
         {/* Input field for searching movies */}
         <Box sx={{ display: 'flex', flexDirection: 'column', width: '40%' }}>
-          <TextField
-            placeholder="Search Movies"
-            variant="standard"
-            fullWidth
-            value={query}
-            onChange={handleQueryChange}
-            onKeyPress={handleKeyPress}
-            error={!!error}
-            InputProps={{
-              startAdornment: (
-                <InputAdornment position="start">
-                  <IconButton
-                    onClick={handleSearch}
-                    disabled={loading}
-                    size="small"
-                    sx={{
-                      color: 'white',
-                      '&:hover': {
-                        backgroundColor: 'rgba(255, 255, 255, 0.1)'
-                      }
-                    }}
-                    aria-label="Search movies"
-                  >
-                    <SearchIcon />
-                  </IconButton>
-                </InputAdornment>
-              ),
-              disableUnderline: true
-            }}
-            sx={{
-              input: {
-                color: 'white',
-                padding: '20px 0'
-              },
-              '& .MuiInputBase-root': {
-                display: 'flex',
-                alignItems: 'center',
-                backgroundColor: 'transparent'
-              },
-              '& .MuiInputBase-input::placeholder': {
-                color: 'white',
-                opacity: 1
-              },
-              '& .MuiInputAdornment-root': {
-                marginTop: '0'
+          {/* The search box and the recent searches below it */}
+          <Box
+            sx={{ position: 'relative' }}
+            onFocus={() => setMenuOpen(true)}
+            onBlur={handleSearchAreaBlur}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setMenuOpen(false);
+                setActiveSuggestion(-1);
               }
             }}
-          />
+          >
+            <TextField
+              placeholder={searchMode === 'title' ? 'Exact Title' : 'Search Movies'}
+              inputRef={inputRef}
+              inputProps={{
+                'aria-label': searchMode === 'title' ? 'Title to look up' : 'Search',
+                // Announce the search box as a combobox when it suggests titles
+                ...(loadSuggestions && {
+                  role: 'combobox',
+                  'aria-autocomplete': 'list',
+                  'aria-expanded': showSuggestions,
+                  'aria-controls': showSuggestions ? suggestionListId : undefined,
+                  'aria-activedescendant': showSuggestions && activeSuggestion >= 0
+                    ? suggestionId(suggestionListId, activeSuggestion)
+                    : undefined
+                })
+              }}
+              variant="standard"
+              fullWidth
+              value={query}
+              onChange={handleQueryChange}
+              onKeyPress={handleKeyPress}
+              onKeyDown={handleSuggestionKeyDown}
+              error={!!error}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <IconButton
+                      onClick={handleSearch}
+                      size="small"
+                      sx={{
+                        color: 'searchBar.contrastText',
+                        '&:hover': {
+                          backgroundColor: 'searchBar.hover'
+                        }
+                      }}
+                      aria-label="Search movies"
+                    >
+                      <SearchIcon />
+                    </IconButton>
+                  </InputAdornment>
+                ),
+                disableUnderline: true
+              }}
+              sx={{
+                input: {
+                  color: 'searchBar.contrastText',
+                  padding: '20px 0'
+                },
+                '& .MuiInputBase-root': {
+                  display: 'flex',
+                  alignItems: 'center',
+                  backgroundColor: 'transparent'
+                },
+                '& .MuiInputBase-input::placeholder': {
+                  color: 'searchBar.contrastText',
+                  opacity: 1
+                },
+                '& .MuiInputAdornment-root': {
+                  marginTop: '0'
+                }
+              }}
+            />
+            {/* Titles matching the query, or else recent searches matching it */}
+            {showSuggestions && (
+              <SearchSuggestions
+                id={suggestionListId}
+                suggestions={suggestions}
+                activeIndex={activeSuggestion}
+                onSelect={(movie) => handleSelectSuggestion(movie, false)}
+                onActiveIndexChange={setActiveSuggestion}
+              />
+            )}
+            {menuOpen && !showSuggestions && historySuggestions.length > 0 && (
+              <SearchHistoryMenu
+                searches={historySuggestions}
+                onSelect={handleSelectHistory}
+                onRemove={(entry) => onRemoveHistory?.(entry)}
+                onClear={() => {
+                  setMenuOpen(false);
+                  onClearHistory?.();
+                }}
+              />
+            )}
+          </Box>
           {/* Display error message if validation fails */}
           {error && (
             <FormHelperText 
               error 
               sx={{ 
-                color: 'red', 
+                color: 'error.light',
                 marginLeft: 0, 
                 marginTop: '4px' 
               }}
@@ -183,12 +497,71 @@ const SearchBar: FC<SearchBarProps> = ({
               {error}
             </FormHelperText>
           )}
+          {/* Let the user know a search is about to run, or why it won't */}
+          {!error && (
+            <FormHelperText
+              aria-live="polite"
+              sx={{
+                color: 'searchBar.contrastText',
+                marginLeft: 0,
+                marginTop: '4px'
+              }}
+            >
+              {waiting
+                ? imdbId ? `Waiting to open ${imdbId}…` : 'Waiting to search…'
+                : loading
+                  ? 'Searching…'
+                  : searchMode === 'search' && !imdbId && query.trim() && query.trim().length < minQueryLength
+                    ? `Type at least ${minQueryLength} characters or press Enter to search`
+                    : ''}
+            </FormHelperText>
+          )}
+
+          {/* Keyword search or exact title lookup, with an optional year for the latter */}
+          {setSearchMode && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
+              <RadioGroup
+                row
+                value={searchMode}
+                onChange={(e) => setSearchMode(e.target.value as 'search' | 'title')}
+                aria-label="Search mode"
+              >
+                <FormControlLabel
+                  value="search"
+                  control={<Radio size="small" sx={radioSx} />}
+                  label={<Typography sx={{ color: 'searchBar.contrastText', fontSize: '0.9rem' }}>Keyword</Typography>}
+                />
+                <FormControlLabel
+                  value="title"
+                  control={<Radio size="small" sx={radioSx} />}
+                  label={<Typography sx={{ color: 'searchBar.contrastText', fontSize: '0.9rem' }}>Exact title</Typography>}
+                />
+              </RadioGroup>
+              {searchMode === 'title' && setExactYear && (
+                <TextField
+                  placeholder="Year"
+                  variant="standard"
+                  value={exactYear}
+                  onChange={handleExactYearChange}
+                  onKeyPress={handleKeyPress}
+                  inputProps={{ inputMode: 'numeric', 'aria-label': 'Release year' }}
+                  sx={{
+                    width: '72px',
+                    input: { color: 'searchBar.contrastText' },
+                    '& .MuiInputBase-input::placeholder': { color: 'searchBar.contrastText', opacity: 0.8 },
+                    '& .MuiInput-underline:before': { borderBottomColor: 'searchBar.muted' }
+                  }}
+                />
+              )}
+            </Box>
+          )}
         </Box>
 
         {/* Year Range Slider */}
         <YearRangeSlider
           yearRange={yearRange}
           onYearRangeChange={setYearRange}
+          bounds={yearBounds}
         />
 
         {/* Radio Button Group for type selection */}
@@ -197,10 +570,10 @@ const SearchBar: FC<SearchBarProps> = ({
             <FormLabel
               component="legend"
               sx={{
-                color: 'white',
+                color: 'searchBar.contrastText',
                 marginLeft: '4px',
                 '&.Mui-focused': {
-                  color: 'white'
+                  color: 'searchBar.contrastText'
                 }
               }}
             >
@@ -220,64 +593,135 @@ const SearchBar: FC<SearchBarProps> = ({
             >
               <FormControlLabel
                 value=""
-                control={
-                  <Radio
-                    size="small"
-                    sx={{
-                      color: 'white',
-                      '&.Mui-checked': { color: 'white' },
-                      padding: '4px'
-                    }}
-                  />
-                }
-                label={<Typography sx={{ color: 'white', fontSize: '0.9rem' }}>Any</Typography>}
+                control={<Radio size="small" sx={radioSx} />}
+                label={<Typography sx={{ color: 'searchBar.contrastText', fontSize: '0.9rem' }}>Any</Typography>}
               />
               <FormControlLabel
                 value="movie"
-                control={
-                  <Radio
-                    size="small"
-                    sx={{
-                      color: 'white',
-                      '&.Mui-checked': { color: 'white' },
-                      padding: '4px'
-                    }}
-                  />
-                }
-                label={<Typography sx={{ color: 'white', fontSize: '0.9rem' }}>Movies</Typography>}
+                control={<Radio size="small" sx={radioSx} />}
+                label={<Typography sx={{ color: 'searchBar.contrastText', fontSize: '0.9rem' }}>Movies</Typography>}
               />
               <FormControlLabel
                 value="series"
-                control={
-                  <Radio
-                    size="small"
-                    sx={{
-                      color: 'white',
-                      '&.Mui-checked': { color: 'white' },
-                      padding: '4px'
-                    }}
-                  />
-                }
-                label={<Typography sx={{ color: 'white', fontSize: '0.9rem' }}>Series</Typography>}
+                control={<Radio size="small" sx={radioSx} />}
+                label={<Typography sx={{ color: 'searchBar.contrastText', fontSize: '0.9rem' }}>Series</Typography>}
               />
               <FormControlLabel
                 value="episode"
-                control={
-                  <Radio
-                    size="small"
-                    sx={{
-                      color: 'white',
-                      '&.Mui-checked': { color: 'white' },
-                      padding: '4px'
-                    }}
-                  />
-                }
-                label={<Typography sx={{ color: 'white', fontSize: '0.9rem' }}>Episodes</Typography>}
+                control={<Radio size="small" sx={radioSx} />}
+                label={<Typography sx={{ color: 'searchBar.contrastText', fontSize: '0.9rem' }}>Episodes</Typography>}
               />
             </RadioGroup>
           </Box>
         </FormControl>
       </Box>
+
+      {/* Advanced filters, run on the details fetched for each result */}
+      {setDetailFilters && (
+        <Box>
+          <Button
+            size="small"
+            startIcon={<Tune />}
+            aria-expanded={advancedOpen}
+            onClick={() => setAdvancedOpen(open => !open)}
+          >
+            Advanced filters{hasDetailFilters(detailFilters) ? ' (on)' : ''}
+          </Button>
+          <Collapse in={advancedOpen}>
+            <Paper variant="outlined" sx={{ p: 2, mt: 1 }}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={enrichDetails}
+                    onChange={(e) => setEnrichDetails?.(e.target.checked)}
+                  />
+                }
+                label="Fetch details to filter results"
+              />
+              <FormHelperText sx={{ mt: 0, mb: 2 }}>
+                Fetches the details of each loaded result, which takes an extra request per title.
+              </FormHelperText>
+
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
+                <FormControl size="small" sx={{ minWidth: 180 }} disabled={!enrichDetails}>
+                  <InputLabel id="genre-filter-label">Genre</InputLabel>
+                  <Select
+                    labelId="genre-filter-label"
+                    label="Genre"
+                    multiple
+                    value={detailFilters.genres}
+                    onChange={(e) => updateDetailFilters({ genres: e.target.value as string[] })}
+                    renderValue={(genres) => genres.join(', ')}
+                  >
+                    {GENRES.map(genre => (
+                      <MenuItem key={genre} value={genre}>{genre}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Minimum IMDb rating"
+                  disabled={!enrichDetails}
+                  value={detailFilters.minRating ?? ''}
+                  onChange={(e) => updateDetailFilters({ minRating: parseFilterNumber(e.target.value) })}
+                  inputProps={{ min: 0, max: 10, step: 0.5 }}
+                  sx={{ width: 180 }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Maximum runtime (min)"
+                  disabled={!enrichDetails}
+                  value={detailFilters.maxRuntime ?? ''}
+                  onChange={(e) => updateDetailFilters({ maxRuntime: parseFilterNumber(e.target.value) })}
+                  inputProps={{ min: 0, step: 10 }}
+                  sx={{ width: 180 }}
+                />
+                <FormControl size="small" sx={{ minWidth: 160 }} disabled={!enrichDetails}>
+                  <InputLabel id="rated-filter-label">Rated</InputLabel>
+                  <Select
+                    labelId="rated-filter-label"
+                    label="Rated"
+                    multiple
+                    value={detailFilters.rated}
+                    onChange={(e) => updateDetailFilters({ rated: e.target.value as string[] })}
+                    renderValue={(rated) => rated.join(', ')}
+                  >
+                    {CONTENT_RATINGS.map(rating => (
+                      <MenuItem key={rating} value={rating}>{rating}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Button
+                  size="small"
+                  disabled={!hasDetailFilters(detailFilters)}
+                  onClick={() => setDetailFilters(NO_DETAIL_FILTERS)}
+                >
+                  Clear
+                </Button>
+              </Box>
+
+              {/* Let the user know how many results can be filtered so far */}
+              {enrichDetails && enrichment && enrichment.total > 0 && (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+                  <Typography variant="body2" color="textSecondary" aria-live="polite">
+                    Details loaded for {enrichment.loaded} of {enrichment.total} results
+                    {enrichment.failed ? ` (${enrichment.failed} could not be loaded)` : ''}
+                    {enrichment.budgetReached ? ' (request limit reached)' : ''}
+                    {enrichment.loadingPaused ? '. More results load once more details are fetched.' : ''}
+                  </Typography>
+                  {enrichment.budgetReached && onExtendEnrichment && (
+                    <Button size="small" onClick={onExtendEnrichment}>
+                      Fetch more details
+                    </Button>
+                  )}
+                </Box>
+              )}
+            </Paper>
+          </Collapse>
+        </Box>
+      )}
     </Stack>
   );
 };
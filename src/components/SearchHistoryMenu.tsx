@@ -0,0 +1,87 @@
+/**
+ * SearchHistoryMenu Component
+ * Lists recent searches under the search box, to run one again, remove it or
+ * clear the history.
+ */
+
+import React, { FC } from 'react';
+import { Box, Button, IconButton, List, ListItem, ListItemButton, ListItemText, Paper, Typography } from '@mui/material';
+import { Close, History } from '@mui/icons-material';
+import { SearchHistoryEntry } from '../types';
+
+// Labels for the type filter of a saved search
+const TYPE_LABELS: Record<SearchHistoryEntry['type'], string> = {
+  '': 'Any type',
+  movie: 'Movies',
+  series: 'Series',
+  episode: 'Episodes'
+};
+
+/**
+ * Describes the filters a search was run with
+ * @param entry The saved search
+ * @returns A short description, e.g. "Movies · 1980–1989"
+ */
+export const describeSearchFilters = (entry: SearchHistoryEntry): string => {
+  const years = entry.yearRange
+    ? entry.yearRange.startYear === entry.yearRange.endYear
+      ? String(entry.yearRange.startYear)
+      : `${entry.yearRange.startYear}–${entry.yearRange.endYear}`
+    : 'Any year';
+  return `${TYPE_LABELS[entry.type]} · ${years}`;
+};
+
+interface SearchHistoryMenuProps {
+  searches: SearchHistoryEntry[];                 // The searches to list, newest first
+  onSelect: (entry: SearchHistoryEntry) => void;  // Runs a search again
+  onRemove: (entry: SearchHistoryEntry) => void;  // Removes a search from the history
+  onClear: () => void;                            // Clears the whole search history
+}
+
+/**
+ * SearchHistoryMenu Component
+ * @param searches The searches to list
+ * @param onSelect Callback to run a search again
+ * @param onRemove Callback to remove a search
+ * @param onClear Callback to clear the history
+ */
+const SearchHistoryMenu: FC<SearchHistoryMenuProps> = ({ searches, onSelect, onRemove, onClear }) => (
+  <Paper
+    elevation={4}
+    sx={{ position: 'absolute', top: '100%', left: 0, right: 0, zIndex: 'appBar', mt: 0.5 }}
+  >
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', px: 2, pt: 1 }}>
+      <Typography variant="overline" color="text.secondary">
+        Recent searches
+      </Typography>
+      <Button size="small" onClick={onClear}>
+        Clear history
+      </Button>
+    </Box>
+    <List dense aria-label="Search history" sx={{ maxHeight: 320, overflowY: 'auto' }}>
+      {searches.map((entry) => (
+        <ListItem
+          key={`${entry.query}|${entry.type}|${entry.yearRange?.startYear}|${entry.yearRange?.endYear}`}
+          disablePadding
+          secondaryAction={
+            <IconButton
+              edge="end"
+              size="small"
+              aria-label={`Remove "${entry.query}" from search history`}
+              onClick={() => onRemove(entry)}
+            >
+              <Close fontSize="small" />
+            </IconButton>
+          }
+        >
+          <ListItemButton onClick={() => onSelect(entry)}>
+            <History fontSize="small" sx={{ mr: 1.5, color: 'text.secondary' }} />
+            <ListItemText primary={entry.query} secondary={describeSearchFilters(entry)} />
+          </ListItemButton>
+        </ListItem>
+      ))}
+    </List>
+  </Paper>
+);
+
+export default SearchHistoryMenu;
@@ -0,0 +1,103 @@
+/**
+ * SearchSuggestions Component
+ * Lists the best matching titles under the search box while the user types, so a
+ * title can be opened without waiting for the results.
+ */
+
+import React, { FC } from 'react';
+import { Box, List, ListItemButton, ListItemText, Paper } from '@mui/material';
+import { Movie as MovieIcon } from '@mui/icons-material';
+import { Movie } from '../types';
+import { formatYears } from '../titles/titleText';
+
+// Number of titles suggested at most
+export const MAX_SUGGESTIONS = 5;
+
+/**
+ * Builds the id of a suggestion, used as the search box's active descendant
+ * @param listId The id of the list of suggestions
+ * @param index The position of the suggestion
+ * @returns The id of the suggestion's element
+ */
+export const suggestionId = (listId: string, index: number): string => `${listId}-option-${index}`;
+
+interface SearchSuggestionsProps {
+  id: string;                                         // The id of the list, referenced by the search box
+  suggestions: Movie[];                               // The titles to suggest, best match first
+  activeIndex: number;                                // The suggestion picked with the arrow keys, or -1
+  onSelect: (movie: Movie) => void;                   // Opens a suggested title
+  onActiveIndexChange: (index: number) => void;       // Moves the active suggestion, e.g. on hover
+}
+
+/**
+ * SearchSuggestions Component
+ * @param id The id of the list
+ * @param suggestions The titles to suggest
+ * @param activeIndex The active suggestion
+ * @param onSelect Callback to open a title
+ * @param onActiveIndexChange Callback to move the active suggestion
+ */
+const SearchSuggestions: FC<SearchSuggestionsProps> = ({
+  id,
+  suggestions,
+  activeIndex,
+  onSelect,
+  onActiveIndexChange
+}) => (
+  <Paper
+    elevation={4}
+    sx={{ position: 'absolute', top: '100%', left: 0, right: 0, zIndex: 'appBar', mt: 0.5 }}
+  >
+    <List id={id} role="listbox" aria-label="Suggestions" dense disablePadding>
+      {suggestions.map((movie, index) => (
+        <ListItemButton
+          key={movie.imdbID}
+          id={suggestionId(id, index)}
+          component="li"
+          role="option"
+          tabIndex={-1}
+          aria-selected={index === activeIndex}
+          selected={index === activeIndex}
+          // Keep focus in the search box, as the suggestions are picked from there
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onActiveIndexChange(index)}
+          onClick={() => onSelect(movie)}
+        >
+          {/* Poster thumbnail, or a placeholder when there is none */}
+          {movie.poster ? (
+            <Box
+              component="img"
+              src={movie.poster}
+              alt=""
+              loading="lazy"
+              sx={{ width: 32, height: 48, objectFit: 'cover', borderRadius: 0.5, mr: 1.5, flexShrink: 0 }}
+            />
+          ) : (
+            <Box
+              sx={{
+                width: 32,
+                height: 48,
+                borderRadius: 0.5,
+                mr: 1.5,
+                flexShrink: 0,
+                bgcolor: 'action.hover',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center'
+              }}
+            >
+              <MovieIcon fontSize="small" color="disabled" />
+            </Box>
+          )}
+          <ListItemText
+            primary={movie.title}
+            secondary={`${formatYears(movie)} · ${movie.type.charAt(0).toUpperCase()}${movie.type.slice(1)}`}
+            primaryTypographyProps={{ noWrap: true }}
+          />
+        </ListItemButton>
+      ))}
+    </List>
+  </Paper>
+);
+
+export default SearchSuggestions;
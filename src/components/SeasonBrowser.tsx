@@ -0,0 +1,204 @@
+/**
+ * SeasonBrowser Component
+ * This component lets the user pick a season of a series, browse its episodes
+ * and open the details of a single episode.
+ */
+import React, { FC, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Select,
+  Typography
+} from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { Episode, MovieDetail, Season } from '../types';
+import { fetchEpisode, fetchSeason } from '../api/movieApi';
+import { isAbortError } from '../api/abort';
+import { MovieApiError, toMovieApiError } from '../api/apiErrors';
+import MovieRatings from './MovieRatings';
+import { formatRuntime } from '../titles/titleText';
+
+/**
+ * Props for the SeasonBrowser component
+ */
+interface SeasonBrowserProps {
+  series: MovieDetail; // The series being browsed (must have totalSeasons)
+}
+
+/**
+ * The state of a request made by the browser.
+ */
+interface RequestState<T> {
+  data: T | null;
+  loading: boolean;
+  error: MovieApiError | null;
+}
+
+const idle = { data: null, loading: false, error: null };
+
+/**
+ * Shows an error, with a retry button when the error is transient
+ * @param error The error to show
+ * @param onRetry Repeats the failed request
+ */
+const RequestError: FC<{ error: MovieApiError; onRetry: () => void }> = ({ error, onRetry }) => (
+  <Alert
+    severity="error"
+    action={error.transient && (
+      <Button color="inherit" size="small" onClick={onRetry}>
+        Retry
+      </Button>
+    )}
+  >
+    {error.message}
+  </Alert>
+);
+
+// Functional component for the SeasonBrowser
+const SeasonBrowser: FC<SeasonBrowserProps> = ({ series }) => {
+  const totalSeasons = series.totalSeasons ?? 0;
+
+  const [season, setSeason] = useState(1);
+  const [episodeNumber, setEpisodeNumber] = useState<number | null>(null);
+  const [seasonState, setSeasonState] = useState<RequestState<Season>>(idle);
+  const [episodeState, setEpisodeState] = useState<RequestState<Episode>>(idle);
+  // Bumped to repeat a failed request
+  const [seasonAttempt, setSeasonAttempt] = useState(0);
+  const [episodeAttempt, setEpisodeAttempt] = useState(0);
+
+  // Effect to load the episode list whenever the season changes
+  useEffect(() => {
+    const controller = new AbortController();
+    setSeasonState({ data: null, loading: true, error: null });
+
+    fetchSeason(series.imdbID, season, controller.signal)
+      .then((data) => setSeasonState({ data, loading: false, error: null }))
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          setSeasonState({ data: null, loading: false, error: toMovieApiError(error) });
+        }
+      });
+
+    return () => controller.abort();
+  }, [series.imdbID, season, seasonAttempt]);
+
+  // Effect to load the details of the chosen episode
+  useEffect(() => {
+    if (episodeNumber === null) {
+      setEpisodeState(idle);
+      return;
+    }
+
+    const controller = new AbortController();
+    setEpisodeState({ data: null, loading: true, error: null });
+
+    fetchEpisode(series.imdbID, season, episodeNumber, controller.signal)
+      .then((data) => setEpisodeState({ data, loading: false, error: null }))
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          setEpisodeState({ data: null, loading: false, error: toMovieApiError(error) });
+        }
+      });
+
+    return () => controller.abort();
+  }, [series.imdbID, season, episodeNumber, episodeAttempt]);
+
+  /**
+   * Switches to another season, closing any open episode
+   * @param nextSeason The season number
+   */
+  const handleSeasonChange = (nextSeason: number) => {
+    setEpisodeNumber(null);
+    setSeason(nextSeason);
+  };
+
+  // Details of a single episode, with a way back to the episode list
+  if (episodeNumber !== null) {
+    const episode = episodeState.data;
+    return (
+      <Box sx={{ mt: 3 }}>
+        <Button startIcon={<ArrowBack />} onClick={() => setEpisodeNumber(null)} sx={{ mb: 2 }}>
+          Season {season} episodes
+        </Button>
+        {episodeState.loading && <CircularProgress size={24} sx={{ display: 'block', mx: 'auto' }} />}
+        {episodeState.error && (
+          <RequestError error={episodeState.error} onRetry={() => setEpisodeAttempt((attempt) => attempt + 1)} />
+        )}
+        {episode && (
+          <>
+            <Typography variant="h6">
+              S{episode.season}E{episode.episode}: {episode.title}
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1, my: 1, flexWrap: 'wrap' }}>
+              {episode.released && <Chip label={episode.released} />}
+              {episode.runtimeMinutes !== null && <Chip label={formatRuntime(episode.runtimeMinutes)} />}
+              {episode.rated && <Chip label={episode.rated} />}
+            </Box>
+            <Typography variant="body1" paragraph>
+              <strong>Director:</strong> {episode.directors.join(', ') || 'N/A'}
+            </Typography>
+            <Typography variant="body1" paragraph>
+              <strong>Plot:</strong> {episode.plot ?? 'N/A'}
+            </Typography>
+            {/* Each episode has its own ratings */}
+            <MovieRatings movie={episode} />
+          </>
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      {/* Season selector */}
+      <FormControl size="small" sx={{ minWidth: 140, mb: 1 }}>
+        <InputLabel id="season-select-label">Season</InputLabel>
+        <Select
+          labelId="season-select-label"
+          label="Season"
+          value={season}
+          onChange={(event) => handleSeasonChange(Number(event.target.value))}
+        >
+          {Array.from({ length: totalSeasons }, (_, index) => (
+            <MenuItem key={index + 1} value={index + 1}>
+              Season {index + 1}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {seasonState.loading && <CircularProgress size={24} sx={{ display: 'block', mx: 'auto' }} />}
+      {seasonState.error && (
+        <RequestError error={seasonState.error} onRetry={() => setSeasonAttempt((attempt) => attempt + 1)} />
+      )}
+
+      {/* Episode list */}
+      {seasonState.data && (
+        <List dense sx={{ maxHeight: 360, overflow: 'auto' }} aria-label={`Season ${season} episodes`}>
+          {seasonState.data.episodes.map((episode) => (
+            <ListItemButton key={episode.imdbID} onClick={() => setEpisodeNumber(episode.episode)}>
+              <ListItemText
+                primary={`${episode.episode}. ${episode.title}`}
+                secondary={[
+                  episode.released,
+                  episode.imdbRating !== null ? `IMDb ${episode.imdbRating.toFixed(1)}` : null
+                ].filter(Boolean).join(' · ')}
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default SeasonBrowser;
@@ -0,0 +1,66 @@
+/**
+ * ShortcutHelp Component
+ * This component lists the app's keyboard shortcuts in a dialog.
+ */
+import React, { FC } from 'react';
+import {
+  Box,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { SHORTCUTS } from '../keyboard/shortcuts';
+
+/**
+ * Props for the ShortcutHelp component
+ */
+interface ShortcutHelpProps {
+  open: boolean;        // Whether the dialog is shown
+  onClose: () => void;  // Closes the dialog
+}
+
+// Functional component for the ShortcutHelp
+const ShortcutHelp: FC<ShortcutHelpProps> = ({ open, onClose }) => (
+  <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth aria-labelledby="shortcut-help-title">
+    <DialogTitle id="shortcut-help-title">Keyboard shortcuts</DialogTitle>
+    <IconButton
+      aria-label="Close keyboard shortcuts"
+      onClick={onClose}
+      sx={{ position: 'absolute', right: 8, top: 8, color: 'grey.500' }}
+    >
+      <CloseIcon />
+    </IconButton>
+    <DialogContent>
+      <Table size="small" aria-labelledby="shortcut-help-title">
+        <TableBody>
+          {SHORTCUTS.map((shortcut) => (
+            <TableRow key={shortcut.description}>
+              <TableCell component="th" scope="row" sx={{ whiteSpace: 'nowrap' }}>
+                {shortcut.keys.map((key, index) => (
+                  <React.Fragment key={key}>
+                    {index > 0 && ' or '}
+                    <Box
+                      component="kbd"
+                      sx={{ px: 0.75, py: 0.25, border: 1, borderColor: 'divider', borderRadius: 1, fontFamily: 'monospace' }}
+                    >
+                      {key}
+                    </Box>
+                  </React.Fragment>
+                ))}
+              </TableCell>
+              <TableCell>{shortcut.description}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ShortcutHelp;
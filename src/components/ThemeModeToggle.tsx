@@ -0,0 +1,44 @@
+/**
+ * ThemeModeToggle Component
+ * Lets the user switch between the light, dark and system color modes.
+ */
+
+import React, { FC } from 'react';
+import { ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { DarkMode, LightMode, SettingsBrightness } from '@mui/icons-material';
+import { useThemeMode } from '../theme/AppThemeProvider';
+import { ThemeMode } from '../theme/theme';
+
+// Label and icon of each mode
+const MODE_OPTIONS: { mode: ThemeMode; label: string; icon: React.ReactElement }[] = [
+  { mode: 'light', label: 'Light mode', icon: <LightMode fontSize="small" /> },
+  { mode: 'system', label: 'System mode', icon: <SettingsBrightness fontSize="small" /> },
+  { mode: 'dark', label: 'Dark mode', icon: <DarkMode fontSize="small" /> }
+];
+
+/**
+ * ThemeModeToggle Component
+ */
+const ThemeModeToggle: FC = () => {
+  const { mode, setMode } = useThemeMode();
+
+  return (
+    <ToggleButtonGroup
+      size="small"
+      exclusive
+      value={mode}
+      // Clicking the current mode again passes null, which leaves it selected
+      onChange={(e, next: ThemeMode | null) => next && setMode(next)}
+      aria-label="Color mode"
+      sx={{ mr: 1 }}
+    >
+      {MODE_OPTIONS.map(({ mode: option, label, icon }) => (
+        <ToggleButton key={option} value={option} aria-label={label} title={label}>
+          {icon}
+        </ToggleButton>
+      ))}
+    </ToggleButtonGroup>
+  );
+};
+
+export default ThemeModeToggle;
@@ -1,46 +1,351 @@
 /**
  * WatchList Component
- * This component manages user's saved or watched movies
+ * This component manages user's saved or watched movies, with a tab for each of their lists
  */
-import React, { FC } from 'react';
-import { Paper, Typography, List, ListItem, ListItemText, ListItemAvatar, Avatar } from '@mui/material';
-import { Movie } from '../types';
+import React, { FC, DragEvent, FormEvent, useState } from 'react';
+import {
+  Paper,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemAvatar,
+  Avatar,
+  Box,
+  Button,
+  Checkbox,
+  IconButton,
+  Tab,
+  Tabs,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip
+} from '@mui/material';
+import { Add as AddIcon, CompareArrows, Delete as DeleteIcon, DragIndicator, Edit as EditIcon } from '@mui/icons-material';
+import { Movie, NamedList, WatchlistEntry } from '../types';
+import { DEFAULT_LIST_ID } from '../storage/watchlistStorage';
+import { formatYears } from '../titles/titleText';
+import WatchlistTransfer from './WatchlistTransfer';
+
+// Which entries the watchlist is showing
+export type WatchlistFilter = 'all' | 'unwatched' | 'watched';
 
 // Define the types for the props WatchList component will receive
 interface WatchListProps {
-  watchlist: Movie[]; // List of movies in the user's watchlist
+  lists: NamedList[];                                                      // The user's lists
+  activeListId: string;                                                    // ID of the list being shown
+  onSelectList: (listId: string) => void;                                  // Shows another list
+  onCreateList?: (name: string) => string;                                 // Creates a list and returns its ID
+  onRenameList?: (listId: string, name: string) => void;                   // Renames a list
+  onDeleteList?: (listId: string) => void;                                 // Deletes a list
+  onRemove?: (listId: string, imdbID: string) => void;                     // Removes an entry
+  onReorder?: (listId: string, imdbID: string, targetId: string) => void;  // Moves an entry to the position of another
+  onToggleWatched?: (listId: string, imdbID: string) => void;              // Marks an entry as watched or unwatched
+  onNotesChange?: (listId: string, imdbID: string, notes: string) => void; // Updates the notes on an entry
+  onImport?: (listId: string, entries: WatchlistEntry[]) => void;          // Adds imported entries to a list
+  compareIds?: string[];                                                   // IMDb IDs of the titles picked for comparison
+  onToggleCompare?: (movie: Movie) => void;                                // Adds a title to the comparison or takes it out
+  canAddToCompare?: boolean;                                               // False once the comparison is full
 }
 
+/**
+ * Formats the date a movie was watched for display
+ * @param watchedAt ISO date string
+ * @returns The localised date
+ */
+const formatWatchedDate = (watchedAt: string): string => new Date(watchedAt).toLocaleDateString();
+
 // Functional component for the WatchList
-const WatchList: FC<WatchListProps> = ({ watchlist }) => {
+const WatchList: FC<WatchListProps> = ({
+  lists,
+  activeListId,
+  onSelectList,
+  onCreateList,
+  onRenameList,
+  onDeleteList,
+  onRemove,
+  onReorder,
+  onToggleWatched,
+  onNotesChange,
+  onImport,
+  compareIds = [],
+  onToggleCompare,
+  canAddToCompare = true
+}) => {
+  const [filter, setFilter] = useState<WatchlistFilter>('all');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState<string | null>(null); // null while not creating a list
+  const [listName, setListName] = useState<string | null>(null);       // null while not renaming
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const activeList = lists.find(list => list.id === activeListId) ?? lists[0];
+  const listId = activeList.id;
+  const watchlist = activeList.entries;
+  const watchedCount = watchlist.filter(entry => entry.watched).length;
+  const visibleEntries = watchlist.filter(entry =>
+    filter === 'all' || (filter === 'watched' ? entry.watched : !entry.watched)
+  );
+
+  /**
+   * Starts dragging an entry
+   * @param event The drag event
+   * @param imdbID IMDb ID of the entry being dragged
+   */
+  const handleDragStart = (event: DragEvent<HTMLElement>, imdbID: string) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', imdbID);
+    setDraggedId(imdbID);
+  };
+
+  /**
+   * Drops the dragged entry onto another entry, taking its position
+   * @param event The drop event
+   * @param targetId IMDb ID of the entry dropped onto
+   */
+  const handleDrop = (event: DragEvent<HTMLElement>, targetId: string) => {
+    event.preventDefault();
+    const movieId = draggedId ?? event.dataTransfer.getData('text/plain');
+    if (movieId && movieId !== targetId) {
+      onReorder?.(listId, movieId, targetId);
+    }
+    setDraggedId(null);
+  };
+
+  /**
+   * Shows another list, leaving any rename or delete in progress
+   * @param nextListId ID of the list to show
+   */
+  const handleSelectList = (nextListId: string) => {
+    setListName(null);
+    setConfirmingDelete(false);
+    onSelectList(nextListId);
+  };
+
+  /**
+   * Creates a list from the typed name
+   * @param event The form submit event
+   */
+  const handleCreateList = (event: FormEvent) => {
+    event.preventDefault();
+    if (onCreateList && newListName?.trim()) {
+      onCreateList(newListName);
+      setNewListName(null);
+    }
+  };
+
+  /**
+   * Saves the new name of the list being shown
+   * @param event The form submit event
+   */
+  const handleRenameList = (event: FormEvent) => {
+    event.preventDefault();
+    if (onRenameList && listName?.trim()) {
+      onRenameList(listId, listName);
+      setListName(null);
+    }
+  };
+
   return (
     <Paper sx={{ mt: 2, p: 2 }}>
       {/* Display the Watchlist Title */}
       <Typography variant="h6" gutterBottom>
-        My Watchlist ({watchlist.length})
+        My Lists
       </Typography>
 
+      {/* A tab for each list, and a button to create another */}
+      <Box sx={{ display: 'flex', alignItems: 'center', borderBottom: 1, borderColor: 'divider', mb: 2 }}>
+        <Tabs
+          value={listId}
+          onChange={(_, value: string) => handleSelectList(value)}
+          variant="scrollable"
+          scrollButtons="auto"
+          aria-label="Lists"
+          sx={{ flexGrow: 1 }}
+        >
+          {lists.map(list => (
+            <Tab key={list.id} value={list.id} label={`${list.name} (${list.entries.length})`} />
+          ))}
+        </Tabs>
+        {onCreateList && (
+          <Tooltip title="New list">
+            <IconButton aria-label="New list" onClick={() => setNewListName('')}>
+              <AddIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Box>
+
+      {/* Form for naming a new list */}
+      {newListName !== null && (
+        <Box component="form" onSubmit={handleCreateList} sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            autoFocus
+            size="small"
+            fullWidth
+            placeholder="List name, e.g. Friday movie night"
+            value={newListName}
+            onChange={(event) => setNewListName(event.target.value)}
+            inputProps={{ 'aria-label': 'New list name' }}
+          />
+          <Button type="submit" disabled={!newListName.trim()}>Create</Button>
+          <Button onClick={() => setNewListName(null)}>Cancel</Button>
+        </Box>
+      )}
+
+      {/* Rename or delete the list being shown (the default watchlist can't be deleted) */}
+      {listName !== null ? (
+        <Box component="form" onSubmit={handleRenameList} sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            autoFocus
+            size="small"
+            fullWidth
+            value={listName}
+            onChange={(event) => setListName(event.target.value)}
+            inputProps={{ 'aria-label': 'List name' }}
+          />
+          <Button type="submit" disabled={!listName.trim()}>Save</Button>
+          <Button onClick={() => setListName(null)}>Cancel</Button>
+        </Box>
+      ) : confirmingDelete ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+          <Typography variant="body2" sx={{ flexGrow: 1 }}>
+            Delete "{activeList.name}" and its {watchlist.length} {watchlist.length === 1 ? 'title' : 'titles'}?
+          </Typography>
+          <Button color="error" onClick={() => { setConfirmingDelete(false); onDeleteList?.(listId); }}>
+            Delete
+          </Button>
+          <Button onClick={() => setConfirmingDelete(false)}>Cancel</Button>
+        </Box>
+      ) : (onRenameList || onDeleteList) && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          {onRenameList && (
+            <Button size="small" startIcon={<EditIcon />} onClick={() => setListName(activeList.name)}>
+              Rename
+            </Button>
+          )}
+          {onDeleteList && listId !== DEFAULT_LIST_ID && (
+            <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={() => setConfirmingDelete(true)}>
+              Delete list
+            </Button>
+          )}
+        </Box>
+      )}
+
+      {/* Export the list or import entries from a file */}
+      {onImport && <WatchlistTransfer key={listId} list={activeList} onImport={(entries) => onImport(listId, entries)} />}
+
+      {/* Filter between all, unwatched and watched entries */}
+      {watchlist.length > 0 && (
+        <ToggleButtonGroup
+          value={filter}
+          exclusive
+          size="small"
+          onChange={(_, value: WatchlistFilter | null) => value && setFilter(value)}
+          aria-label="Filter watchlist"
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="all">All</ToggleButton>
+          <ToggleButton value="unwatched">Unwatched ({watchlist.length - watchedCount})</ToggleButton>
+          <ToggleButton value="watched">Watched ({watchedCount})</ToggleButton>
+        </ToggleButtonGroup>
+      )}
+
       {/* Check if the watchlist is empty */}
       {watchlist.length === 0 ? (
         // If the watchlist is empty display "WatchList is empty"
         <Typography variant="body2" color="textSecondary">
-          Your watchlist is empty. Add movies to your watchlist to see them here.
+          {listId === DEFAULT_LIST_ID
+            ? 'Your watchlist is empty. Add movies to your watchlist to see them here.'
+            : 'This list is empty. Add movies to it from the list picker next to the Watchlist button.'}
+        </Typography>
+      ) : visibleEntries.length === 0 ? (
+        <Typography variant="body2" color="textSecondary">
+          {filter === 'watched' ? 'You haven\'t marked any movies as watched yet.' : 'You have watched everything on this list.'}
         </Typography>
       ) : (
         /* Display the list of movies in the watchlist */
-        <List sx={{ maxHeight: 300, overflow: 'auto' }}>
-          {watchlist.map((movie) => (
-            <ListItem key={movie.imdbID}>
-               {/* Display the movie's poster image */}
+        <List sx={{ maxHeight: 400, overflow: 'auto' }}>
+          {visibleEntries.map((entry) => (
+            <ListItem
+              key={entry.imdbID}
+              draggable={Boolean(onReorder)}
+              onDragStart={(event) => handleDragStart(event, entry.imdbID)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => handleDrop(event, entry.imdbID)}
+              onDragEnd={() => setDraggedId(null)}
+              sx={{ flexWrap: 'wrap', opacity: draggedId === entry.imdbID ? 0.5 : 1 }}
+              secondaryAction={onRemove && (
+                <Tooltip title="Remove from watchlist">
+                  <IconButton
+                    edge="end"
+                    aria-label={`Remove ${entry.title} from watchlist`}
+                    onClick={() => onRemove(listId, entry.imdbID)}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </Tooltip>
+              )}
+            >
+              {/* Handle used to drag the entry to a new position */}
+              {onReorder && <DragIndicator color="action" sx={{ mr: 1, cursor: 'grab' }} />}
+              {/* Display the movie's poster image */}
               <ListItemAvatar>
                 <Avatar
-                  alt={movie.Title}
-                  src={movie.Poster !== 'N/A' ? movie.Poster : '/placeholder.png'}
+                  alt={entry.title}
+                  src={entry.poster ?? '/placeholder.png'}
                   variant="rounded"
                 />
               </ListItemAvatar>
-              {/* Display the movie title and year of the movie added */}
-              <ListItemText primary={movie.Title} secondary={movie.Year} />
+              {/* Display the movie title, year and when it was watched */}
+              <ListItemText
+                primary={entry.title}
+                secondary={entry.watched && entry.watchedAt
+                  ? `${formatYears(entry)} · Watched ${formatWatchedDate(entry.watchedAt)}`
+                  : formatYears(entry)}
+              />
+              {/* Add the title to the comparison */}
+              {onToggleCompare && (
+                <Tooltip title={compareIds.includes(entry.imdbID) ? 'Remove from comparison' : 'Add to comparison'}>
+                  <span>
+                    <IconButton
+                      aria-label={`Compare ${entry.title}`}
+                      aria-pressed={compareIds.includes(entry.imdbID)}
+                      color={compareIds.includes(entry.imdbID) ? 'primary' : 'default'}
+                      disabled={!compareIds.includes(entry.imdbID) && !canAddToCompare}
+                      onClick={() => onToggleCompare(entry)}
+                    >
+                      <CompareArrows />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              )}
+              {/* Toggle the watched status */}
+              {onToggleWatched && (
+                <Tooltip title={entry.watched ? 'Mark as unwatched' : 'Mark as watched'}>
+                  <Checkbox
+                    checked={entry.watched}
+                    onChange={() => onToggleWatched(listId, entry.imdbID)}
+                    inputProps={{ 'aria-label': `Watched ${entry.title}` }}
+                    sx={{ mr: onRemove ? 4 : 0 }}
+                  />
+                </Tooltip>
+              )}
+              {/* Free-text notes about the movie */}
+              {onNotesChange && (
+                <Box sx={{ flexBasis: '100%', pl: onReorder ? 4 : 0 }}>
+                  <TextField
+                    fullWidth
+                    multiline
+                    size="small"
+                    variant="standard"
+                    placeholder="Add notes"
+                    value={entry.notes}
+                    onChange={(event) => onNotesChange(listId, entry.imdbID, event.target.value)}
+                    inputProps={{ 'aria-label': `Notes for ${entry.title}` }}
+                  />
+                </Box>
+              )}
             </ListItem>
           ))}
         </List>
@@ -49,4 +354,4 @@ const WatchList: FC<WatchListProps> = ({ watchlist }) => {
   );
 };
 
-export default WatchList;
\ No newline at end of file
+export default WatchList;
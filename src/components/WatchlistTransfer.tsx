@@ -0,0 +1,178 @@
+/**
+ * WatchlistTransfer Component
+ * This component exports a list to a file and previews imported files before adding them.
+ */
+import React, { ChangeEvent, FC, useRef, useState } from 'react';
+import { Alert, Box, Button, ButtonGroup, List, ListItem, ListItemText, Typography } from '@mui/material';
+import { FileDownloadOutlined, FileUploadOutlined } from '@mui/icons-material';
+import { NamedList, WatchlistEntry } from '../types';
+import { formatYears } from '../titles/titleText';
+import {
+  EXPORT_FORMATS,
+  WatchlistExportFormat,
+  WatchlistImportPreview,
+  exportWatchlist,
+  previewWatchlistImport
+} from '../storage/watchlistTransfer';
+
+/**
+ * Props for the WatchlistTransfer component
+ */
+interface WatchlistTransferProps {
+  list: NamedList;                                 // The list being exported or imported into
+  onImport: (entries: WatchlistEntry[]) => void;   // Adds the confirmed entries to the list
+}
+
+/**
+ * Reads the contents of a file as text
+ * @param file The file to read
+ * @returns A promise that resolves to the file contents
+ */
+const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+/**
+ * Saves text to a file through the browser's download prompt
+ * @param contents The file contents
+ * @param fileName The suggested file name
+ * @param mimeType The file type
+ */
+const downloadFile = (contents: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers (e.g. Firefox and Safari) cancel the download if the URL is revoked straight away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Builds a file name from a list name
+ * @param name The list name
+ * @returns The name in lower case with runs of other characters replaced by dashes
+ */
+const toFileName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'watchlist';
+
+// Functional component for exporting and importing a list
+const WatchlistTransfer: FC<WatchlistTransferProps> = ({ list, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<WatchlistImportPreview | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  /**
+   * Exports the list in the chosen format
+   * @param format The export format
+   */
+  const handleExport = (format: WatchlistExportFormat) => {
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    const suffix = format === 'letterboxd' ? '-letterboxd' : '';
+    downloadFile(exportWatchlist(list, format), `${toFileName(list.name)}${suffix}.${extension}`, mimeType);
+  };
+
+  /**
+   * Reads the chosen file and shows a preview of what it would add
+   * @param event The file input change event
+   */
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so choosing the same file again still triggers a change
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      setReadError(null);
+      setPreview(previewWatchlistImport(await readFileText(file), list.entries));
+    } catch {
+      setPreview(null);
+      setReadError('The file could not be read.');
+    }
+  };
+
+  /**
+   * Adds the previewed entries to the list
+   */
+  const handleConfirmImport = () => {
+    if (preview) {
+      onImport(preview.added);
+    }
+    setPreview(null);
+  };
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {/* Export and import buttons */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        <ButtonGroup size="small" variant="outlined" aria-label="Export watchlist" disabled={list.entries.length === 0}>
+          {(Object.keys(EXPORT_FORMATS) as WatchlistExportFormat[]).map((format) => (
+            <Button key={format} startIcon={<FileDownloadOutlined />} onClick={() => handleExport(format)}>
+              {EXPORT_FORMATS[format].label}
+            </Button>
+          ))}
+        </ButtonGroup>
+        <Button size="small" startIcon={<FileUploadOutlined />} onClick={() => fileInputRef.current?.click()}>
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          hidden
+          data-testid="watchlist-import-input"
+          onChange={handleFileChange}
+        />
+      </Box>
+
+      {readError && <Alert severity="error" sx={{ mt: 1 }}>{readError}</Alert>}
+
+      {/* Preview of the entries the import will add */}
+      {preview && (
+        <Box sx={{ mt: 1, p: 1, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+          <Typography variant="subtitle2">
+            {preview.added.length === 0
+              ? 'Nothing new to import'
+              : `${preview.added.length} ${preview.added.length === 1 ? 'title' : 'titles'} will be added`}
+          </Typography>
+          {preview.duplicates > 0 && (
+            <Typography variant="body2" color="textSecondary">
+              {preview.duplicates} already in this list will be skipped
+            </Typography>
+          )}
+          {preview.added.length > 0 && (
+            <List dense sx={{ maxHeight: 150, overflow: 'auto' }}>
+              {preview.added.map((entry) => (
+                <ListItem key={entry.imdbID} disableGutters>
+                  <ListItemText primary={entry.title} secondary={formatYears(entry)} />
+                </ListItem>
+              ))}
+            </List>
+          )}
+          {preview.errors.length > 0 && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              {preview.errors.length} {preview.errors.length === 1 ? 'row was' : 'rows were'} skipped:
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {preview.errors.map((error) => <li key={error}>{error}</li>)}
+              </Box>
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+            <Button size="small" onClick={() => setPreview(null)}>Cancel</Button>
+            <Button size="small" variant="contained" disabled={preview.added.length === 0} onClick={handleConfirmImport}>
+              Import {preview.added.length > 0 ? preview.added.length : ''}
+            </Button>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default WatchlistTransfer;
@@ -1,43 +1,77 @@
 /**
  * YearRange Component
- * This component displays a selectable range of years from 1970 to 2024.
- * It allows the user to select a range of years using a slider.
+ * This component displays a selectable range of years between the configured bounds.
+ * It allows the user to select a range of years using a slider, by typing the
+ * start and end years, or with a decade preset, and to turn the filter off.
  */
 
-import React from 'react';
-import { Box, Slider, Typography } from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { Box, Checkbox, Chip, FormControlLabel, Slider, TextField, Typography } from '@mui/material';
 import { styled } from '@mui/material/styles';
 import { YearRange } from '../types';
+import { YearBounds, clampYearRange, decadePresets } from '../config/yearBounds';
 
 // Custom styled component for the slider label
 const SliderLabel = styled(Typography)({
-    fontSize: '0.875rem',
-    color: 'white',
-    marginBottom: '8px'
+    fontSize: '0.875rem'
 });
 
+// Styling for the start and end year inputs
+const yearInputSx = {
+    width: '44px',
+    flexShrink: 0,
+    input: { color: 'searchBar.contrastText', fontSize: '0.75rem', textAlign: 'center', padding: '2px 0' },
+    '& .MuiInput-underline:before': { borderBottomColor: 'searchBar.muted' },
+    '& .Mui-disabled input': { color: 'searchBar.muted', WebkitTextFillColor: 'currentColor' }
+};
+
 interface YearRangeSliderProps {
-    yearRange: YearRange; // The current year range selected by the user
-    onYearRangeChange: (range: YearRange) => void; // Callback function to handle year range change
+    yearRange: YearRange | null; // The current year range selected by the user, or null for any year
+    onYearRangeChange: (range: YearRange | null) => void; // Callback function to handle year range change
+    bounds: YearBounds; // The earliest and latest years that can be selected
 }
 
 /**
  * YearRangeSlider Component
  * This component renders a slider for selecting a year range.
- * It provides a visual slider between 1970 and 2024 for the user to choose a range.
- * 
- * @param yearRange The current selected year range (startYear and endYear)
+ * It provides a visual slider between the bounds for the user to choose a range,
+ * inputs for typing the years, decade presets and an "Any year" option.
+ *
+ * @param yearRange The current selected year range (startYear and endYear), or null for any year
  * @param onYearRangeChange Callback function to update the parent component with the new year range
+ * @param bounds The earliest and latest years that can be selected
  */
 const YearRangeSlider: React.FC<YearRangeSliderProps> = ({
     yearRange,
-    onYearRangeChange
+    onYearRangeChange,
+    bounds
 }) => {
-    // Constants for slider configuration
-    const MIN_YEAR = 1970;
-    const MAX_YEAR = 2024;
     const STEP = 1; // Step interval for the slider
 
+    // The last range chosen, restored when "Any year" is switched off again
+    const [lastRange, setLastRange] = useState<YearRange>(
+        () => yearRange ?? { startYear: bounds.minYear, endYear: bounds.maxYear }
+    );
+
+    // The start and end years as typed, applied once they are complete
+    const [startText, setStartText] = useState('');
+    const [endText, setEndText] = useState('');
+
+    const anyYear = yearRange === null;
+    const shownRange = yearRange ?? lastRange;
+
+    // Effect to remember the range and show it in the inputs
+    useEffect(() => {
+        if (yearRange) {
+            setLastRange(yearRange);
+        }
+    }, [yearRange]);
+
+    useEffect(() => {
+        setStartText(String(shownRange.startYear));
+        setEndText(String(shownRange.endYear));
+    }, [shownRange.startYear, shownRange.endYear]);
+
     /**
      * Handle the change in slider values
      * @param event The change event from the slider
@@ -50,66 +84,146 @@ const YearRangeSlider: React.FC<YearRangeSliderProps> = ({
         onYearRangeChange({ startYear, endYear });
     };
 
+    /**
+     * Applies a typed year, or restores the current one if it isn't a valid year
+     * @param edge Which end of the range was typed
+     */
+    const commitYear = (edge: 'startYear' | 'endYear') => {
+        const text = edge === 'startYear' ? startText : endText;
+        if (!/^\d{4}$/.test(text.trim())) {
+            setStartText(String(shownRange.startYear));
+            setEndText(String(shownRange.endYear));
+            return;
+        }
+        const range = clampYearRange({ ...shownRange, [edge]: parseInt(text, 10) }, bounds);
+        setStartText(String(range.startYear));
+        setEndText(String(range.endYear));
+        if (range.startYear !== shownRange.startYear || range.endYear !== shownRange.endYear) {
+            onYearRangeChange(range);
+        }
+    };
+
+    /**
+     * Applies a typed year when Enter is pressed
+     * @param edge Which end of the range was typed
+     */
+    const handleYearKeyDown = (edge: 'startYear' | 'endYear') => (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            commitYear(edge);
+        }
+    };
+
     return (
-        <Box sx={{ width: '250px', px: 1 }}>
-            {/* Display the label for the slider */}
-            <SliderLabel id="year-range-slider-label">YEAR</SliderLabel>
-            <Box sx={{ 
-                display: 'flex', 
-                alignItems: 'center', 
+        <Box sx={{ width: '300px', px: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                {/* Display the label for the slider */}
+                <SliderLabel id="year-range-slider-label" sx={{ color: 'searchBar.contrastText' }}>YEAR</SliderLabel>
+
+                {/* Turns the year filter off */}
+                <FormControlLabel
+                    control={
+                        <Checkbox
+                            size="small"
+                            checked={anyYear}
+                            onChange={(e) => onYearRangeChange(e.target.checked ? null : lastRange)}
+                            sx={{ color: 'searchBar.contrastText', padding: '2px', '&.Mui-checked': { color: 'searchBar.contrastText' } }}
+                        />
+                    }
+                    label={<Typography sx={{ color: 'searchBar.contrastText', fontSize: '0.75rem' }}>Any year</Typography>}
+                    sx={{ mr: 0 }}
+                />
+            </Box>
+            <Box sx={{
+                display: 'flex',
+                alignItems: 'center',
                 gap: 2,
             }}>
-                {/* Start year label */}
-                <Typography 
-                    sx={{ 
-                        color: 'white',
-                        fontSize: '0.75rem',
-                        minWidth: '32px'
-                    }}
-                >
-                    {MIN_YEAR}
-                </Typography>
-                
+                {/* Start year input */}
+                <TextField
+                    variant="standard"
+                    value={startText}
+                    disabled={anyYear}
+                    onChange={(e) => setStartText(e.target.value)}
+                    onBlur={() => commitYear('startYear')}
+                    onKeyDown={handleYearKeyDown('startYear')}
+                    inputProps={{ inputMode: 'numeric', maxLength: 4, 'aria-label': 'Start year' }}
+                    sx={yearInputSx}
+                />
+
                 {/* Display the year range slider */}
                 <Slider
-                    value={[yearRange.startYear, yearRange.endYear]}
+                    value={[shownRange.startYear, shownRange.endYear]}
                     onChange={handleChange}
+                    disabled={anyYear}
                     valueLabelDisplay="auto"
-                    min={MIN_YEAR}
-                    max={MAX_YEAR}
+                    min={bounds.minYear}
+                    max={bounds.maxYear}
                     step={STEP}
                     aria-labelledby="year-range-slider-label"
                     sx={{
-                        color: 'white',
+                        color: 'searchBar.contrastText',
                         '& .MuiSlider-thumb': {
-                            backgroundColor: 'white',
+                            backgroundColor: 'searchBar.contrastText',
                         },
                         '& .MuiSlider-track': {
-                            backgroundColor: 'white',
+                            backgroundColor: 'searchBar.contrastText',
                         },
                         '& .MuiSlider-rail': {
-                            backgroundColor: 'rgba(255, 255, 255, 0.3)',
+                            backgroundColor: 'searchBar.track',
                         },
                         '& .MuiSlider-valueLabel': {
-                            backgroundColor: 'white',
-                            color: 'black',
+                            backgroundColor: 'searchBar.contrastText',
+                            color: 'common.black',
+                        },
+                        '&.Mui-disabled': {
+                            color: 'searchBar.muted',
                         }
                     }}
                 />
-                
-                {/* End year label */}
-                <Typography 
-                    sx={{ 
-                        color: 'white',
-                        fontSize: '0.75rem',
-                        minWidth: '32px'
-                    }}
-                >
-                    {MAX_YEAR}
-                </Typography>
+
+                {/* End year input */}
+                <TextField
+                    variant="standard"
+                    value={endText}
+                    disabled={anyYear}
+                    onChange={(e) => setEndText(e.target.value)}
+                    onBlur={() => commitYear('endYear')}
+                    onKeyDown={handleYearKeyDown('endYear')}
+                    inputProps={{ inputMode: 'numeric', maxLength: 4, 'aria-label': 'End year' }}
+                    sx={yearInputSx}
+                />
+            </Box>
+
+            {/* Decade presets */}
+            <Box role="group" aria-label="Decades" sx={{ display: 'flex', gap: 0.5, mt: 0.5 }}>
+                {decadePresets(bounds).map((preset) => {
+                    const active = !anyYear &&
+                        shownRange.startYear === preset.range.startYear &&
+                        shownRange.endYear === preset.range.endYear;
+                    return (
+                        <Chip
+                            key={preset.name}
+                            label={preset.label}
+                            size="small"
+                            variant={active ? 'filled' : 'outlined'}
+                            onClick={() => onYearRangeChange(preset.range)}
+                            aria-label={preset.name}
+                            aria-pressed={active}
+                            sx={{
+                                height: '20px',
+                                fontSize: '0.7rem',
+                                color: active ? 'common.black' : 'searchBar.contrastText',
+                                borderColor: 'searchBar.muted',
+                                backgroundColor: active ? 'searchBar.contrastText' : 'transparent',
+                                '& .MuiChip-label': { px: '6px' },
+                                '&&:hover': { backgroundColor: active ? 'searchBar.contrastText' : 'searchBar.hover' }
+                            }}
+                        />
+                    );
+                })}
             </Box>
         </Box>
     );
 };
 
-export default YearRangeSlider;
\ No newline at end of file
+export default YearRangeSlider;
@@ -0,0 +1,31 @@
+/**
+ * Year Bounds Tests
+ * Covers reading the bounds from the environment, clamping ranges and decade presets.
+ */
+
+import { DEFAULT_MIN_YEAR, clampYearRange, decadePresets, getYearBounds } from './yearBounds';
+
+describe('yearBounds', () => {
+  test('defaults to the earliest films and the current year', () => {
+    expect(getYearBounds({}, new Date(2031, 5, 1))).toEqual({ minYear: DEFAULT_MIN_YEAR, maxYear: 2031 });
+  });
+
+  test('reads the bounds from the environment and ignores invalid values', () => {
+    expect(getYearBounds({ REACT_APP_MIN_YEAR: '1920', REACT_APP_MAX_YEAR: '2030' })).toEqual({ minYear: 1920, maxYear: 2030 });
+    expect(getYearBounds({ REACT_APP_MIN_YEAR: 'soon' }, new Date(2026, 0, 1))).toEqual({ minYear: DEFAULT_MIN_YEAR, maxYear: 2026 });
+  });
+
+  test('keeps year ranges within the bounds and in order', () => {
+    const bounds = { minYear: 1900, maxYear: 2026 };
+    expect(clampYearRange({ startYear: 2040, endYear: 1850 }, bounds)).toEqual({ startYear: 1900, endYear: 2026 });
+  });
+
+  test('offers the most recent decades, ending at the latest year', () => {
+    const presets = decadePresets({ minYear: 1888, maxYear: 2026 }, 3);
+    expect(presets.map((preset) => preset.label)).toEqual(['00s', '10s', '20s']);
+    expect(presets[2]).toEqual({ label: '20s', name: '2020s', range: { startYear: 2020, endYear: 2026 } });
+
+    // Decades before the earliest year are left out
+    expect(decadePresets({ minYear: 2005, maxYear: 2026 }).map((preset) => preset.name)).toEqual(['2000s', '2010s', '2020s']);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Year Bounds
+ * The earliest and latest years the year filter offers, read from the environment
+ * (REACT_APP_MIN_YEAR and REACT_APP_MAX_YEAR). The latest year defaults to the
+ * current one, worked out when the app runs.
+ */
+import { YearRange } from '../types';
+
+// Earliest year offered unless REACT_APP_MIN_YEAR overrides it (the first surviving films date from 1888)
+export const DEFAULT_MIN_YEAR = 1888;
+
+// Number of decade presets offered, counting back from the latest decade
+export const DECADE_PRESET_COUNT = 7;
+
+/**
+ * The range of years the year filter can cover.
+ */
+export interface YearBounds {
+  minYear: number;  // The earliest selectable year
+  maxYear: number;  // The latest selectable year
+}
+
+/**
+ * A decade that can be picked with one click.
+ */
+export interface DecadePreset {
+  label: string;      // Short label, e.g. "80s"
+  name: string;       // Full name, e.g. "1980s"
+  range: YearRange;   // The years the decade covers within the bounds
+}
+
+/**
+ * Parses a year setting
+ * @param value The raw setting
+ * @returns The year, or null if missing or invalid
+ */
+const parseYear = (value: string | undefined): number | null =>
+  value && /^\d{4}$/.test(value.trim()) ? parseInt(value, 10) : null;
+
+/**
+ * Reads the year bounds from the environment
+ * @param env The environment variables (defaults to process.env)
+ * @param now The current date (defaults to today)
+ * @returns The year bounds
+ */
+export const getYearBounds = (
+  env: Record<string, string | undefined> = process.env,
+  now: Date = new Date()
+): YearBounds => {
+  const minYear = parseYear(env.REACT_APP_MIN_YEAR) ?? DEFAULT_MIN_YEAR;
+  const maxYear = parseYear(env.REACT_APP_MAX_YEAR) ?? now.getFullYear();
+  return { minYear: Math.min(minYear, maxYear), maxYear: Math.max(minYear, maxYear) };
+};
+
+/**
+ * Keeps a year within the bounds
+ * @param year The year
+ * @param bounds The year bounds
+ * @returns The nearest year within the bounds
+ */
+export const clampYear = (year: number, bounds: YearBounds): number =>
+  Math.min(bounds.maxYear, Math.max(bounds.minYear, year));
+
+/**
+ * Keeps a year range within the bounds, swapping the years if they are in the wrong order
+ * @param range The year range
+ * @param bounds The year bounds
+ * @returns The year range within the bounds
+ */
+export const clampYearRange = (range: YearRange, bounds: YearBounds): YearRange => {
+  const startYear = clampYear(Math.min(range.startYear, range.endYear), bounds);
+  const endYear = clampYear(Math.max(range.startYear, range.endYear), bounds);
+  return { startYear, endYear };
+};
+
+/**
+ * Lists the most recent decades within the bounds, oldest first
+ * @param bounds The year bounds
+ * @param count The number of decades to list
+ * @returns The decade presets
+ */
+export const decadePresets = (bounds: YearBounds, count: number = DECADE_PRESET_COUNT): DecadePreset[] => {
+  const latestDecade = Math.floor(bounds.maxYear / 10) * 10;
+  const presets: DecadePreset[] = [];
+
+  for (let decade = latestDecade; presets.length < count && decade + 9 >= bounds.minYear; decade -= 10) {
+    presets.unshift({
+      label: `${String(decade).slice(2)}s`,
+      name: `${decade}s`,
+      range: clampYearRange({ startYear: decade, endYear: decade + 9 }, bounds)
+    });
+  }
+  return presets;
+};
@@ -0,0 +1,33 @@
+/**
+ * Keyboard Shortcuts Tests
+ * Covers telling shortcuts apart from typing and modified key presses.
+ */
+
+import { isShortcutEvent, isTypingTarget } from './shortcuts';
+
+describe('shortcuts', () => {
+  test('treats text fields as typing targets but not checkboxes or buttons', () => {
+    const text = document.createElement('input');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+
+    expect(isTypingTarget(text)).toBe(true);
+    expect(isTypingTarget(document.createElement('textarea'))).toBe(true);
+    expect(isTypingTarget(checkbox)).toBe(false);
+    expect(isTypingTarget(document.createElement('button'))).toBe(false);
+    expect(isTypingTarget(null)).toBe(false);
+  });
+
+  test('ignores key presses with modifiers other than Shift', () => {
+    const target = document.createElement('div');
+    const press = (init: KeyboardEventInit) => {
+      const event = new KeyboardEvent('keydown', init);
+      Object.defineProperty(event, 'target', { value: target });
+      return event;
+    };
+
+    expect(isShortcutEvent(press({ key: '?', shiftKey: true }))).toBe(true);
+    expect(isShortcutEvent(press({ key: 'w', ctrlKey: true }))).toBe(false);
+    expect(isShortcutEvent(press({ key: '/', metaKey: true }))).toBe(false);
+  });
+});
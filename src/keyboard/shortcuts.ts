@@ -0,0 +1,59 @@
+/**
+ * Keyboard Shortcuts
+ * The app's keyboard shortcuts, shown in the shortcut help, and helpers for
+ * deciding when a key press is a shortcut rather than typing.
+ */
+import { KeyboardEvent as ReactKeyboardEvent } from 'react';
+
+/**
+ * A keyboard shortcut as shown in the help.
+ */
+export interface Shortcut {
+  keys: string[];       // Alternative keys, e.g. ['↓', 'j']
+  description: string;  // What the shortcut does
+}
+
+// Keys of the shortcuts handled across the whole app
+export const FOCUS_SEARCH_KEY = '/';
+export const TOGGLE_WATCHLIST_KEY = 'w';
+export const SHOW_SHORTCUTS_KEY = '?';
+
+// Keys that move through the result list
+export const NEXT_RESULT_KEYS = ['ArrowDown', 'j'];
+export const PREVIOUS_RESULT_KEYS = ['ArrowUp', 'k'];
+
+// Every shortcut, in the order they are listed in the help
+export const SHORTCUTS: Shortcut[] = [
+  { keys: [FOCUS_SEARCH_KEY], description: 'Focus the search box' },
+  { keys: ['↓', 'j'], description: 'Next result' },
+  { keys: ['↑', 'k'], description: 'Previous result' },
+  { keys: ['Home', 'End'], description: 'First or last result' },
+  { keys: ['Enter'], description: 'Open the details of a result' },
+  { keys: ['Esc'], description: 'Go back from the details to the results' },
+  { keys: [TOGGLE_WATCHLIST_KEY], description: 'Add the open title to the watchlist, or remove it' },
+  { keys: [SHOW_SHORTCUTS_KEY], description: 'Show these shortcuts' }
+];
+
+/**
+ * Checks whether a key press is aimed at a field the user types into, where
+ * single-key shortcuts must not fire
+ * @param target The element the key press happened on
+ * @returns True for text inputs, text areas, selects and editable content
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'button', 'submit', 'reset', 'range'].includes(target.type);
+  }
+  return target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement || Boolean(target.isContentEditable);
+};
+
+/**
+ * Checks whether a key press could be a single-key shortcut
+ * @param event The key press
+ * @returns True when no modifier other than Shift is held and the user isn't typing
+ */
+export const isShortcutEvent = (event: KeyboardEvent | ReactKeyboardEvent): boolean =>
+  !event.ctrlKey && !event.metaKey && !event.altKey && !isTypingTarget(event.target);
@@ -0,0 +1,72 @@
+/**
+ * Metadata Provider
+ * The interface a source of title metadata implements. `movieApi` caches and
+ * de-duplicates requests in front of whichever provider is configured, so a new
+ * source (TMDB, a local fixture catalog, ...) only needs an adapter that maps its
+ * responses to the domain types.
+ */
+import { Episode, MovieDetail, SearchPage, Season, TitleType } from '../types';
+
+/**
+ * The parameters of a search.
+ */
+export interface SearchQuery {
+  query: string;      // The text to search for
+  page: number;       // The page of results, starting at 1
+  type?: TitleType;   // Restricts the results to one kind of title
+  year?: number;      // Restricts the results to one release year
+}
+
+/**
+ * A source of title metadata.
+ * Failures are reported by rejecting with a MovieApiError, and every request
+ * is cancelled when its signal aborts.
+ */
+export interface MetadataProvider {
+  id: string;   // Short, stable name of the provider, used to keep cache entries apart
+
+  /**
+   * Searches for titles
+   * @param query The search parameters
+   * @param signal Cancels the request
+   * @returns A promise that resolves to a page of results
+   */
+  search(query: SearchQuery, signal?: AbortSignal): Promise<SearchPage>;
+
+  /**
+   * Looks up the details of a title
+   * @param imdbID The IMDb ID of the title
+   * @param signal Cancels the request
+   * @returns A promise that resolves to the title details
+   */
+  getDetails(imdbID: string, signal?: AbortSignal): Promise<MovieDetail>;
+
+  /**
+   * Looks up the title exactly matching a name
+   * @param title The exact title
+   * @param year Optional release year, to pick between titles with the same name
+   * @param type Optional kind of title
+   * @param signal Cancels the request
+   * @returns A promise that resolves to the title details
+   */
+  lookupTitle(title: string, year?: number, type?: TitleType, signal?: AbortSignal): Promise<MovieDetail>;
+
+  /**
+   * Looks up one season of a series
+   * @param seriesId The IMDb ID of the series
+   * @param season The season number
+   * @param signal Cancels the request
+   * @returns A promise that resolves to the season and its episodes
+   */
+  getSeason(seriesId: string, season: number, signal?: AbortSignal): Promise<Season>;
+
+  /**
+   * Looks up a single episode of a series
+   * @param seriesId The IMDb ID of the series
+   * @param season The season number
+   * @param episode The episode number within the season
+   * @param signal Cancels the request
+   * @returns A promise that resolves to the episode details
+   */
+  getEpisode(seriesId: string, season: number, episode: number, signal?: AbortSignal): Promise<Episode>;
+}
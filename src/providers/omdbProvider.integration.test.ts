@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * OMDb Provider Integration Tests
+ * Runs the OMDb adapter against the local mock server: its fixture catalog,
+ * OMDb's error responses and the record and replay modes.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createOmdbProvider } from './omdbProvider';
+import { createOmdbMockServer } from '../../mock-server/omdbMockServer';
+
+/**
+ * Starts a mock server on a free port
+ * @returns The server and its base URL
+ */
+const start = async (options: Parameters<typeof createOmdbMockServer>[0] = {}) => {
+  const server: Server = createOmdbMockServer(options);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/` };
+};
+
+/**
+ * Stops a mock server
+ */
+const stop = (server: Server) => new Promise((resolve) => server.close(resolve));
+
+describe('omdbProvider against the mock server', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    ({ server, baseUrl } = await start({ apiKey: 'test-key' }));
+  });
+
+  afterAll(() => stop(server));
+
+  test('searches the fixture catalog by page, type and year', async () => {
+    const provider = createOmdbProvider({ apiKey: 'test-key', baseUrl });
+
+    const firstPage = await provider.search({ query: 'batman', page: 1 });
+    const secondPage = await provider.search({ query: 'batman', page: 2 });
+    expect(firstPage.totalResults).toBe(12);
+    expect(firstPage.movies).toHaveLength(10);
+    expect(secondPage.movies).toHaveLength(2);
+
+    const series = await provider.search({ query: 'batman', page: 1, type: 'series' });
+    expect(series.movies.map((movie) => movie.title)).toEqual(['Batman: The Animated Series', 'Batman Beyond']);
+
+    const ofYear = await provider.search({ query: 'batman', page: 1, year: 1989 });
+    expect(ofYear.movies.map((movie) => movie.imdbID)).toEqual(['tt0096895']);
+  });
+
+  test('looks up titles, seasons and episodes', async () => {
+    const provider = createOmdbProvider({ apiKey: 'test-key', baseUrl });
+
+    expect((await provider.getDetails('tt0133093')).directors).toEqual(['Lana Wachowski', 'Lilly Wachowski']);
+    expect((await provider.lookupTitle('the matrix reloaded')).year).toBe(2003);
+
+    const season = await provider.getSeason('tt0903747', 1);
+    expect(season.episodes.map((episode) => episode.released)).toEqual(['2008-01-20', '2008-01-27']);
+    expect((await provider.getEpisode('tt0903747', 2, 1)).title).toBe('Seven Thirty-Seven');
+  });
+
+  test('answers with OMDb errors', async () => {
+    const provider = createOmdbProvider({ apiKey: 'test-key', baseUrl });
+    await expect(provider.search({ query: 'no such title', page: 1 })).rejects.toMatchObject({ kind: 'not-found' });
+    await expect(provider.search({ query: 'ba', page: 1 })).rejects.toMatchObject({ kind: 'too-many-results' });
+
+    const withWrongKey = createOmdbProvider({ apiKey: 'wrong-key', baseUrl });
+    await expect(withWrongKey.getDetails('tt0133093')).rejects.toMatchObject({ kind: 'invalid-api-key' });
+
+    const limited = await start({ requestLimit: 1 });
+    try {
+      const provider = createOmdbProvider({ apiKey: 'any', baseUrl: limited.baseUrl });
+      await provider.getDetails('tt0133093');
+      await expect(provider.getDetails('tt0133093')).rejects.toMatchObject({ kind: 'request-limit' });
+    } finally {
+      await stop(limited.server);
+    }
+  });
+
+  test('records responses and replays them without the upstream API', async () => {
+    const recordingsFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'omdb-mock-')), 'recordings.json');
+
+    // Record from the fixture server standing in for OMDb
+    const recorder = await start({ mode: 'record', upstreamUrl: baseUrl, upstreamApiKey: 'test-key', recordingsFile });
+    try {
+      await createOmdbProvider({ apiKey: 'local', baseUrl: recorder.baseUrl }).getDetails('tt0468569');
+    } finally {
+      await stop(recorder.server);
+    }
+    expect(Object.keys(JSON.parse(fs.readFileSync(recordingsFile, 'utf8')))).toEqual(['i=tt0468569&plot=full']);
+
+    const replayer = await start({ mode: 'replay', recordingsFile });
+    try {
+      const provider = createOmdbProvider({ apiKey: 'local', baseUrl: replayer.baseUrl });
+      expect((await provider.getDetails('tt0468569')).title).toBe('The Dark Knight');
+      await expect(provider.getDetails('tt0133093')).rejects.toThrow('No recording for this request');
+    } finally {
+      await stop(replayer.server);
+    }
+  });
+});
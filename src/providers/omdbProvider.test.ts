@@ -0,0 +1,102 @@
+/**
+ * OMDb Provider Tests
+ * Covers building requests, mapping responses to domain types and OMDb errors.
+ */
+
+import axios from 'axios';
+import { createOmdbProvider } from './omdbProvider';
+import { MovieApiError } from '../api/apiErrors';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { get: jest.fn() }
+}));
+
+/**
+ * Makes the next request answer with the given OMDb body
+ */
+const respondWith = (data: object) => (axios.get as jest.Mock).mockResolvedValueOnce({ data });
+
+describe('omdbProvider', () => {
+  const provider = createOmdbProvider({ apiKey: 'key', baseUrl: 'http://omdb.test/' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('maps search responses to a page of movies', async () => {
+    respondWith({
+      Response: 'True',
+      totalResults: '42',
+      Search: [{ Title: 'The Matrix', Year: '1999', imdbID: 'tt0133093', Type: 'movie', Poster: 'N/A' }]
+    });
+
+    const page = await provider.search({ query: 'the matrix', page: 2, type: 'movie', year: 1999 });
+
+    expect((axios.get as jest.Mock).mock.calls[0][0])
+      .toBe('http://omdb.test/?apikey=key&s=the%20matrix&page=2&type=movie&y=1999');
+    expect(page).toEqual({
+      totalResults: 42,
+      movies: [{ title: 'The Matrix', year: 1999, imdbID: 'tt0133093', type: 'movie', poster: null }]
+    });
+  });
+
+  test('maps title details to domain values, leaving out fields OMDb has no data for', async () => {
+    respondWith({
+      Response: 'True',
+      Title: 'Breaking Bad', Year: '2008–2013', imdbID: 'tt0903747', Type: 'series', Poster: 'poster.jpg',
+      Plot: 'N/A', Director: 'N/A', Actors: 'Bryan Cranston, Aaron Paul', Genre: 'Crime, Drama, Thriller',
+      Runtime: '49 min', Rated: 'N/A', imdbRating: '9.5', totalSeasons: '5',
+      Ratings: [{ Source: 'Internet Movie Database', Value: '9.5/10' }]
+    });
+
+    expect(await provider.getDetails('tt0903747')).toEqual({
+      title: 'Breaking Bad',
+      year: 2008,
+      endYear: 2013,
+      imdbID: 'tt0903747',
+      type: 'series',
+      poster: 'poster.jpg',
+      plot: null,
+      directors: [],
+      actors: ['Bryan Cranston', 'Aaron Paul'],
+      genres: ['Crime', 'Drama', 'Thriller'],
+      runtimeMinutes: 49,
+      rated: null,
+      imdbRating: 9.5,
+      ratings: [{ source: 'Internet Movie Database', value: '9.5/10' }],
+      totalSeasons: 5
+    });
+  });
+
+  test('reads runtimes in minutes only', async () => {
+    respondWith({ Response: 'True', Title: 'Odd', Year: 'N/A', imdbID: 'tt1', Type: 'movie', Poster: 'N/A', Runtime: '1 h 30 min' });
+
+    expect(await provider.getDetails('tt1')).toMatchObject({ year: null, runtimeMinutes: null, imdbRating: null });
+  });
+
+  test('leaves OMDb-only fields out of title details', async () => {
+    respondWith({
+      Response: 'True',
+      Title: 'Pilot', Year: '2008', imdbID: 'tt0959621', Type: 'episode', Poster: 'N/A',
+      Plot: 'A teacher turns to crime.', Director: 'Vince Gilligan', Actors: 'Bryan Cranston',
+      Genre: 'Drama', Runtime: '58 min', Rated: 'TV-14', imdbRating: '9.0',
+      Season: '1', Episode: '1', seriesID: 'tt0903747', Released: '20 Jan 2008', BoxOffice: 'N/A'
+    });
+
+    const episode = await provider.getEpisode('tt0903747', 1, 1);
+
+    expect(episode).not.toHaveProperty('Response');
+    expect(episode).not.toHaveProperty('BoxOffice');
+    expect(episode).toMatchObject({ title: 'Pilot', season: 1, episode: 1, seriesID: 'tt0903747', released: '20 Jan 2008' });
+  });
+
+  test('rejects failed responses with a typed error', async () => {
+    respondWith({ Response: 'False', Error: 'Movie not found!' });
+
+    const request = provider.getDetails('tt0000000');
+
+    await expect(request).rejects.toBeInstanceOf(MovieApiError);
+    await expect(request).rejects.toMatchObject({ kind: 'not-found' });
+  });
+});
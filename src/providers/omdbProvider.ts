@@ -0,0 +1,263 @@
+/**
+ * OMDb Provider
+ * Reads title metadata from the OMDb API (https://www.omdbapi.com) and maps its
+ * responses to the domain types.
+ */
+import axios from 'axios';
+import { Episode, Movie, MovieDetail, SearchPage, Season, TitleType } from '../types';
+import { MetadataProvider, SearchQuery } from './metadataProvider';
+import { fromOmdbError } from '../api/apiErrors';
+import { withRetry } from '../api/retry';
+import { parseYears } from '../titles/titleText';
+
+// Base URL of the OMDb API
+export const OMDB_BASE_URL = 'https://www.omdbapi.com/';
+
+// Requests taking longer than 10 seconds are treated as timeouts (and retried)
+const REQUEST_TIMEOUT_MS = 10000;
+
+// OMDb's value for fields it has no data for
+const NOT_AVAILABLE = 'N/A';
+
+/**
+ * Options for the OMDb provider.
+ */
+export interface OmdbProviderOptions {
+  apiKey?: string;      // OMDb API key (defaults to REACT_APP_OMDB_API_KEY)
+  baseUrl?: string;     // Base URL of the API (defaults to REACT_APP_OMDB_BASE_URL, then OMDB_BASE_URL)
+  timeoutMs?: number;   // Time allowed for each request
+}
+
+/**
+ * The fields OMDb includes in every response.
+ */
+interface OmdbResponse {
+  Response: 'True' | 'False';   // Whether the request succeeded
+  Error?: string;               // The reason it failed, e.g. "Movie not found!"
+}
+
+/**
+ * A title as listed in an OMDb search response.
+ */
+interface OmdbSearchResult {
+  Title: string;
+  Year: string;
+  imdbID: string;
+  Type: string;
+  Poster: string;
+}
+
+/**
+ * An OMDb search (`s=`) response.
+ */
+interface OmdbSearchResponse extends OmdbResponse {
+  Search?: OmdbSearchResult[];
+  totalResults?: string;  // The total as a string, e.g. "42"
+}
+
+/**
+ * A rating from one source, as listed in an OMDb title response.
+ */
+interface OmdbRating {
+  Source: string;
+  Value: string;
+}
+
+/**
+ * An OMDb title (`i=` or `t=`) response, including the fields only episodes have.
+ */
+interface OmdbTitleResponse extends OmdbResponse, OmdbSearchResult {
+  Plot: string;
+  Director: string;
+  Actors: string;
+  Genre: string;
+  Runtime: string;
+  Rated: string;
+  imdbRating: string;
+  Ratings?: OmdbRating[];
+  totalSeasons?: string;
+  Season?: string;
+  Episode?: string;
+  seriesID?: string;
+  Released?: string;
+}
+
+/**
+ * An OMDb season (`i=` and `Season=`) response.
+ */
+interface OmdbSeasonResponse extends OmdbResponse {
+  Title: string;
+  Season: string;
+  totalSeasons: string;
+  Episodes?: { Title: string; Released: string; Episode: string; imdbRating: string; imdbID: string }[];
+}
+
+/**
+ * Reads a text field, which OMDb sets to "N/A" when it has no data
+ * @param value The field's value
+ * @returns The text, or null when there is none
+ */
+const toText = (value: string | undefined): string | null => {
+  const text = value?.trim() ?? '';
+  return text && text !== NOT_AVAILABLE ? text : null;
+};
+
+/**
+ * Reads a numeric field, e.g. the "7.5" of `imdbRating`
+ * @param value The field's value
+ * @returns The number, or null when there is none
+ */
+const toNumber = (value: string | undefined): number | null => {
+  const number = parseFloat(value ?? '');
+  return isNaN(number) ? null : number;
+};
+
+/**
+ * Reads a comma separated field, e.g. "Action, Sci-Fi"
+ * @param value The field's value
+ * @returns The items, empty when there are none
+ */
+const toList = (value: string | undefined): string[] =>
+  (toText(value) ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+/**
+ * Reads a runtime, e.g. "142 min"
+ * @param value The field's value
+ * @returns The runtime in minutes, or null when OMDb has none
+ */
+const parseRuntime = (value: string | undefined): number | null => {
+  const match = value?.match(/^(\d+)\s*min/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Maps a title from a search response to a Movie
+ * @param result The OMDb search result
+ * @returns The movie
+ */
+const toMovie = (result: OmdbSearchResult): Movie => ({
+  title: result.Title,
+  ...parseYears(result.Year),
+  imdbID: result.imdbID,
+  type: result.Type,
+  poster: toText(result.Poster)
+});
+
+/**
+ * Maps a title response to a MovieDetail
+ * @param title The OMDb title response
+ * @returns The movie details
+ */
+const toMovieDetail = (title: OmdbTitleResponse): MovieDetail => {
+  const totalSeasons = toNumber(title.totalSeasons);
+  return {
+    ...toMovie(title),
+    plot: toText(title.Plot),
+    directors: toList(title.Director),
+    actors: toList(title.Actors),
+    genres: toList(title.Genre),
+    runtimeMinutes: parseRuntime(title.Runtime),
+    rated: toText(title.Rated),
+    imdbRating: toNumber(title.imdbRating),
+    ratings: (title.Ratings ?? []).map((rating) => ({ source: rating.Source, value: rating.Value })),
+    ...(totalSeasons !== null ? { totalSeasons } : {})
+  };
+};
+
+/**
+ * Maps an episode's title response to an Episode
+ * @param title The OMDb title response
+ * @returns The episode details
+ */
+const toEpisode = (title: OmdbTitleResponse): Episode => ({
+  ...toMovieDetail(title),
+  season: toNumber(title.Season) ?? 0,
+  episode: toNumber(title.Episode) ?? 0,
+  seriesID: title.seriesID ?? '',
+  released: toText(title.Released)
+});
+
+/**
+ * Maps a season response to a Season
+ * @param season The OMDb season response
+ * @returns The season
+ */
+const toSeason = (season: OmdbSeasonResponse): Season => ({
+  seriesTitle: season.Title,
+  season: toNumber(season.Season) ?? 0,
+  totalSeasons: toNumber(season.totalSeasons) ?? 0,
+  episodes: (season.Episodes ?? []).map((episode) => ({
+    title: episode.Title,
+    released: toText(episode.Released),
+    episode: toNumber(episode.Episode) ?? 0,
+    imdbRating: toNumber(episode.imdbRating),
+    imdbID: episode.imdbID
+  }))
+});
+
+/**
+ * Maps a search response to a page of results
+ * @param response The OMDb search response
+ * @returns The page of results
+ */
+const toSearchPage = (response: OmdbSearchResponse): SearchPage => ({
+  movies: (response.Search ?? []).map(toMovie),
+  totalResults: parseInt(response.totalResults ?? '') || 0
+});
+
+/**
+ * Creates a metadata provider backed by the OMDb API
+ * @param options Options overriding the defaults
+ * @returns The provider
+ */
+export const createOmdbProvider = (options: OmdbProviderOptions = {}): MetadataProvider => {
+  const apiKey = options.apiKey ?? process.env.REACT_APP_OMDB_API_KEY ?? '';
+  const baseUrl = options.baseUrl ?? (process.env.REACT_APP_OMDB_BASE_URL || OMDB_BASE_URL);
+  const timeout = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+
+  /**
+   * Requests the given parameters from OMDb, retrying transient failures
+   * @param params Query parameters, skipped when empty
+   * @param signal Cancels the request
+   * @returns A promise that resolves to the successful response
+   */
+  const request = async <T extends OmdbResponse>(
+    params: Record<string, string | number | undefined>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    const query = Object.entries({ apikey: apiKey, ...params })
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `${name}=${encodeURIComponent(String(value))}`)
+      .join('&');
+
+    const response = await withRetry(
+      () => axios.get<T>(`${baseUrl}?${query}`, { signal, timeout }),
+      { signal }
+    );
+
+    // OMDb reports failures (e.g. "Movie not found!") in the body of a 200 response
+    if (response.data.Response === 'False') {
+      throw fromOmdbError(response.data.Error);
+    }
+    return response.data;
+  };
+
+  return {
+    id: 'omdb',
+
+    search: async ({ query, page, type, year }: SearchQuery, signal?: AbortSignal) =>
+      toSearchPage(await request<OmdbSearchResponse>({ s: query, page, type, y: year }, signal)),
+
+    getDetails: async (imdbID: string, signal?: AbortSignal) =>
+      toMovieDetail(await request<OmdbTitleResponse>({ i: imdbID, plot: 'full' }, signal)),
+
+    lookupTitle: async (title: string, year?: number, type?: TitleType, signal?: AbortSignal) =>
+      toMovieDetail(await request<OmdbTitleResponse>({ t: title.trim(), plot: 'full', y: year, type }, signal)),
+
+    getSeason: async (seriesId: string, season: number, signal?: AbortSignal) =>
+      toSeason(await request<OmdbSeasonResponse>({ i: seriesId, Season: season }, signal)),
+
+    getEpisode: async (seriesId: string, season: number, episode: number, signal?: AbortSignal) =>
+      toEpisode(await request<OmdbTitleResponse>({ i: seriesId, Season: season, Episode: episode, plot: 'full' }, signal))
+  };
+};
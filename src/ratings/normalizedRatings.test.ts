@@ -0,0 +1,54 @@
+/**
+ * Normalized Ratings Tests
+ * Covers parsing each rating format, "N/A" and unknown sources, and the composite score.
+ */
+
+import {
+  IMDB_SOURCE,
+  METACRITIC_SOURCE,
+  ROTTEN_TOMATOES_SOURCE,
+  compositeScore,
+  movieScore,
+  normalizeRatings,
+  parseRating
+} from './normalizedRatings';
+
+describe('normalizedRatings', () => {
+  test('parses each OMDb rating format onto a 0-100 scale', () => {
+    expect(parseRating({ source: IMDB_SOURCE, value: '7.5/10' }))
+      .toEqual({ source: IMDB_SOURCE, value: 7.5, scale: 10, normalized0to100: 75 });
+    expect(parseRating({ source: ROTTEN_TOMATOES_SOURCE, value: '85%' }))
+      .toEqual({ source: ROTTEN_TOMATOES_SOURCE, value: 85, scale: 100, normalized0to100: 85 });
+    expect(parseRating({ source: METACRITIC_SOURCE, value: '74/100' }))
+      .toEqual({ source: METACRITIC_SOURCE, value: 74, scale: 100, normalized0to100: 74 });
+  });
+
+  test('ignores N/A and unreadable values, and reads unknown sources with an explicit scale', () => {
+    expect(parseRating({ source: IMDB_SOURCE, value: 'N/A' })).toBeNull();
+    expect(parseRating({ source: METACRITIC_SOURCE, value: '120/100' })).toBeNull();
+    expect(parseRating({ source: 'Letterboxd', value: '4' })).toBeNull();
+    expect(parseRating({ source: 'Letterboxd', value: '4/5' }))
+      .toEqual({ source: 'Letterboxd', value: 4, scale: 5, normalized0to100: 80 });
+  });
+
+  test('falls back to imdbRating when ratings has no IMDb entry', () => {
+    expect(normalizeRatings({ imdbRating: 8.0, ratings: [] }))
+      .toEqual([{ source: IMDB_SOURCE, value: 8, scale: 10, normalized0to100: 80 }]);
+    expect(normalizeRatings({ imdbRating: null, ratings: [] })).toEqual([]);
+  });
+
+  test('computes a weighted composite score from the available ratings', () => {
+    const movie = {
+      imdbRating: 7.0,
+      ratings: [
+        { source: IMDB_SOURCE, value: '7.0/10' },
+        { source: ROTTEN_TOMATOES_SOURCE, value: '90%' },
+        { source: METACRITIC_SOURCE, value: 'N/A' }
+      ]
+    };
+
+    expect(movieScore(movie)).toBe(80);
+    expect(movieScore(movie, { [IMDB_SOURCE]: 3, [ROTTEN_TOMATOES_SOURCE]: 1 })).toBe(75);
+    expect(compositeScore([])).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Normalized Ratings
+ * Parses the rating strings OMDb returns ("7.5/10", "85%", "74/100") into numbers
+ * on a common 0–100 scale and combines them into a weighted composite score.
+ */
+import { MovieDetail, NormalizedRating, Rating } from '../types';
+
+// Rating sources as named by OMDb
+export const IMDB_SOURCE = 'Internet Movie Database';
+export const ROTTEN_TOMATOES_SOURCE = 'Rotten Tomatoes';
+export const METACRITIC_SOURCE = 'Metacritic';
+
+/**
+ * Weight given to each source in the composite score. Sources without a
+ * weight (e.g. ones OMDb adds in future) count with DEFAULT_SOURCE_WEIGHT.
+ */
+export type RatingWeights = Record<string, number>;
+
+export const DEFAULT_RATING_WEIGHTS: RatingWeights = {
+  [IMDB_SOURCE]: 1,
+  [ROTTEN_TOMATOES_SOURCE]: 1,
+  [METACRITIC_SOURCE]: 1
+};
+
+export const DEFAULT_SOURCE_WEIGHT = 0.5;
+
+// A score on an explicit scale, e.g. "7.5/10" or "74/100"
+const FRACTION_PATTERN = /^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/;
+
+// A percentage, e.g. "85%"
+const PERCENT_PATTERN = /^(\d+(?:\.\d+)?)\s*%$/;
+
+// A bare number, e.g. "7.5", whose scale depends on the source
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+
+/**
+ * Builds a normalized rating, rejecting values outside the scale
+ * @param source The rating source
+ * @param value The rating on its own scale
+ * @param scale The top of the scale
+ * @returns The normalized rating, or null if the numbers don't make sense
+ */
+const toNormalized = (source: string, value: number, scale: number): NormalizedRating | null => {
+  if (!(scale > 0) || value < 0 || value > scale) {
+    return null;
+  }
+  return { source, value, scale, normalized0to100: (value / scale) * 100 };
+};
+
+/**
+ * Parses one rating into a normalized rating
+ * @param rating The rating as the source shows it
+ * @returns The normalized rating, or null for "N/A" and values that can't be read
+ */
+export const parseRating = (rating: Rating): NormalizedRating | null => {
+  const text = rating.value?.trim() ?? '';
+
+  const fraction = text.match(FRACTION_PATTERN);
+  if (fraction) {
+    return toNormalized(rating.source, parseFloat(fraction[1]), parseFloat(fraction[2]));
+  }
+
+  const percent = text.match(PERCENT_PATTERN);
+  if (percent) {
+    return toNormalized(rating.source, parseFloat(percent[1]), 100);
+  }
+
+  // A bare number is only meaningful when the source's scale is known
+  if (NUMBER_PATTERN.test(text)) {
+    const bare = parseFloat(text);
+    if (rating.source === IMDB_SOURCE) {
+      return toNormalized(rating.source, bare, 10);
+    }
+    if (rating.source === METACRITIC_SOURCE || rating.source === ROTTEN_TOMATOES_SOURCE) {
+      return toNormalized(rating.source, bare, 100);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Collects the normalized ratings of a movie. The IMDb rating falls back to the
+ * `imdbRating` field when it is missing from `ratings`, as it is for episodes.
+ * @param movie The movie details
+ * @returns One normalized rating per source that has a usable value
+ */
+export const normalizeRatings = (movie: Pick<MovieDetail, 'ratings' | 'imdbRating'>): NormalizedRating[] => {
+  const ratings = movie.ratings
+    .map(parseRating)
+    .filter((rating): rating is NormalizedRating => rating !== null);
+
+  if (!ratings.some((rating) => rating.source === IMDB_SOURCE) && movie.imdbRating !== null) {
+    const imdb = toNormalized(IMDB_SOURCE, movie.imdbRating, 10);
+    if (imdb) {
+      ratings.unshift(imdb);
+    }
+  }
+
+  // Keep the first rating from each source
+  return ratings.filter((rating, index) => ratings.findIndex((other) => other.source === rating.source) === index);
+};
+
+/**
+ * Finds the normalized rating from one source
+ * @param ratings The normalized ratings
+ * @param source The rating source
+ * @returns The rating, or undefined if the source has none
+ */
+export const findRating = (ratings: NormalizedRating[], source: string): NormalizedRating | undefined =>
+  ratings.find((rating) => rating.source === source);
+
+/**
+ * Computes the weighted average of normalized ratings
+ * @param ratings The normalized ratings
+ * @param weights Weight given to each source
+ * @returns The composite score on a 0–100 scale, or null if there are no weighted ratings
+ */
+export const compositeScore = (
+  ratings: NormalizedRating[],
+  weights: RatingWeights = DEFAULT_RATING_WEIGHTS
+): number | null => {
+  let total = 0;
+  let totalWeight = 0;
+
+  ratings.forEach((rating) => {
+    const weight = weights[rating.source] ?? DEFAULT_SOURCE_WEIGHT;
+    total += rating.normalized0to100 * weight;
+    totalWeight += weight;
+  });
+
+  return totalWeight > 0 ? total / totalWeight : null;
+};
+
+/**
+ * Computes the composite score of a movie, e.g. for sorting
+ * @param movie The movie details
+ * @param weights Weight given to each source
+ * @returns The composite score on a 0–100 scale, or null if the movie has no ratings
+ */
+export const movieScore = (
+  movie: Pick<MovieDetail, 'ratings' | 'imdbRating'>,
+  weights: RatingWeights = DEFAULT_RATING_WEIGHTS
+): number | null => compositeScore(normalizeRatings(movie), weights);
@@ -0,0 +1,41 @@
+/**
+ * Detail Filters Tests
+ * Covers each advanced filter, titles without details and missing fields.
+ */
+
+import { NO_DETAIL_FILTERS, matchesDetailFilters } from './detailFilters';
+import { MovieDetail } from '../types';
+
+const details = {
+  imdbID: 'tt1',
+  title: 'Paddington',
+  genres: ['Adventure', 'Comedy', 'Family'],
+  imdbRating: 7.3,
+  runtimeMinutes: 95,
+  rated: 'PG'
+} as MovieDetail;
+
+describe('detailFilters', () => {
+  test('matches everything when no filter is set, even without details', () => {
+    expect(matchesDetailFilters(undefined, NO_DETAIL_FILTERS)).toBe(true);
+    expect(matchesDetailFilters(undefined, { ...NO_DETAIL_FILTERS, minRating: 5 })).toBe(false);
+  });
+
+  test('filters by genre, minimum rating, maximum runtime and content rating', () => {
+    expect(matchesDetailFilters(details, { ...NO_DETAIL_FILTERS, genres: ['Horror', 'Family'] })).toBe(true);
+    expect(matchesDetailFilters(details, { ...NO_DETAIL_FILTERS, genres: ['Horror'] })).toBe(false);
+    expect(matchesDetailFilters(details, { ...NO_DETAIL_FILTERS, minRating: 7 })).toBe(true);
+    expect(matchesDetailFilters(details, { ...NO_DETAIL_FILTERS, minRating: 7.5 })).toBe(false);
+    expect(matchesDetailFilters(details, { ...NO_DETAIL_FILTERS, maxRuntime: 95 })).toBe(true);
+    expect(matchesDetailFilters(details, { ...NO_DETAIL_FILTERS, maxRuntime: 90 })).toBe(false);
+    expect(matchesDetailFilters(details, { ...NO_DETAIL_FILTERS, rated: ['G', 'PG'] })).toBe(true);
+    expect(matchesDetailFilters(details, { ...NO_DETAIL_FILTERS, rated: ['R'] })).toBe(false);
+  });
+
+  test('leaves out titles missing a filtered field', () => {
+    const unknown = { ...details, imdbRating: null, runtimeMinutes: null, rated: null };
+    expect(matchesDetailFilters(unknown, { ...NO_DETAIL_FILTERS, minRating: 1 })).toBe(false);
+    expect(matchesDetailFilters(unknown, { ...NO_DETAIL_FILTERS, maxRuntime: 300 })).toBe(false);
+    expect(matchesDetailFilters(unknown, { ...NO_DETAIL_FILTERS, rated: ['PG'] })).toBe(false);
+  });
+});
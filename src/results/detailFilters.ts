@@ -0,0 +1,64 @@
+/**
+ * Detail Filters
+ * Filters search results on fields that are only known once a result's details
+ * have been fetched: genre, IMDb rating, runtime and content rating.
+ */
+import { DetailFilters, MovieDetail } from '../types';
+
+// Genres OMDb uses, offered in the genre filter
+export const GENRES = [
+  'Action', 'Adventure', 'Animation', 'Biography', 'Comedy', 'Crime', 'Documentary',
+  'Drama', 'Family', 'Fantasy', 'History', 'Horror', 'Music', 'Musical', 'Mystery',
+  'Romance', 'Sci-Fi', 'Sport', 'Thriller', 'War', 'Western'
+];
+
+// Content ratings offered in the rated filter, for films and then TV
+export const CONTENT_RATINGS = [
+  'G', 'PG', 'PG-13', 'R', 'NC-17', 'TV-Y', 'TV-G', 'TV-PG', 'TV-14', 'TV-MA', 'Not Rated'
+];
+
+export const NO_DETAIL_FILTERS: DetailFilters = { genres: [], minRating: null, maxRuntime: null, rated: [] };
+
+/**
+ * Checks whether any advanced filter is set
+ * @param filters The advanced filters
+ * @returns True when at least one filter narrows the results
+ */
+export const hasDetailFilters = (filters: DetailFilters): boolean =>
+  filters.genres.length > 0 || filters.minRating !== null || filters.maxRuntime !== null || filters.rated.length > 0;
+
+/**
+ * Checks a title against the advanced filters. Titles whose details haven't
+ * been loaded, or that lack a filtered field, don't match a filter on it.
+ * @param details The title's details, if loaded
+ * @param filters The advanced filters
+ * @returns True when the title matches every filter that is set
+ */
+export const matchesDetailFilters = (details: MovieDetail | undefined, filters: DetailFilters): boolean => {
+  if (!hasDetailFilters(filters)) {
+    return true;
+  }
+  if (!details) {
+    return false;
+  }
+
+  if (filters.genres.length > 0) {
+    if (!filters.genres.some((genre) => details.genres.includes(genre))) {
+      return false;
+    }
+  }
+
+  if (filters.minRating !== null) {
+    if (details.imdbRating === null || details.imdbRating < filters.minRating) {
+      return false;
+    }
+  }
+
+  if (filters.maxRuntime !== null) {
+    if (details.runtimeMinutes === null || details.runtimeMinutes > filters.maxRuntime) {
+      return false;
+    }
+  }
+
+  return filters.rated.length === 0 || (details.rated !== null && filters.rated.includes(details.rated));
+};
@@ -0,0 +1,47 @@
+/**
+ * Result Facets Tests
+ * Covers sorting the loaded results, listing and applying facets, and toggling facet values.
+ */
+
+import { availableFacets, filterResults, sortResults, toggleFacetValue } from './resultFacets';
+
+const movies = [
+  { imdbID: 'tt1', title: 'the Matrix', year: 1999, type: 'movie', poster: null },
+  { imdbID: 'tt2', title: 'Breaking Bad', year: 2008, endYear: 2013, type: 'series', poster: null },
+  { imdbID: 'tt3', title: 'Unknown', year: null, type: 'movie', poster: null },
+  { imdbID: 'tt4', title: 'Alien', year: 1979, type: 'movie', poster: null }
+];
+
+const ids = (results: { imdbID: string }[]) => results.map((movie) => movie.imdbID);
+
+describe('resultFacets', () => {
+  test('sorts by title, year and type, keeping results without a year last', () => {
+    expect(ids(sortResults(movies, 'relevance'))).toEqual(['tt1', 'tt2', 'tt3', 'tt4']);
+    expect(ids(sortResults(movies, 'title'))).toEqual(['tt4', 'tt2', 'tt1', 'tt3']);
+    expect(ids(sortResults(movies, 'year-asc'))).toEqual(['tt4', 'tt1', 'tt2', 'tt3']);
+    expect(ids(sortResults(movies, 'year-desc'))).toEqual(['tt2', 'tt1', 'tt4', 'tt3']);
+    expect(ids(sortResults(movies, 'type'))).toEqual(['tt4', 'tt1', 'tt3', 'tt2']);
+  });
+
+  test('sorts by score, highest first, keeping results without a score last', () => {
+    const scores: Record<string, number> = { tt1: 80, tt2: 95, tt4: 80 };
+    const scoreOf = (movie: { imdbID: string }) => scores[movie.imdbID] ?? null;
+
+    expect(ids(sortResults(movies, 'score', scoreOf))).toEqual(['tt2', 'tt1', 'tt4', 'tt3']);
+    // Without scores (details not fetched) OMDb's order is kept
+    expect(ids(sortResults(movies, 'score'))).toEqual(['tt1', 'tt2', 'tt3', 'tt4']);
+  });
+
+  test('lists the facets present and filters by all chosen facets', () => {
+    expect(availableFacets(movies)).toEqual({ types: ['movie', 'series'], decades: [1970, 1990, 2000] });
+
+    expect(ids(filterResults(movies, { types: ['movie'], decades: [] }))).toEqual(['tt1', 'tt3', 'tt4']);
+    expect(ids(filterResults(movies, { types: ['movie'], decades: [1970, 2000] }))).toEqual(['tt4']);
+    expect(ids(filterResults(movies, { types: [], decades: [] }))).toEqual(['tt1', 'tt2', 'tt3', 'tt4']);
+  });
+
+  test('toggles facet values', () => {
+    expect(toggleFacetValue([1990], 2000)).toEqual([1990, 2000]);
+    expect(toggleFacetValue([1990, 2000], 1990)).toEqual([2000]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Result Facets
+ * Sorts and filters the loaded search results on the client, so the order and
+ * facets apply instantly without another request to OMDb.
+ */
+import { Movie } from '../types';
+
+/**
+ * The orders the result list can be shown in. 'relevance' keeps the order OMDb
+ * returned the results in, and 'score' needs the results' details to be fetched.
+ */
+export type ResultSort = 'relevance' | 'title' | 'year-asc' | 'year-desc' | 'type' | 'score';
+
+// Sort options, in the order they are offered
+export const RESULT_SORTS: { value: ResultSort; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'title', label: 'Title A–Z' },
+  { value: 'year-asc', label: 'Year (oldest first)' },
+  { value: 'year-desc', label: 'Year (newest first)' },
+  { value: 'type', label: 'Type' },
+  { value: 'score', label: 'Score (highest first)' }
+];
+
+/**
+ * The facet values chosen by the user. Values within a facet are alternatives;
+ * the facets themselves must all match.
+ */
+export interface ResultFacets {
+  types: string[];    // e.g. 'movie', 'series'
+  decades: number[];  // First year of the decade, e.g. 1990
+}
+
+export const NO_FACETS: ResultFacets = { types: [], decades: [] };
+
+/**
+ * Works out the decade of a result
+ * @param movie The result
+ * @returns The first year of the decade, or null when the result has no year
+ */
+export const resultDecade = (movie: Movie): number | null => {
+  const { year } = movie;
+  return year !== null ? Math.floor(year / 10) * 10 : null;
+};
+
+/**
+ * Compares the years of two results, keeping results without a year last
+ * @param a The first result
+ * @param b The second result
+ * @param direction 1 for oldest first, -1 for newest first
+ * @returns A comparator result
+ */
+const compareYears = (a: Movie, b: Movie, direction: 1 | -1): number => {
+  const yearA = a.year;
+  const yearB = b.year;
+  if (yearA === null || yearB === null) {
+    return (yearA === null ? 1 : 0) - (yearB === null ? 1 : 0);
+  }
+  return (yearA - yearB) * direction;
+};
+
+/**
+ * Compares the titles of two results alphabetically, ignoring case
+ * @param a The first result
+ * @param b The second result
+ * @returns A comparator result
+ */
+const compareTitles = (a: Movie, b: Movie): number =>
+  a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true });
+
+/**
+ * Compares two scores, highest first, keeping results without a score last
+ * @param scoreA The score of the first result
+ * @param scoreB The score of the second result
+ * @returns A comparator result
+ */
+const compareScores = (scoreA: number | null, scoreB: number | null): number => {
+  if (scoreA === null || scoreB === null) {
+    return (scoreA === null ? 1 : 0) - (scoreB === null ? 1 : 0);
+  }
+  return scoreB - scoreA;
+};
+
+/**
+ * Sorts results without changing the original array. Ties keep OMDb's order.
+ * @param movies The results
+ * @param sort The order to show them in
+ * @param scoreOf Gives the combined rating score of a result, or null when it is
+ * unknown (see movieScore); results are left in OMDb's order by score without it
+ * @returns The sorted results
+ */
+export const sortResults = (
+  movies: Movie[],
+  sort: ResultSort,
+  scoreOf?: (movie: Movie) => number | null
+): Movie[] => {
+  switch (sort) {
+    case 'title':
+      return [...movies].sort(compareTitles);
+    case 'year-asc':
+      return [...movies].sort((a, b) => compareYears(a, b, 1));
+    case 'year-desc':
+      return [...movies].sort((a, b) => compareYears(a, b, -1));
+    case 'type':
+      return [...movies].sort((a, b) => a.type.localeCompare(b.type) || compareTitles(a, b));
+    case 'score':
+      return scoreOf ? [...movies].sort((a, b) => compareScores(scoreOf(a), scoreOf(b))) : movies;
+    default:
+      return movies;
+  }
+};
+
+/**
+ * Lists the facet values present in the results, so only useful chips are shown
+ * @param movies The results
+ * @returns The types in alphabetical order and the decades in ascending order
+ */
+export const availableFacets = (movies: Movie[]): ResultFacets => {
+  const types = new Set<string>();
+  const decades = new Set<number>();
+  movies.forEach((movie) => {
+    if (movie.type) {
+      types.add(movie.type);
+    }
+    const decade = resultDecade(movie);
+    if (decade !== null) {
+      decades.add(decade);
+    }
+  });
+  return {
+    types: Array.from(types).sort(),
+    decades: Array.from(decades).sort((a, b) => a - b)
+  };
+};
+
+/**
+ * Filters results by the chosen facets. An empty facet matches everything.
+ * @param movies The results
+ * @param facets The chosen facet values
+ * @returns The results that match every facet
+ */
+export const filterResults = (movies: Movie[], facets: ResultFacets): Movie[] =>
+  movies.filter((movie) => {
+    if (facets.types.length > 0 && !facets.types.includes(movie.type)) {
+      return false;
+    }
+    if (facets.decades.length > 0) {
+      const decade = resultDecade(movie);
+      return decade !== null && facets.decades.includes(decade);
+    }
+    return true;
+  });
+
+/**
+ * Adds a value to a facet, or removes it if it is already chosen
+ * @param values The chosen values
+ * @param value The value to toggle
+ * @returns The new chosen values
+ */
+export const toggleFacetValue = <T>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((other) => other !== value) : [...values, value];
@@ -0,0 +1,22 @@
+/**
+ * Row Window Tests
+ * Covers the mounted rows at the edges of the list and revealing a row.
+ */
+
+import { scrollTopToReveal, visibleRowWindow } from './rowWindow';
+
+describe('rowWindow', () => {
+  test('mounts the visible rows plus the overscan, within the list', () => {
+    expect(visibleRowWindow(0, 500, 100, 1000, 2)).toEqual({ start: 0, end: 7 });
+    expect(visibleRowWindow(1050, 500, 100, 1000, 2)).toEqual({ start: 8, end: 18 });
+    expect(visibleRowWindow(99800, 500, 100, 1000, 2)).toEqual({ start: 996, end: 1000 });
+    expect(visibleRowWindow(-40, 500, 100, 3, 2)).toEqual({ start: 0, end: 3 });
+  });
+
+  test('scrolls just far enough to reveal a row below the sticky header', () => {
+    // Rows start 50px down, below a header of the same height
+    expect(scrollTopToReveal(2, 0, 500, 100, 50)).toBeNull();
+    expect(scrollTopToReveal(10, 0, 500, 100, 50)).toBe(650);
+    expect(scrollTopToReveal(3, 650, 500, 100, 50)).toBe(300);
+  });
+});
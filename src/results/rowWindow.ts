@@ -0,0 +1,70 @@
+/**
+ * Row Window
+ * Works out which rows of a long, fixed-height list are in view, so only those
+ * need to be mounted while the rest are stood in for by empty space.
+ */
+
+// Rows mounted above and below the visible ones, so fast scrolling doesn't show gaps
+export const DEFAULT_OVERSCAN = 5;
+
+/**
+ * The rows to mount, from `start` up to but not including `end`.
+ */
+export interface RowWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Works out the rows to mount for a scroll position
+ * @param scrollOffset How far the list has been scrolled past its first row, in pixels
+ * @param viewportHeight The height of the visible area, in pixels
+ * @param rowHeight The height of every row, in pixels
+ * @param rowCount The number of rows in the list
+ * @param overscan Rows to mount beyond each edge of the visible area
+ * @returns The rows to mount
+ */
+export const visibleRowWindow = (
+  scrollOffset: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan: number = DEFAULT_OVERSCAN
+): RowWindow => {
+  const first = Math.floor(Math.max(0, scrollOffset) / rowHeight);
+  const last = Math.ceil((Math.max(0, scrollOffset) + viewportHeight) / rowHeight);
+  return {
+    start: Math.max(0, Math.min(first - overscan, rowCount)),
+    end: Math.min(rowCount, last + overscan)
+  };
+};
+
+/**
+ * Works out where to scroll so that a row is fully in view, e.g. to bring the
+ * selected title back into view
+ * @param index The row to reveal
+ * @param scrollTop The current scroll position of the container
+ * @param viewportHeight The height of the container
+ * @param rowHeight The height of every row
+ * @param listOffset The distance from the top of the container to the first row,
+ * which a sticky header above the list also covers
+ * @returns The new scroll position, or null when the row is already in view
+ */
+export const scrollTopToReveal = (
+  index: number,
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  listOffset: number
+): number | null => {
+  const rowTop = listOffset + index * rowHeight;
+  const rowBottom = rowTop + rowHeight;
+
+  if (rowTop < scrollTop + listOffset) {
+    return rowTop - listOffset;
+  }
+  if (rowBottom > scrollTop + viewportHeight) {
+    return rowBottom - viewportHeight;
+  }
+  return null;
+};
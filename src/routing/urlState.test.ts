@@ -0,0 +1,71 @@
+/**
+ * URL State Tests
+ * Covers reading and writing the shared search state and when it adds a history entry.
+ */
+
+import { MAX_URL_PAGE, UrlState, buildUrlSearch, parseUrlState, shouldPushHistory } from './urlState';
+
+const bounds = { minYear: 1888, maxYear: 2026 };
+
+const state: UrlState = {
+  query: 'batman',
+  type: 'movie',
+  yearRange: { startYear: 1980, endYear: 1989 },
+  page: 3,
+  imdbID: 'tt0096895',
+  mode: 'search',
+  exactYear: ''
+};
+
+describe('urlState', () => {
+  test('reads the state back from the query string it builds', () => {
+    const search = buildUrlSearch(state);
+    expect(search).toBe('?q=batman&type=movie&from=1980&to=1989&page=3&id=tt0096895');
+    expect(parseUrlState(search, bounds)).toEqual(state);
+  });
+
+  test('leaves out defaults and falls back to them for invalid values', () => {
+    const empty: UrlState = {
+      query: '',
+      type: '',
+      yearRange: null,
+      page: 1,
+      imdbID: null,
+      mode: 'search',
+      exactYear: ''
+    };
+    expect(buildUrlSearch(empty)).toBe('');
+    expect(parseUrlState('', bounds)).toEqual(empty);
+
+    expect(parseUrlState('?q=alien&type=game&page=abc&id=12345', bounds)).toEqual({ ...empty, query: 'alien' });
+  });
+
+  test('corrects year ranges outside the bounds or in the wrong order', () => {
+    expect(parseUrlState('?from=1700', bounds).yearRange).toEqual({ startYear: 1888, endYear: 2026 });
+    expect(parseUrlState('?from=2000&to=1990', bounds).yearRange).toEqual({ startYear: 1990, endYear: 2000 });
+  });
+
+  test('keeps exact title lookups and their year', () => {
+    const lookup: UrlState = { ...state, query: 'alien', page: 1, imdbID: null, mode: 'title', exactYear: '1979' };
+    const search = buildUrlSearch(lookup);
+    expect(search).toBe('?q=alien&type=movie&from=1980&to=1989&mode=title&year=1979');
+    expect(parseUrlState(search, bounds)).toEqual(lookup);
+
+    // The year is ignored outside exact title lookups or when it isn't a year
+    expect(parseUrlState('?q=alien&year=1979', bounds).exactYear).toBe('');
+    expect(parseUrlState('?q=alien&mode=title&year=79', bounds).exactYear).toBe('');
+  });
+
+  test('restores a limited number of pages', () => {
+    expect(parseUrlState('?q=batman&page=500', bounds).page).toBe(MAX_URL_PAGE);
+    expect(parseUrlState('?q=batman&page=0', bounds).page).toBe(1);
+  });
+
+  test('pushes a history entry for a new title, type or search mode only', () => {
+    expect(shouldPushHistory(state, { ...state, imdbID: 'tt0103776' })).toBe(true);
+    expect(shouldPushHistory(state, { ...state, type: 'series' })).toBe(true);
+    expect(shouldPushHistory(state, { ...state, mode: 'title' })).toBe(true);
+    expect(shouldPushHistory(state, { ...state, query: 'batman returns', page: 1 })).toBe(false);
+    expect(shouldPushHistory(state, { ...state, yearRange: null })).toBe(false);
+  });
+});
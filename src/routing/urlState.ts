@@ -0,0 +1,147 @@
+/**
+ * URL State
+ * Reads and writes the search state (query, type, year range, page, exact
+ * title lookups and selected title) to the address bar query string so it can be shared.
+ */
+import { YearRange } from '../types';
+import { YearBounds, clampYearRange } from '../config/yearBounds';
+
+/**
+ * The part of the App state that is mirrored in the URL.
+ */
+export interface UrlState {
+  query: string;                               // The search query
+  type: 'movie' | 'series' | 'episode' | '';   // The type filter
+  yearRange: YearRange | null;                 // The year range filter, or null for any year
+  page: number;                                // The number of result pages loaded
+  imdbID: string | null;                       // The IMDb ID of the selected title
+  mode: 'search' | 'title';                    // Keyword search or exact title lookup
+  exactYear: string;                           // The year of an exact title lookup, or '' for any
+}
+
+// Names of the query string parameters
+const PARAMS = {
+  query: 'q',
+  type: 'type',
+  startYear: 'from',
+  endYear: 'to',
+  page: 'page',
+  imdbID: 'id',
+  mode: 'mode',
+  exactYear: 'year'
+};
+
+const TYPES: UrlState['type'][] = ['movie', 'series', 'episode'];
+
+// Restoring a link loads its pages one after another (each taking up to several
+// OMDb requests), so links restore at most this many pages
+export const MAX_URL_PAGE = 10;
+
+// IMDb IDs look like tt0111161
+const IMDB_ID_PATTERN = /^tt\d+$/;
+
+// Exact title lookups are narrowed by a four digit year
+const YEAR_PATTERN = /^\d{4}$/;
+
+/**
+ * Parses an integer parameter
+ * @param value The raw parameter value
+ * @returns The integer, or null if missing or invalid
+ */
+const parseInteger = (value: string | null): number | null => {
+  if (value === null || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return parseInt(value, 10);
+};
+
+/**
+ * Reads the URL state from a query string, falling back to the defaults for
+ * anything missing or invalid
+ * @param search The query string (e.g. window.location.search)
+ * @param yearBounds The years the year filter can cover
+ * @returns The URL state
+ */
+export const parseUrlState = (search: string, yearBounds: YearBounds): UrlState => {
+  const params = new URLSearchParams(search);
+
+  const type = params.get(PARAMS.type) as UrlState['type'];
+  const startYear = parseInteger(params.get(PARAMS.startYear));
+  const endYear = parseInteger(params.get(PARAMS.endYear));
+  const imdbID = params.get(PARAMS.imdbID);
+  const mode = params.get(PARAMS.mode) === 'title' ? 'title' : 'search';
+  const exactYear = params.get(PARAMS.exactYear) ?? '';
+
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    type: TYPES.includes(type) ? type : '',
+    // Without either year the filter is off; a missing end is filled in from the bounds,
+    // and years outside the bounds or in the wrong order are corrected
+    yearRange: startYear === null && endYear === null
+      ? null
+      : clampYearRange({
+        startYear: startYear ?? yearBounds.minYear,
+        endYear: endYear ?? yearBounds.maxYear
+      }, yearBounds),
+    page: Math.min(MAX_URL_PAGE, Math.max(1, parseInteger(params.get(PARAMS.page)) ?? 1)),
+    imdbID: imdbID && IMDB_ID_PATTERN.test(imdbID) ? imdbID : null,
+    mode,
+    // The year only applies to exact title lookups
+    exactYear: mode === 'title' && YEAR_PATTERN.test(exactYear) ? exactYear : ''
+  };
+};
+
+/**
+ * Builds the query string for a URL state, leaving out values that match the defaults
+ * @param state The URL state
+ * @returns The query string, including the leading '?' (or '' when empty)
+ */
+export const buildUrlSearch = (state: UrlState): string => {
+  const params = new URLSearchParams();
+
+  if (state.query.trim()) {
+    params.set(PARAMS.query, state.query);
+  }
+  if (state.type) {
+    params.set(PARAMS.type, state.type);
+  }
+  if (state.yearRange) {
+    params.set(PARAMS.startYear, String(state.yearRange.startYear));
+    params.set(PARAMS.endYear, String(state.yearRange.endYear));
+  }
+  if (state.query.trim() && state.page > 1) {
+    params.set(PARAMS.page, String(state.page));
+  }
+  if (state.imdbID) {
+    params.set(PARAMS.imdbID, state.imdbID);
+  }
+  if (state.mode === 'title') {
+    params.set(PARAMS.mode, state.mode);
+    if (state.exactYear) {
+      params.set(PARAMS.exactYear, state.exactYear);
+    }
+  }
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+/**
+ * Checks whether two year filters are the same
+ * @param a A year range, or null for any year
+ * @param b Another year range, or null for any year
+ * @returns Boolean indicating both filter the same years
+ */
+export const sameYearRange = (a: YearRange | null, b: YearRange | null): boolean =>
+  a === b || (a !== null && b !== null && a.startYear === b.startYear && a.endYear === b.endYear);
+
+/**
+ * Decides whether moving between two URL states deserves a new history entry.
+ * Opening a title or changing the type or search mode does; typing, dragging
+ * the year slider and loading more pages replace the current entry instead.
+ * @param previous The state currently in the URL
+ * @param next The new state
+ * @returns Boolean indicating a new history entry should be pushed
+ */
+export const shouldPushHistory = (previous: UrlState, next: UrlState): boolean =>
+  previous.imdbID !== next.imdbID || previous.type !== next.type || previous.mode !== next.mode;
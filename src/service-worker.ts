@@ -0,0 +1,57 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+/**
+ * Service Worker
+ * Precaches the app shell so the app opens offline, and caches poster images as
+ * they are used. OMDb responses are not cached here: the app's own response cache
+ * (src/api/responseCache.ts) keeps them in IndexedDB and serves them offline, so
+ * they aren't stored twice. Built by react-scripts, which injects the list of
+ * files to precache into `self.__WB_MANIFEST`.
+ */
+import { clientsClaim } from 'workbox-core';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { CacheFirst } from 'workbox-strategies';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Name of the runtime cache for posters
+const POSTER_CACHE = 'posters';
+
+// Paths that look like files (with an extension) are not app routes
+const FILE_EXTENSION_PATTERN = /\/[^/?]+\.[^/]+$/;
+
+clientsClaim();
+
+// Precache the files of the build (the app shell)
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Serve index.html for navigations, so shared links open offline too
+registerRoute(
+  ({ request, url }) =>
+    request.mode === 'navigate' && !url.pathname.startsWith('/_') && !FILE_EXTENSION_PATTERN.test(url.pathname),
+  createHandlerBoundToURL(`${process.env.PUBLIC_URL}/index.html`)
+);
+
+// Poster images (`Movie.poster`) rarely change, so the cache is used first.
+// Posters are cross-origin, so opaque responses (status 0) are cached as well.
+registerRoute(
+  ({ request, url }) => request.destination === 'image' && url.origin !== self.location.origin,
+  new CacheFirst({
+    cacheName: POSTER_CACHE,
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+      new ExpirationPlugin({ maxEntries: 300, maxAgeSeconds: 60 * 24 * 60 * 60, purgeOnQuotaError: true })
+    ]
+  })
+);
+
+// Let the page activate an updated worker straight away
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
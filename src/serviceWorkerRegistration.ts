@@ -0,0 +1,77 @@
+/**
+ * Service Worker Registration
+ * Registers the service worker in production builds, so the app shell and
+ * posters are available offline. Development builds skip it to
+ * avoid serving stale code while editing.
+ */
+
+/**
+ * Callbacks for the service worker lifecycle.
+ */
+export interface ServiceWorkerCallbacks {
+  onSuccess?: (registration: ServiceWorkerRegistration) => void; // Content is cached for offline use
+  onUpdate?: (registration: ServiceWorkerRegistration) => void;  // A new version is waiting to activate
+}
+
+/**
+ * Watches a registration for a newly installed worker
+ * @param registration The service worker registration
+ * @param callbacks Lifecycle callbacks
+ */
+const watchForUpdates = (registration: ServiceWorkerRegistration, callbacks: ServiceWorkerCallbacks) => {
+  registration.onupdatefound = () => {
+    const installing = registration.installing;
+    if (!installing) {
+      return;
+    }
+    installing.onstatechange = () => {
+      if (installing.state !== 'installed') {
+        return;
+      }
+      // With a controller in place this is an update, otherwise the first install
+      if (navigator.serviceWorker.controller) {
+        callbacks.onUpdate?.(registration);
+      } else {
+        callbacks.onSuccess?.(registration);
+      }
+    };
+  };
+};
+
+/**
+ * Registers the service worker once the page has loaded
+ * @param callbacks Lifecycle callbacks
+ */
+export const register = (callbacks: ServiceWorkerCallbacks = {}): void => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  // The worker can't control pages on a different origin from PUBLIC_URL (e.g. a CDN)
+  const publicUrl = new URL(process.env.PUBLIC_URL, window.location.href);
+  if (publicUrl.origin !== window.location.origin) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .then((registration) => watchForUpdates(registration, callbacks))
+      .catch((error) => {
+        console.error('Error during service worker registration:', error);
+      });
+  });
+};
+
+/**
+ * Unregisters the service worker, e.g. to turn offline support off again
+ */
+export const unregister = (): void => {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.ready
+      .then((registration) => registration.unregister())
+      .catch((error) => {
+        console.error(error.message);
+      });
+  }
+};
@@ -0,0 +1,90 @@
+/**
+ * History Storage Tests
+ * Covers recording searches and viewed titles, the size limits and corrupted data.
+ */
+
+import {
+  EMPTY_HISTORY,
+  HISTORY_STORAGE_KEY,
+  addRecentlyViewed,
+  addSearch,
+  createHistoryStorage,
+  matchingSearches
+} from './historyStorage';
+import { createMemoryStore } from './watchlistStorage';
+import { Movie, SearchHistoryEntry } from '../types';
+
+/**
+ * Builds a search run at a fixed time
+ */
+const search = (query: string, changes: Partial<SearchHistoryEntry> = {}): SearchHistoryEntry => ({
+  query,
+  type: '',
+  yearRange: null,
+  searchedAt: '2026-01-01T00:00:00.000Z',
+  ...changes
+});
+
+const movie = (imdbID: string): Movie => ({ imdbID, title: `Movie ${imdbID}`, year: 2022, type: 'movie', poster: null });
+
+describe('historyStorage', () => {
+  test('moves repeated searches to the front and keeps the newest within the limit', () => {
+    let searches = [search('alien'), search('heat', { type: 'movie' })];
+    searches = addSearch(searches, search('Heat ', { type: 'movie' }));
+    expect(searches.map((entry) => entry.query)).toEqual(['Heat', 'alien']);
+
+    searches = addSearch(searches, search('matrix'), 2);
+    expect(searches.map((entry) => entry.query)).toEqual(['matrix', 'Heat']);
+  });
+
+  test('replaces the newest search while it is being refined', () => {
+    let searches = addSearch([], search('bat'));
+    searches = addSearch(searches, search('batman'));
+    searches = addSearch(searches, search('batman', { yearRange: { startYear: 1980, endYear: 1989 } }));
+    expect(searches).toEqual([search('batman', { yearRange: { startYear: 1980, endYear: 1989 } })]);
+
+    // A different type is a new search
+    searches = addSearch(searches, search('batman', { type: 'series' }));
+    expect(searches).toHaveLength(2);
+  });
+
+  test('keeps the newest search when deleting back to a shorter query', () => {
+    let searches = addSearch([], search('star wars'));
+    searches = addSearch(searches, search('star'));
+    searches = addSearch(searches, search('star trek'));
+    expect(searches.map((entry) => entry.query)).toEqual(['star trek', 'star wars']);
+
+    searches = addSearch([], search('batman'));
+    searches = addSearch(searches, search('bat'));
+    searches = addSearch(searches, search('batgirl'));
+    expect(searches.map((entry) => entry.query)).toEqual(['batgirl', 'batman']);
+  });
+
+  test('suggests the searches containing the typed text', () => {
+    const searches = [search('The Batman'), search('Alien')];
+    expect(matchingSearches(searches, 'bat').map((entry) => entry.query)).toEqual(['The Batman']);
+    expect(matchingSearches(searches, '')).toHaveLength(2);
+  });
+
+  test('keeps each viewed title once, newest first', () => {
+    let viewed = addRecentlyViewed([], movie('tt1'));
+    viewed = addRecentlyViewed(viewed, movie('tt2'));
+    viewed = addRecentlyViewed(viewed, movie('tt1'), new Date(), 2);
+    expect(viewed.map((entry) => entry.imdbID)).toEqual(['tt1', 'tt2']);
+  });
+
+  test('saves and loads the history, ignoring corrupted data', () => {
+    const store = createMemoryStore();
+    const storage = createHistoryStorage(store);
+    const history = { searches: [search('heat')], recentlyViewed: addRecentlyViewed([], movie('tt1')) };
+
+    storage.save(history);
+    expect(storage.load()).toEqual(history);
+    // Titles are written with the same fields as the watchlist
+    expect(JSON.parse(store.getItem(HISTORY_STORAGE_KEY)!).recentlyViewed[0])
+      .toMatchObject({ imdbID: 'tt1', Title: 'Movie tt1', Year: '2022', Poster: 'N/A' });
+
+    store.setItem(HISTORY_STORAGE_KEY, '{not json');
+    expect(storage.load()).toEqual(EMPTY_HISTORY);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * History Storage
+ * Keeps the user's recent searches and recently viewed titles between sessions.
+ */
+import { Movie, RecentlyViewedEntry, SearchHistory, SearchHistoryEntry, YearRange } from '../types';
+import { KeyValueStore, createMemoryStore, fromStoredTitle, toBasicMovie, toStoredTitle } from './watchlistStorage';
+
+// Key under which the history is stored in localStorage
+export const HISTORY_STORAGE_KEY = 'omdb-movie-search:history';
+
+// Current version of the stored history schema
+export const HISTORY_SCHEMA_VERSION = 1;
+
+// Number of searches and titles kept, the oldest being dropped first
+export const MAX_SEARCH_HISTORY = 20;
+export const MAX_RECENTLY_VIEWED = 12;
+
+// History of a user who hasn't searched or opened anything yet
+export const EMPTY_HISTORY: SearchHistory = { searches: [], recentlyViewed: [] };
+
+/**
+ * Storage layer used by the App to load and save the history.
+ */
+export interface HistoryStorage {
+  load(): SearchHistory;
+  save(history: SearchHistory): void;
+}
+
+/**
+ * Checks whether a value is a non-null object
+ * @param value The value to check
+ * @returns Boolean indicating the value can be read as a record
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Checks whether two searches are the same, ignoring case and surrounding whitespace
+ * @param a A search
+ * @param b Another search
+ * @returns Boolean indicating the searches match
+ */
+export const sameSearch = (
+  a: Pick<SearchHistoryEntry, 'query' | 'type' | 'yearRange'>,
+  b: Pick<SearchHistoryEntry, 'query' | 'type' | 'yearRange'>
+): boolean =>
+  a.query.trim().toLowerCase() === b.query.trim().toLowerCase() &&
+  a.type === b.type &&
+  a.yearRange?.startYear === b.yearRange?.startYear &&
+  a.yearRange?.endYear === b.yearRange?.endYear;
+
+/**
+ * Adds a search to the front of the history.
+ * A repeated search moves to the front, and a search refining the newest one
+ * (typing on, or adjusting its year range) replaces it, so searching as you type
+ * doesn't fill the history with partial queries. A shorter query (e.g. after
+ * deleting back to a common prefix) is a new search and keeps the newest one.
+ * @param searches The history, newest first
+ * @param entry The search that was run
+ * @param limit The number of searches kept
+ * @returns The updated history
+ */
+export const addSearch = (
+  searches: SearchHistoryEntry[],
+  entry: SearchHistoryEntry,
+  limit: number = MAX_SEARCH_HISTORY
+): SearchHistoryEntry[] => {
+  const [newest, ...older] = searches;
+  const query = entry.query.trim().toLowerCase();
+  const newestQuery = newest?.query.trim().toLowerCase();
+  const refinesNewest = newest !== undefined && newest.type === entry.type && query.startsWith(newestQuery);
+
+  const rest = (refinesNewest ? older : searches).filter((search) => !sameSearch(search, entry));
+  return [{ ...entry, query: entry.query.trim() }, ...rest].slice(0, limit);
+};
+
+/**
+ * Removes a search from the history
+ * @param searches The history
+ * @param entry The search to remove
+ * @returns The updated history
+ */
+export const removeSearch = (searches: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry[] =>
+  searches.filter((search) => !sameSearch(search, entry));
+
+/**
+ * Lists the searches matching what has been typed so far
+ * @param searches The history, newest first
+ * @param text The text in the search box
+ * @returns The matching searches, or all of them when nothing has been typed
+ */
+export const matchingSearches = (searches: SearchHistoryEntry[], text: string): SearchHistoryEntry[] => {
+  const typed = text.trim().toLowerCase();
+  return searches.filter((search) => search.query.toLowerCase().includes(typed));
+};
+
+/**
+ * Adds a title to the front of the recently viewed titles, keeping only its basic fields
+ * @param entries The recently viewed titles, newest first
+ * @param movie The title that was opened
+ * @param viewedAt When it was opened
+ * @param limit The number of titles kept
+ * @returns The updated titles
+ */
+export const addRecentlyViewed = (
+  entries: RecentlyViewedEntry[],
+  movie: Movie,
+  viewedAt: Date = new Date(),
+  limit: number = MAX_RECENTLY_VIEWED
+): RecentlyViewedEntry[] => [
+  { ...toBasicMovie(movie), viewedAt: viewedAt.toISOString() },
+  ...entries.filter((entry) => entry.imdbID !== movie.imdbID)
+].slice(0, limit);
+
+/**
+ * Reads a stored year range
+ * @param value The raw stored year range
+ * @returns The year range, or null for any year
+ */
+const parseYearRange = (value: unknown): YearRange | null =>
+  isRecord(value) && typeof value.startYear === 'number' && typeof value.endYear === 'number'
+    ? { startYear: value.startYear, endYear: value.endYear }
+    : null;
+
+/**
+ * Parses a serialized history, discarding anything corrupted or incomplete
+ * @param raw The raw string read from storage
+ * @returns The valid history
+ */
+export const parseHistory = (raw: string | null): SearchHistory => {
+  let data: unknown;
+  try {
+    data = raw ? JSON.parse(raw) : null;
+  } catch {
+    return EMPTY_HISTORY;
+  }
+  if (!isRecord(data) || data.version !== HISTORY_SCHEMA_VERSION) {
+    return EMPTY_HISTORY;
+  }
+
+  const searches = (Array.isArray(data.searches) ? data.searches : [])
+    .filter((search): search is Record<string, unknown> => isRecord(search) && typeof search.query === 'string')
+    .map((search): SearchHistoryEntry => ({
+      query: search.query as string,
+      type: search.type === 'movie' || search.type === 'series' || search.type === 'episode' ? search.type : '',
+      yearRange: parseYearRange(search.yearRange),
+      searchedAt: typeof search.searchedAt === 'string' ? search.searchedAt : ''
+    }));
+
+  const recentlyViewed = (Array.isArray(data.recentlyViewed) ? data.recentlyViewed : [])
+    .filter((entry): entry is Record<string, unknown> =>
+      isRecord(entry) && typeof entry.imdbID === 'string' && typeof entry.Title === 'string')
+    .map((entry): RecentlyViewedEntry => ({
+      ...fromStoredTitle({
+        imdbID: entry.imdbID as string,
+        Title: entry.Title as string,
+        Year: typeof entry.Year === 'string' ? entry.Year : '',
+        Type: typeof entry.Type === 'string' ? entry.Type : '',
+        Poster: typeof entry.Poster === 'string' ? entry.Poster : ''
+      }),
+      viewedAt: typeof entry.viewedAt === 'string' ? entry.viewedAt : ''
+    }));
+
+  return {
+    searches: searches.slice(0, MAX_SEARCH_HISTORY),
+    recentlyViewed: recentlyViewed.slice(0, MAX_RECENTLY_VIEWED)
+  };
+};
+
+/**
+ * Serializes the history using the current schema version
+ * @param history The history to serialize
+ * @returns The string to write to storage
+ */
+export const serializeHistory = (history: SearchHistory): string =>
+  JSON.stringify({
+    version: HISTORY_SCHEMA_VERSION,
+    searches: history.searches,
+    recentlyViewed: history.recentlyViewed.map((entry) => ({ ...toStoredTitle(entry), viewedAt: entry.viewedAt }))
+  });
+
+/**
+ * Creates a history storage backed by a key/value store such as localStorage
+ * @param store The key/value store to persist to
+ * @returns The history storage
+ */
+export const createHistoryStorage = (store: KeyValueStore): HistoryStorage => ({
+  load: () => {
+    try {
+      return parseHistory(store.getItem(HISTORY_STORAGE_KEY));
+    } catch (error) {
+      console.warn('Unable to read the history from storage:', error);
+      return EMPTY_HISTORY;
+    }
+  },
+
+  save: (history) => {
+    try {
+      store.setItem(HISTORY_STORAGE_KEY, serializeHistory(history));
+    } catch (error) {
+      console.warn('Unable to save the history to storage:', error);
+    }
+  }
+});
+
+/**
+ * Creates the default history storage for the browser, falling back to
+ * memory when localStorage is blocked (e.g. private browsing)
+ * @returns The history storage
+ */
+export const createBrowserHistoryStorage = (): HistoryStorage => {
+  try {
+    const store = window.localStorage;
+    // Accessing localStorage can throw, so probe it before relying on it
+    store.getItem(HISTORY_STORAGE_KEY);
+    return createHistoryStorage(store);
+  } catch {
+    return createHistoryStorage(createMemoryStore());
+  }
+};
@@ -0,0 +1,22 @@
+/**
+ * Theme Mode Storage Tests
+ * Covers remembering the color mode and ignoring unknown stored values.
+ */
+
+import { DEFAULT_THEME_MODE, THEME_MODE_STORAGE_KEY, createThemeModeStorage } from './themeModeStorage';
+import { createMemoryStore } from './watchlistStorage';
+
+describe('themeModeStorage', () => {
+  test('saves and loads the color mode, falling back to the default', () => {
+    const store = createMemoryStore();
+    const storage = createThemeModeStorage(store);
+    expect(storage.load()).toBe(DEFAULT_THEME_MODE);
+
+    storage.save('dark');
+    expect(store.getItem(THEME_MODE_STORAGE_KEY)).toBe('dark');
+    expect(storage.load()).toBe('dark');
+
+    store.setItem(THEME_MODE_STORAGE_KEY, 'sepia');
+    expect(storage.load()).toBe(DEFAULT_THEME_MODE);
+  });
+});
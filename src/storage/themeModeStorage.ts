@@ -0,0 +1,68 @@
+/**
+ * Theme Mode Storage
+ * Remembers whether the user chose the light, dark or system color mode.
+ */
+import { THEME_MODES, ThemeMode } from '../theme/theme';
+import { KeyValueStore, createMemoryStore } from './watchlistStorage';
+
+// Key under which the color mode is stored in localStorage
+export const THEME_MODE_STORAGE_KEY = 'omdb-movie-search:theme-mode';
+
+// Mode used until the user picks one
+export const DEFAULT_THEME_MODE: ThemeMode = 'system';
+
+/**
+ * Storage layer used by the theme provider to load and save the color mode.
+ */
+export interface ThemeModeStorage {
+  load(): ThemeMode;
+  save(mode: ThemeMode): void;
+}
+
+/**
+ * Reads a stored color mode
+ * @param raw The raw string read from storage
+ * @returns The color mode, or the default when nothing valid is stored
+ */
+export const parseThemeMode = (raw: string | null): ThemeMode =>
+  THEME_MODES.find((mode) => mode === raw) ?? DEFAULT_THEME_MODE;
+
+/**
+ * Creates a color mode storage backed by a key/value store such as localStorage
+ * @param store The key/value store to persist to
+ * @returns The color mode storage
+ */
+export const createThemeModeStorage = (store: KeyValueStore): ThemeModeStorage => ({
+  load: () => {
+    try {
+      return parseThemeMode(store.getItem(THEME_MODE_STORAGE_KEY));
+    } catch (error) {
+      console.warn('Unable to read the color mode from storage:', error);
+      return DEFAULT_THEME_MODE;
+    }
+  },
+
+  save: (mode) => {
+    try {
+      store.setItem(THEME_MODE_STORAGE_KEY, mode);
+    } catch (error) {
+      console.warn('Unable to save the color mode to storage:', error);
+    }
+  }
+});
+
+/**
+ * Creates the default color mode storage for the browser, falling back to
+ * memory when localStorage is blocked (e.g. private browsing)
+ * @returns The color mode storage
+ */
+export const createBrowserThemeModeStorage = (): ThemeModeStorage => {
+  try {
+    const store = window.localStorage;
+    // Accessing localStorage can throw, so probe it before relying on it
+    store.getItem(THEME_MODE_STORAGE_KEY);
+    return createThemeModeStorage(store);
+  } catch {
+    return createThemeModeStorage(createMemoryStore());
+  }
+};
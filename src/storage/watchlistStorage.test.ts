@@ -0,0 +1,149 @@
+/**
+ * Watchlist Storage Tests
+ * Covers loading, saving, schema migration, corrupted data and cross-tab syncing.
+ */
+
+import {
+  DEFAULT_LIST_ID,
+  DEFAULT_LIST_NAME,
+  WATCHLIST_STORAGE_KEY,
+  WATCHLIST_SCHEMA_VERSION,
+  createMemoryStore,
+  createWatchlistStorage,
+  parseWatchlist,
+  serializeWatchlist,
+  toWatchlistEntry
+} from './watchlistStorage';
+import { Movie, NamedList, WatchlistEntry } from '../types';
+
+const movie: Movie = {
+  imdbID: 'tt1234',
+  title: 'Test Movie',
+  year: 2022,
+  type: 'movie',
+  poster: 'test-poster.jpg'
+};
+
+// The movie as written to storage
+const storedMovie = {
+  imdbID: 'tt1234',
+  Title: 'Test Movie',
+  Year: '2022',
+  Type: 'movie',
+  Poster: 'test-poster.jpg'
+};
+
+const tracking = {
+  addedAt: '2026-01-01T00:00:00.000Z',
+  watched: true,
+  watchedAt: '2026-02-01T00:00:00.000Z',
+  notes: 'Watch with the team'
+};
+
+const entry: WatchlistEntry = { ...movie, ...tracking };
+const storedEntry = { ...storedMovie, ...tracking };
+
+// Fields filled in when older or partial entries are upgraded
+const upgraded = { addedAt: expect.any(String), watched: false, watchedAt: null, notes: '' };
+
+/**
+ * Builds the default watchlist holding the given entries
+ */
+const defaultList = (entries: unknown[]) => ({ id: DEFAULT_LIST_ID, name: DEFAULT_LIST_NAME, entries });
+
+const fridayList: NamedList = { id: 'list-friday', name: 'Friday movie night', entries: [entry] };
+const storedFridayList = { ...fridayList, entries: [storedEntry] };
+
+describe('watchlistStorage', () => {
+  test('saves and loads the lists with the current schema version', () => {
+    const store = createMemoryStore();
+    const storage = createWatchlistStorage(store);
+    const lists = [defaultList([entry]) as NamedList, fridayList];
+
+    storage.save(lists);
+
+    expect(JSON.parse(store.getItem(WATCHLIST_STORAGE_KEY)!).version).toBe(WATCHLIST_SCHEMA_VERSION);
+    expect(storage.load()).toEqual(lists);
+  });
+
+  test('writes titles with the field names and values earlier versions saved', () => {
+    const series: WatchlistEntry = { ...entry, imdbID: 'tt5678', year: 2019, endYear: null, type: 'series', poster: null };
+    const stored = JSON.parse(serializeWatchlist([defaultList([entry, series]) as NamedList]));
+
+    expect(stored.lists[0].entries).toEqual([
+      storedEntry,
+      { ...storedEntry, imdbID: 'tt5678', Year: '2019–', Type: 'series', Poster: 'N/A' }
+    ]);
+    expect(parseWatchlist(JSON.stringify(stored))).toEqual([defaultList([entry, series])]);
+  });
+
+  test('starts with an empty default watchlist', () => {
+    expect(createWatchlistStorage(createMemoryStore()).load()).toEqual([defaultList([])]);
+  });
+
+  test('migrates a legacy unversioned array', () => {
+    expect(parseWatchlist(JSON.stringify([storedMovie]))).toEqual([defaultList([{ ...movie, ...upgraded }])]);
+  });
+
+  test('migrates version 1 movies to entries with watched status and notes', () => {
+    expect(parseWatchlist(JSON.stringify({ version: 1, items: [storedMovie] })))
+      .toEqual([defaultList([{ ...movie, ...upgraded }])]);
+  });
+
+  test('migrates the version 2 watchlist to the default named list', () => {
+    expect(parseWatchlist(JSON.stringify({ version: 2, items: [storedEntry] }))).toEqual([defaultList([entry])]);
+  });
+
+  test('creates entries with only the basic movie fields', () => {
+    const details = { ...movie, plot: 'A plot', directors: ['Someone'] };
+    expect(toWatchlistEntry(details, new Date('2026-01-01T00:00:00.000Z'))).toEqual({
+      ...movie,
+      addedAt: '2026-01-01T00:00:00.000Z',
+      watched: false,
+      watchedAt: null,
+      notes: ''
+    });
+  });
+
+  test('recovers from corrupted or partial data', () => {
+    expect(parseWatchlist('{not json')).toEqual([defaultList([])]);
+    expect(parseWatchlist(JSON.stringify({ items: [storedMovie] }))).toEqual([defaultList([])]);
+
+    // Entries without an ID are dropped, missing optional fields are filled in
+    const partial = JSON.stringify({
+      version: 2,
+      items: [{ Title: 'No ID' }, { imdbID: 'tt5678', Title: 'Partial' }, storedEntry, storedEntry]
+    });
+    expect(parseWatchlist(partial)).toEqual([defaultList([
+      { imdbID: 'tt5678', title: 'Partial', year: null, type: '', poster: null, ...upgraded, addedAt: '' },
+      entry
+    ])]);
+  });
+
+  test('drops invalid lists and keeps the default watchlist first', () => {
+    const stored = JSON.stringify({
+      version: 3,
+      lists: [storedFridayList, { name: 'No ID' }, { ...storedFridayList, name: 'Duplicate ID' }, defaultList([storedEntry])]
+    });
+    expect(parseWatchlist(stored)).toEqual([defaultList([entry]), fridayList]);
+  });
+
+  test('notifies subscribers of changes made in other tabs', () => {
+    const storage = createWatchlistStorage(createMemoryStore(), window);
+    const listener = jest.fn();
+    const unsubscribe = storage.subscribe(listener);
+
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: WATCHLIST_STORAGE_KEY,
+      newValue: JSON.stringify({ version: 3, lists: [storedFridayList] })
+    }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'unrelated', newValue: '[]' }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith([defaultList([]), fridayList]);
+
+    unsubscribe();
+    window.dispatchEvent(new StorageEvent('storage', { key: WATCHLIST_STORAGE_KEY, newValue: null }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
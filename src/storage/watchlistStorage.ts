@@ -0,0 +1,409 @@
+/**
+ * Watchlist Storage
+ * Persists the user's lists between sessions and keeps open tabs in sync.
+ */
+import { Movie, NamedList, WatchlistEntry } from '../types';
+import { formatYears, parseYears } from '../titles/titleText';
+
+// Key under which the watchlist is stored in localStorage
+export const WATCHLIST_STORAGE_KEY = 'omdb-movie-search:watchlist';
+
+// Current version of the stored watchlist schema
+export const WATCHLIST_SCHEMA_VERSION = 3;
+
+// ID and name of the default watchlist, which every user has and can't delete
+export const DEFAULT_LIST_ID = 'watchlist';
+export const DEFAULT_LIST_NAME = 'Watchlist';
+
+// Value of the stored poster field for titles without one
+const NO_POSTER = 'N/A';
+
+/**
+ * The fields of a title as written to storage and exported files. They keep the
+ * names and text values lists were first saved with, so older data still loads.
+ */
+export interface StoredTitle {
+  imdbID: string;   // The IMDb ID of the title
+  Title: string;    // The title
+  Year: string;     // The release years, e.g. "1999" or "2008–2013"
+  Type: string;     // The type of the title
+  Poster: string;   // The URL of the poster image, or "N/A"
+}
+
+/**
+ * The structure of a watchlist entry as written to storage.
+ */
+export interface StoredWatchlistEntry extends StoredTitle {
+  addedAt: string;            // When the title was added (ISO date string)
+  watched: boolean;           // Whether the user has watched the title
+  watchedAt: string | null;   // When the title was marked as watched (ISO date string)
+  notes: string;              // Free-text notes about the title
+}
+
+/**
+ * The structure of a named list as written to storage.
+ */
+export interface StoredNamedList {
+  id: string;                       // Unique ID of the list
+  name: string;                     // Name given to the list by the user
+  entries: StoredWatchlistEntry[];  // The entries in the list, in the user's order
+}
+
+/**
+ * The structure of the lists as written to storage.
+ */
+export interface StoredWatchlist {
+  version: number;            // The schema version the data was written with
+  lists: StoredNamedList[];   // The user's lists, starting with the default watchlist
+}
+
+/**
+ * Minimal key/value interface satisfied by window.localStorage and test fakes.
+ */
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Storage layer used by the App to load, save and sync the lists.
+ */
+export interface WatchlistStorage {
+  load(): NamedList[];
+  save(lists: NamedList[]): void;
+  subscribe(listener: (lists: NamedList[]) => void): () => void;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each migration receives data of version N and returns data of version N + 1.
+ */
+const migrations: Record<number, (data: unknown) => unknown> = {
+  // Version 0: the watchlist was stored as a bare array of movies
+  0: (data) => ({ version: 1, items: Array.isArray(data) ? data : [] }),
+  // Version 1: entries were plain movies without watched status or notes
+  1: (data) => {
+    const items = isRecord(data) && Array.isArray(data.items) ? data.items : [];
+    const addedAt = new Date().toISOString();
+    return {
+      version: 2,
+      items: items.map((item) =>
+        isRecord(item) ? { addedAt, watched: false, watchedAt: null, notes: '', ...item } : item
+      )
+    };
+  },
+  // Version 2: there was a single watchlist rather than named lists
+  2: (data) => ({
+    version: 3,
+    lists: [{
+      id: DEFAULT_LIST_ID,
+      name: DEFAULT_LIST_NAME,
+      entries: isRecord(data) && Array.isArray(data.items) ? data.items : []
+    }]
+  })
+};
+
+/**
+ * Checks whether a value is a non-null object
+ * @param value The value to check
+ * @returns Boolean indicating the value can be read as a record
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Creates an empty default watchlist
+ * @returns The default list
+ */
+export const createDefaultList = (): NamedList => ({
+  id: DEFAULT_LIST_ID,
+  name: DEFAULT_LIST_NAME,
+  entries: []
+});
+
+/**
+ * Creates a new, empty named list with a unique ID
+ * @param name The name of the list
+ * @returns The new list
+ */
+export const createNamedList = (name: string): NamedList => ({
+  id: `list-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  entries: []
+});
+
+/**
+ * Converts a title to the fields written to storage
+ * @param movie The title
+ * @returns The stored fields
+ */
+export const toStoredTitle = (movie: Movie): StoredTitle => ({
+  imdbID: movie.imdbID,
+  Title: movie.title,
+  Year: formatYears(movie),
+  Type: movie.type,
+  Poster: movie.poster ?? NO_POSTER
+});
+
+/**
+ * Reads a title back from the fields written to storage
+ * @param stored The stored fields
+ * @returns The title
+ */
+export const fromStoredTitle = (stored: StoredTitle): Movie => ({
+  title: stored.Title,
+  ...parseYears(stored.Year),
+  imdbID: stored.imdbID,
+  type: stored.Type,
+  poster: stored.Poster && stored.Poster !== NO_POSTER ? stored.Poster : null
+});
+
+/**
+ * Keeps only the basic movie fields of a title, e.g. of its details
+ * @param movie The movie (or movie details)
+ * @returns The basic movie
+ */
+export const toBasicMovie = (movie: Movie): Movie => ({
+  title: movie.title,
+  year: movie.year,
+  ...(movie.endYear !== undefined ? { endYear: movie.endYear } : {}),
+  imdbID: movie.imdbID,
+  type: movie.type,
+  poster: movie.poster
+});
+
+/**
+ * Creates a new watchlist entry for a movie, keeping only the basic movie fields
+ * @param movie The movie (or movie details) being added
+ * @param addedAt When the movie was added
+ * @returns The watchlist entry
+ */
+export const toWatchlistEntry = (movie: Movie, addedAt: Date = new Date()): WatchlistEntry => ({
+  ...toBasicMovie(movie),
+  addedAt: addedAt.toISOString(),
+  watched: false,
+  watchedAt: null,
+  notes: ''
+});
+
+/**
+ * Rebuilds an entry from stored data, filling in any missing optional fields
+ * @param value The raw stored entry
+ * @returns The entry, or null if it is missing its identifying fields
+ */
+export const sanitizeEntry = (value: unknown): WatchlistEntry | null => {
+  if (!isRecord(value) || typeof value.imdbID !== 'string' || typeof value.Title !== 'string') {
+    return null;
+  }
+
+  const watched = value.watched === true;
+  return {
+    ...fromStoredTitle({
+      imdbID: value.imdbID,
+      Title: value.Title,
+      Year: typeof value.Year === 'string' ? value.Year : '',
+      Type: typeof value.Type === 'string' ? value.Type : '',
+      Poster: typeof value.Poster === 'string' ? value.Poster : NO_POSTER
+    }),
+    addedAt: typeof value.addedAt === 'string' ? value.addedAt : '',
+    watched,
+    watchedAt: watched && typeof value.watchedAt === 'string' ? value.watchedAt : null,
+    notes: typeof value.notes === 'string' ? value.notes : ''
+  };
+};
+
+/**
+ * Keeps the valid entries of a stored list, dropping duplicates by IMDb ID
+ * @param items The raw stored entries
+ * @returns The valid entries
+ */
+export const sanitizeEntries = (items: unknown[]): WatchlistEntry[] => {
+  const seen = new Set<string>();
+  return items.reduce<WatchlistEntry[]>((entries, item) => {
+    const entry = sanitizeEntry(item);
+    if (entry && !seen.has(entry.imdbID)) {
+      seen.add(entry.imdbID);
+      entries.push(entry);
+    }
+    return entries;
+  }, []);
+};
+
+/**
+ * Reads the valid lists from serialized data
+ * @param raw The raw string read from storage
+ * @returns The valid lists, in their stored order
+ */
+const parseStoredLists = (raw: string | null): NamedList[] => {
+  if (!raw) {
+    return [];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+
+  // Work out which version the data was written with (bare arrays pre-date versioning)
+  let version = Array.isArray(data)
+    ? 0
+    : isRecord(data) && typeof data.version === 'number' ? data.version : -1;
+
+  if (version < 0) {
+    return [];
+  }
+
+  // Step through each migration until the data reaches the current version
+  while (version < WATCHLIST_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return [];
+    }
+    data = migrate(data);
+    version += 1;
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.lists)) {
+    return [];
+  }
+
+  // Keep the lists with an ID and name, dropping duplicate IDs
+  const seen = new Set<string>();
+  return data.lists.reduce<NamedList[]>((lists, list) => {
+    if (isRecord(list) && typeof list.id === 'string' && typeof list.name === 'string' && !seen.has(list.id)) {
+      seen.add(list.id);
+      lists.push({
+        id: list.id,
+        name: list.name,
+        entries: sanitizeEntries(Array.isArray(list.entries) ? list.entries : [])
+      });
+    }
+    return lists;
+  }, []);
+};
+
+/**
+ * Parses serialized lists, upgrading older schema versions and
+ * discarding anything that is corrupted or incomplete
+ * @param raw The raw string read from storage
+ * @returns The valid lists, always starting with the default watchlist
+ */
+export const parseWatchlist = (raw: string | null): NamedList[] => {
+  const lists = parseStoredLists(raw);
+  const defaultList = lists.find((list) => list.id === DEFAULT_LIST_ID) ?? createDefaultList();
+  return [defaultList, ...lists.filter((list) => list !== defaultList)];
+};
+
+/**
+ * Converts a watchlist entry to the fields written to storage
+ * @param entry The entry
+ * @returns The stored entry
+ */
+const toStoredEntry = (entry: WatchlistEntry): StoredWatchlistEntry => ({
+  ...toStoredTitle(entry),
+  addedAt: entry.addedAt,
+  watched: entry.watched,
+  watchedAt: entry.watchedAt,
+  notes: entry.notes
+});
+
+/**
+ * Serializes lists using the current schema version
+ * @param lists The lists to serialize
+ * @returns The string to write to storage
+ */
+export const serializeWatchlist = (lists: NamedList[]): string => {
+  const stored: StoredWatchlist = {
+    version: WATCHLIST_SCHEMA_VERSION,
+    lists: lists.map((list) => ({ ...list, entries: list.entries.map(toStoredEntry) }))
+  };
+  return JSON.stringify(stored);
+};
+
+/**
+ * Creates a watchlist storage backed by a key/value store such as localStorage.
+ * Changes made in other tabs are delivered to subscribers through `storage` events.
+ * @param store The key/value store to persist to
+ * @param target The window that receives `storage` events
+ * @returns The watchlist storage
+ */
+export const createWatchlistStorage = (
+  store: KeyValueStore,
+  target: Pick<Window, 'addEventListener' | 'removeEventListener'> | null = null
+): WatchlistStorage => ({
+  load: () => {
+    try {
+      return parseWatchlist(store.getItem(WATCHLIST_STORAGE_KEY));
+    } catch (error) {
+      console.warn('Unable to read the watchlist from storage:', error);
+      return [createDefaultList()];
+    }
+  },
+
+  save: (lists) => {
+    try {
+      const serialized = serializeWatchlist(lists);
+      // Skip identical writes so tabs don't echo each other's updates
+      if (store.getItem(WATCHLIST_STORAGE_KEY) !== serialized) {
+        store.setItem(WATCHLIST_STORAGE_KEY, serialized);
+      }
+    } catch (error) {
+      console.warn('Unable to save the watchlist to storage:', error);
+    }
+  },
+
+  subscribe: (listener) => {
+    if (!target) {
+      return () => {};
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means the whole store was cleared
+      if (event.key === WATCHLIST_STORAGE_KEY || event.key === null) {
+        listener(parseWatchlist(event.newValue));
+      }
+    };
+
+    target.addEventListener('storage', handleStorage);
+    return () => target.removeEventListener('storage', handleStorage);
+  }
+});
+
+/**
+ * Creates an in-memory key/value store, used as a fallback when
+ * localStorage is unavailable and as a fake in tests
+ * @param initial Optional initial entries
+ * @returns The in-memory store
+ */
+export const createMemoryStore = (initial: Record<string, string> = {}): KeyValueStore => {
+  const entries = new Map(Object.entries(initial));
+
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    }
+  };
+};
+
+/**
+ * Creates the default watchlist storage for the browser, falling back to
+ * memory when localStorage is blocked (e.g. private browsing)
+ * @returns The watchlist storage
+ */
+export const createBrowserWatchlistStorage = (): WatchlistStorage => {
+  try {
+    const store = window.localStorage;
+    // Accessing localStorage can throw, so probe it before relying on it
+    store.getItem(WATCHLIST_STORAGE_KEY);
+    return createWatchlistStorage(store, window);
+  } catch {
+    return createWatchlistStorage(createMemoryStore());
+  }
+};
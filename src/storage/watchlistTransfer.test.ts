@@ -0,0 +1,147 @@
+/**
+ * Watchlist Transfer Tests
+ * Covers exporting to JSON, CSV and Letterboxd CSV, and validating and de-duplicating imports.
+ */
+
+import { exportWatchlist, parseCsv, previewWatchlistImport } from './watchlistTransfer';
+import { NamedList, WatchlistEntry } from '../types';
+
+const importedAt = new Date('2026-03-01T00:00:00.000Z');
+
+const watched: WatchlistEntry = {
+  imdbID: 'tt0111161',
+  title: 'The Shawshank Redemption',
+  year: 1994,
+  type: 'movie',
+  poster: null,
+  addedAt: '2026-01-01T00:00:00.000Z',
+  watched: true,
+  watchedAt: '2026-02-14T20:00:00.000Z',
+  notes: 'Hope, "quoted", and commas'
+};
+
+const unwatched: WatchlistEntry = {
+  imdbID: 'tt0903747',
+  title: 'Breaking Bad',
+  year: 2008,
+  endYear: 2013,
+  type: 'series',
+  poster: 'poster.jpg',
+  addedAt: '2026-01-02T00:00:00.000Z',
+  watched: false,
+  watchedAt: null,
+  notes: ''
+};
+
+const list: NamedList = { id: 'list-1', name: 'Friday movie night', entries: [watched, unwatched] };
+
+describe('watchlistTransfer', () => {
+  test('round-trips the watchlist through JSON and CSV', () => {
+    ['json', 'csv'].forEach((format) => {
+      const exported = exportWatchlist(list, format as 'json' | 'csv');
+      expect(previewWatchlistImport(exported, [], importedAt)).toEqual({
+        added: [watched, unwatched],
+        duplicates: 0,
+        errors: []
+      });
+    });
+  });
+
+  test('exports titles with the field names of earlier exports', () => {
+    const [header, row] = parseCsv(exportWatchlist(list, 'csv'));
+    expect(header.slice(0, 5)).toEqual(['imdbID', 'Title', 'Year', 'Type', 'Poster']);
+    expect(row.slice(0, 5)).toEqual(['tt0111161', 'The Shawshank Redemption', '1994', 'movie', 'N/A']);
+
+    const json = JSON.parse(exportWatchlist(list, 'json'));
+    expect(json.lists[0].entries[1]).toMatchObject({ Title: 'Breaking Bad', Year: '2008–2013', Poster: 'poster.jpg' });
+  });
+
+  test('keeps spreadsheets from running titles and notes as formulas', () => {
+    const risky: NamedList = {
+      ...list,
+      entries: [{ ...watched, title: '=HYPERLINK("http://example.com")', notes: '@SUM(A1)' }, { ...unwatched, notes: '-2+3' }]
+    };
+    const exported = exportWatchlist(risky, 'csv');
+    const [, first, second] = parseCsv(exported);
+    expect(first[1]).toBe(`'=HYPERLINK("http://example.com")`);
+    expect(first[8]).toBe(`'@SUM(A1)`);
+    expect(second[8]).toBe(`'-2+3`);
+    expect(parseCsv(exportWatchlist(risky, 'letterboxd'))[1][1]).toBe(`'=HYPERLINK("http://example.com")`);
+
+    // Importing the export gives back the original values
+    expect(previewWatchlistImport(exported, [], importedAt).added).toEqual(risky.entries);
+  });
+
+  test('imports the entries of older JSON exports', () => {
+    const older = JSON.stringify({
+      version: 2,
+      items: [{
+        imdbID: 'tt0111161',
+        Title: 'The Shawshank Redemption',
+        Year: '1994',
+        Type: 'movie',
+        Poster: 'N/A',
+        addedAt: watched.addedAt,
+        watched: true,
+        watchedAt: watched.watchedAt,
+        notes: watched.notes
+      }]
+    });
+    expect(previewWatchlistImport(older, [], importedAt).added).toEqual([watched]);
+  });
+
+  test('exports Letterboxd columns with the watched date', () => {
+    expect(parseCsv(exportWatchlist(list, 'letterboxd'))).toEqual([
+      ['imdbID', 'Title', 'Year', 'WatchedDate'],
+      ['tt0111161', 'The Shawshank Redemption', '1994', '2026-02-14'],
+      ['tt0903747', 'Breaking Bad', '2008', '']
+    ]);
+  });
+
+  test('imports Letterboxd CSV, marking titles with a watched date as watched', () => {
+    const csv = 'imdbID,Title,Year,WatchedDate\r\ntt0111161,The Shawshank Redemption,1994,2026-02-14\r\n';
+
+    expect(previewWatchlistImport(csv, [], importedAt).added).toEqual([{
+      imdbID: 'tt0111161',
+      title: 'The Shawshank Redemption',
+      year: 1994,
+      type: 'movie',
+      poster: null,
+      addedAt: importedAt.toISOString(),
+      watched: true,
+      watchedAt: '2026-02-14T00:00:00.000Z',
+      notes: ''
+    }]);
+  });
+
+  test('reports invalid rows and skips titles already listed or repeated', () => {
+    const csv = [
+      'Title,imdbID,WatchedDate',
+      'No ID,,',
+      'Bad ID,nm0000001,',
+      ',tt0068646,',
+      'Bad date,tt0071562,yesterday-ish',
+      'Listed,tt0111161,',
+      'New,https://www.imdb.com/title/tt0468569/,',
+      'Repeated,tt0468569,'
+    ].join('\n');
+
+    const preview = previewWatchlistImport(csv, [watched], importedAt);
+
+    expect(preview.added.map((entry) => entry.imdbID)).toEqual(['tt0468569']);
+    expect(preview.duplicates).toBe(2);
+    expect(preview.errors).toEqual([
+      'Row 2: "missing" is not a valid IMDb ID',
+      'Row 3: "nm0000001" is not a valid IMDb ID',
+      'Row 4: the title is missing',
+      'Row 5: the date is not valid'
+    ]);
+  });
+
+  test('rejects files that are not a watchlist', () => {
+    expect(previewWatchlistImport('', [], importedAt).errors).toEqual(['The file is empty']);
+    expect(previewWatchlistImport('{broken', [], importedAt).errors).toEqual(['The file is not valid JSON']);
+    expect(previewWatchlistImport('name,rating\nA,5', [], importedAt).errors)
+      .toEqual(['The file needs imdbID and Title columns']);
+  });
+});
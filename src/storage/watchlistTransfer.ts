@@ -0,0 +1,349 @@
+/**
+ * Watchlist Transfer
+ * Exports the watchlist as JSON, CSV or Letterboxd import CSV, and reads the
+ * same formats back in so lists can be moved between tools.
+ */
+import { NamedList, WatchlistEntry } from '../types';
+import { extractImdbId } from '../api/imdbId';
+import { fromStoredTitle, sanitizeEntry, serializeWatchlist, toStoredTitle } from './watchlistStorage';
+
+// Formats the watchlist can be exported as
+export type WatchlistExportFormat = 'json' | 'csv' | 'letterboxd';
+
+/**
+ * File details for each export format.
+ */
+export const EXPORT_FORMATS: Record<WatchlistExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  letterboxd: { label: 'Letterboxd CSV', extension: 'csv', mimeType: 'text/csv' }
+};
+
+// Columns written to a plain CSV export
+const CSV_COLUMNS = ['imdbID', 'Title', 'Year', 'Type', 'Poster', 'AddedAt', 'Watched', 'WatchedAt', 'Notes'];
+
+// Columns understood by Letterboxd's import
+const LETTERBOXD_COLUMNS = ['imdbID', 'Title', 'Year', 'WatchedDate'];
+
+/**
+ * The result of reading an import file, ready to preview.
+ */
+export interface WatchlistImportPreview {
+  added: WatchlistEntry[];  // Entries that will be added to the watchlist
+  duplicates: number;       // Rows skipped because the title is already listed
+  errors: string[];         // Rows that couldn't be read, with the reason
+}
+
+// Leading characters that make spreadsheets run a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// A formula character guarded by a leading apostrophe on export
+const GUARDED_FORMULA_PREFIX = /^'[=+\-@\t\r]/;
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break, and prefixes
+ * fields starting with a formula character with an apostrophe so spreadsheets show them as text
+ * @param value The field value
+ * @returns The escaped field
+ */
+const escapeCsvField = (value: string): string => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Removes the apostrophe added on export in front of a formula character
+ * @param value The field value
+ * @returns The field as it was before export
+ */
+const unguardCsvField = (value: string): string =>
+  GUARDED_FORMULA_PREFIX.test(value) ? value.slice(1) : value;
+
+/**
+ * Joins rows of fields into CSV text
+ * @param rows The rows, including the header
+ * @returns The CSV text
+ */
+const toCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180 quoting
+ * @param text The CSV text
+ * @returns The rows, with blank lines left out
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat \r\n as a single line break
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+/**
+ * Converts an ISO date string to the YYYY-MM-DD form used by Letterboxd
+ * @param value ISO date string
+ * @returns The date, or '' if it is missing or invalid
+ */
+const toDateOnly = (value: string | null): string => {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : '';
+};
+
+/**
+ * Exports a list in the given format
+ * @param list The list to export
+ * @param format The export format
+ * @returns The file contents
+ */
+export const exportWatchlist = (list: NamedList, format: WatchlistExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(JSON.parse(serializeWatchlist([list])), null, 2);
+    case 'csv':
+      return toCsv([
+        CSV_COLUMNS,
+        ...list.entries.map((entry) => {
+          const { imdbID, Title, Year, Type, Poster } = toStoredTitle(entry);
+          return [
+            imdbID,
+            Title,
+            Year,
+            Type,
+            Poster,
+            entry.addedAt,
+            entry.watched ? 'true' : 'false',
+            entry.watchedAt ?? '',
+            entry.notes
+          ];
+        })
+      ]);
+    case 'letterboxd':
+      return toCsv([
+        LETTERBOXD_COLUMNS,
+        // Letterboxd expects a single release year, so series keep their first year
+        ...list.entries.map((entry) => [entry.imdbID, entry.title, String(entry.year ?? ''), toDateOnly(entry.watchedAt)])
+      ]);
+  }
+};
+
+// Header names accepted for each entry field, lower-cased
+const COLUMN_ALIASES: Record<string, string[]> = {
+  imdbID: ['imdbid', 'imdb id', 'const'],
+  Title: ['title', 'name'],
+  Year: ['year'],
+  Type: ['type'],
+  Poster: ['poster'],
+  addedAt: ['addedat', 'date'],
+  watched: ['watched'],
+  watchedAt: ['watchedat', 'watcheddate'],
+  notes: ['notes', 'review']
+};
+
+/**
+ * Reads a date column, accepting ISO dates and YYYY-MM-DD
+ * @param value The raw value
+ * @returns ISO date string, null if blank, or undefined if the value isn't a date
+ */
+const parseDate = (value: string): string | null | undefined => {
+  if (!value.trim()) {
+    return null;
+  }
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Reads entries from CSV text (plain or Letterboxd), matching columns by header name
+ * @param text The CSV text
+ * @param importedAt Date recorded as addedAt for rows without one
+ * @returns The valid entries and any row errors
+ */
+const readCsvEntries = (text: string, importedAt: string): { entries: WatchlistEntry[]; errors: string[] } => {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const headerNames = header.map((name) => name.trim().toLowerCase());
+  const columnOf = (field: string) => headerNames.findIndex((name) => COLUMN_ALIASES[field].includes(name));
+
+  const columns = Object.keys(COLUMN_ALIASES).reduce<Record<string, number>>((found, field) => {
+    found[field] = columnOf(field);
+    return found;
+  }, {});
+
+  if (columns.imdbID < 0 || columns.Title < 0) {
+    return { entries: [], errors: ['The file needs imdbID and Title columns'] };
+  }
+
+  const entries: WatchlistEntry[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    // Row numbers count the header as row 1, as spreadsheets do
+    const rowNumber = index + 2;
+    const value = (field: string) => (columns[field] >= 0 ? unguardCsvField(row[columns[field]] ?? '').trim() : '');
+
+    // IMDb title URLs are accepted in place of bare IDs
+    const imdbID = extractImdbId(value('imdbID'));
+    const Title = value('Title');
+    if (!imdbID) {
+      errors.push(`Row ${rowNumber}: "${value('imdbID') || 'missing'}" is not a valid IMDb ID`);
+      return;
+    }
+    if (!Title) {
+      errors.push(`Row ${rowNumber}: the title is missing`);
+      return;
+    }
+
+    const watchedAt = parseDate(value('watchedAt'));
+    const addedAt = parseDate(value('addedAt'));
+    if (watchedAt === undefined || addedAt === undefined) {
+      errors.push(`Row ${rowNumber}: the date is not valid`);
+      return;
+    }
+
+    const watchedFlag = value('watched').toLowerCase();
+    entries.push({
+      ...fromStoredTitle({ imdbID, Title, Year: value('Year'), Type: value('Type') || 'movie', Poster: value('Poster') }),
+      addedAt: addedAt ?? importedAt,
+      // A watched date implies the title was watched, even without a Watched column
+      watched: watchedAt !== null || watchedFlag === 'true' || watchedFlag === 'yes',
+      watchedAt,
+      notes: value('notes')
+    });
+  });
+
+  return { entries, errors };
+};
+
+/**
+ * Finds the stored entries in parsed JSON: the entries of every list in a named
+ * list export, the items of an older export, or a bare array of movies
+ * @param data The parsed JSON
+ * @returns The raw entries, or null if the data isn't a watchlist
+ */
+const findJsonItems = (data: unknown): unknown[] | null => {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+
+  const { lists, items } = data as { lists?: unknown; items?: unknown };
+  if (Array.isArray(lists)) {
+    return lists.reduce<unknown[]>((all, list) => {
+      const entries = typeof list === 'object' && list !== null ? (list as { entries?: unknown }).entries : null;
+      return Array.isArray(entries) ? [...all, ...entries] : all;
+    }, []);
+  }
+  return Array.isArray(items) ? items : null;
+};
+
+/**
+ * Reads entries from a JSON export (any schema version, or a bare array of movies)
+ * @param text The JSON text
+ * @param importedAt Date recorded as addedAt for entries without one
+ * @returns The valid entries and any item errors
+ */
+const readJsonEntries = (text: string, importedAt: string): { entries: WatchlistEntry[]; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { entries: [], errors: ['The file is not valid JSON'] };
+  }
+
+  const items = findJsonItems(data);
+  if (!items) {
+    return { entries: [], errors: ['The file does not contain a watchlist'] };
+  }
+
+  const entries: WatchlistEntry[] = [];
+  const errors: string[] = [];
+
+  items.forEach((item, index) => {
+    // Older exports lack the tracking fields, which sanitizing fills in
+    const entry = sanitizeEntry(item);
+    const imdbID = entry && extractImdbId(entry.imdbID);
+    if (!entry || !imdbID) {
+      errors.push(`Item ${index + 1}: the IMDb ID or title is missing`);
+      return;
+    }
+    entries.push({ ...entry, imdbID, addedAt: entry.addedAt || importedAt });
+  });
+
+  return { entries, errors };
+};
+
+/**
+ * Reads an import file and works out what it would add to the watchlist.
+ * JSON is recognised by its content; anything else is read as CSV.
+ * @param text The file contents
+ * @param existing The current watchlist, used to skip titles already listed
+ * @param importedAt When the import happens
+ * @returns The preview of the import
+ */
+export const previewWatchlistImport = (
+  text: string,
+  existing: WatchlistEntry[],
+  importedAt: Date = new Date()
+): WatchlistImportPreview => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { added: [], duplicates: 0, errors: ['The file is empty'] };
+  }
+
+  const { entries, errors } = /^[[{]/.test(trimmed)
+    ? readJsonEntries(trimmed, importedAt.toISOString())
+    : readCsvEntries(text, importedAt.toISOString());
+
+  // De-duplicate by IMDb ID, against the watchlist and within the file itself
+  const seen = new Set(existing.map((entry) => entry.imdbID));
+  const added = entries.filter((entry) => {
+    if (seen.has(entry.imdbID)) {
+      return false;
+    }
+    seen.add(entry.imdbID);
+    return true;
+  });
+
+  return { added, duplicates: entries.length - added.length, errors };
+};
@@ -0,0 +1,75 @@
+/**
+ * AppThemeProvider Component
+ * Applies the light or dark theme to the whole app, following the mode the user
+ * chose (or the operating system setting), and shares that choice with the components.
+ */
+
+import React, { FC, ReactNode, createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { CssBaseline, useMediaQuery } from '@mui/material';
+import { ThemeProvider } from '@mui/material/styles';
+import { ThemeMode, createAppTheme, resolvePaletteMode } from './theme';
+import {
+  DEFAULT_THEME_MODE,
+  ThemeModeStorage,
+  createBrowserThemeModeStorage
+} from '../storage/themeModeStorage';
+
+/**
+ * The chosen color mode and a way to change it.
+ */
+interface ThemeModeContextValue {
+  mode: ThemeMode;                        // The mode the user chose
+  setMode: (mode: ThemeMode) => void;     // Changes and remembers the mode
+}
+
+// Without a provider the mode can't be changed, e.g. when a component is rendered on its own
+const ThemeModeContext = createContext<ThemeModeContextValue>({
+  mode: DEFAULT_THEME_MODE,
+  setMode: () => {}
+});
+
+/**
+ * Reads the color mode chosen by the user
+ * @returns The chosen mode and a setter for it
+ */
+export const useThemeMode = (): ThemeModeContextValue => useContext(ThemeModeContext);
+
+interface AppThemeProviderProps {
+  children: ReactNode;
+  storage?: ThemeModeStorage;   // Storage layer for the chosen mode (swappable in tests)
+}
+
+/**
+ * AppThemeProvider Component
+ * @param children The app
+ * @param storage Storage layer used to remember the chosen mode
+ */
+const AppThemeProvider: FC<AppThemeProviderProps> = ({ children, storage }) => {
+  // Default storage, created once so the chosen mode is only read on startup
+  const [modeStorage] = useState<ThemeModeStorage>(() => storage ?? createBrowserThemeModeStorage());
+
+  // State for the mode the user chose
+  const [mode, setMode] = useState<ThemeMode>(() => modeStorage.load());
+
+  // Whether the operating system is set to dark mode
+  const prefersDark = useMediaQuery('(prefers-color-scheme: dark)');
+
+  // Effect to remember the chosen mode
+  useEffect(() => {
+    modeStorage.save(mode);
+  }, [modeStorage, mode]);
+
+  const theme = useMemo(() => createAppTheme(resolvePaletteMode(mode, prefersDark)), [mode, prefersDark]);
+  const value = useMemo(() => ({ mode, setMode }), [mode]);
+
+  return (
+    <ThemeModeContext.Provider value={value}>
+      <ThemeProvider theme={theme}>
+        <CssBaseline enableColorScheme />
+        {children}
+      </ThemeProvider>
+    </ThemeModeContext.Provider>
+  );
+};
+
+export default AppThemeProvider;
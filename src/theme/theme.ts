@@ -0,0 +1,93 @@
+/**
+ * App Theme
+ * Builds the light and dark MUI themes, including the tokens for the app's own
+ * surfaces (the search bar and the results list), so components never hard-code colors.
+ */
+import { PaletteMode } from '@mui/material';
+import { Theme, createTheme } from '@mui/material/styles';
+
+// The color modes the user can choose, "system" following the operating system setting
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+export const THEME_MODES: ThemeMode[] = ['light', 'system', 'dark'];
+
+/**
+ * Colors of the search bar, which stays dark in both modes.
+ */
+export interface SearchBarPalette {
+  main: string;           // Background of the bar
+  contrastText: string;   // Text, icons and controls on the bar
+  muted: string;          // Underlines and disabled controls
+  track: string;          // Slider rail
+  hover: string;          // Highlight of hovered controls
+}
+
+/**
+ * Colors of the results list and the strips of posters.
+ */
+export interface ResultsPalette {
+  selected: string;       // Background of the selected result
+  scrollbar: string;      // Scrollbar thumb
+  overlay: string;        // Background of buttons laid over a poster
+  overlayHover: string;   // Background of hovered buttons laid over a poster
+}
+
+declare module '@mui/material/styles' {
+  interface Palette {
+    searchBar: SearchBarPalette;
+    results: ResultsPalette;
+  }
+  interface PaletteOptions {
+    searchBar?: SearchBarPalette;
+    results?: ResultsPalette;
+  }
+}
+
+/**
+ * Resolves the mode chosen by the user to the palette to show
+ * @param mode The chosen mode
+ * @param prefersDark Whether the operating system is set to dark mode
+ * @returns The palette mode
+ */
+export const resolvePaletteMode = (mode: ThemeMode, prefersDark: boolean): PaletteMode =>
+  mode === 'system' ? (prefersDark ? 'dark' : 'light') : mode;
+
+/**
+ * Creates the app theme for a palette mode
+ * @param mode Light or dark
+ * @returns The MUI theme
+ */
+export const createAppTheme = (mode: PaletteMode): Theme =>
+  createTheme({
+    palette: {
+      mode,
+      searchBar: mode === 'light'
+        ? {
+            main: '#727272',
+            contrastText: '#ffffff',
+            muted: 'rgba(255, 255, 255, 0.5)',
+            track: 'rgba(255, 255, 255, 0.3)',
+            hover: 'rgba(255, 255, 255, 0.1)'
+          }
+        : {
+            main: '#2e2e2e',
+            contrastText: '#f5f5f5',
+            muted: 'rgba(245, 245, 245, 0.5)',
+            track: 'rgba(245, 245, 245, 0.3)',
+            hover: 'rgba(245, 245, 245, 0.1)'
+          },
+      results: mode === 'light'
+        ? {
+            selected: 'rgba(0, 0, 0, 0.2)',
+            scrollbar: 'rgba(0, 0, 0, 0.2)',
+            overlay: 'rgba(0, 0, 0, 0.5)',
+            overlayHover: 'rgba(0, 0, 0, 0.7)'
+          }
+        : {
+            selected: 'rgba(255, 255, 255, 0.16)',
+            scrollbar: 'rgba(255, 255, 255, 0.24)',
+            overlay: 'rgba(0, 0, 0, 0.6)',
+            overlayHover: 'rgba(0, 0, 0, 0.8)'
+          }
+    }
+  });
@@ -0,0 +1,27 @@
+/**
+ * Title Text Tests
+ * Covers reading and writing release years and runtimes.
+ */
+
+import { formatRuntime, formatYears, parseYears } from './titleText';
+
+describe('titleText', () => {
+  test('reads single years, spans and running series', () => {
+    expect(parseYears('1999')).toEqual({ year: 1999 });
+    expect(parseYears('2008–2013')).toEqual({ year: 2008, endYear: 2013 });
+    expect(parseYears('2019–')).toEqual({ year: 2019, endYear: null });
+    expect(parseYears('N/A')).toEqual({ year: null });
+    expect(parseYears(undefined)).toEqual({ year: null });
+  });
+
+  test('writes the years back as they were read', () => {
+    ['1999', '2008–2013', '2019–', ''].forEach((text) => {
+      expect(formatYears(parseYears(text))).toBe(text);
+    });
+  });
+
+  test('writes runtimes in minutes', () => {
+    expect(formatRuntime(142)).toBe('142 min');
+    expect(formatRuntime(null)).toBe('');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Title Text
+ * Converts title fields to and from the text they are shown and saved as, such
+ * as release years ("2008–2013") and runtimes ("142 min").
+ */
+import { Movie } from '../types';
+
+// Separates the first and last year of a series, e.g. "2008–2013" or "2019–"
+const YEAR_SPAN_PATTERN = /^(\d{4})(?:\s*([–-])\s*(\d{4})?)?$/;
+
+/**
+ * Reads release years written as text, e.g. "1999", "2008–2013" or "2019–" for
+ * a series that is still running
+ * @param text The years as text
+ * @returns The first year, and the last year for a span (null while still running)
+ */
+export const parseYears = (text: string | undefined): Pick<Movie, 'year' | 'endYear'> => {
+  const match = text?.trim().match(YEAR_SPAN_PATTERN);
+  if (!match) {
+    return { year: null };
+  }
+
+  const year = parseInt(match[1], 10);
+  if (!match[2]) {
+    return { year };
+  }
+  return { year, endYear: match[3] ? parseInt(match[3], 10) : null };
+};
+
+/**
+ * Writes the release years of a title as text
+ * @param movie The title
+ * @returns The years, e.g. "1999", "2008–2013" or "2019–", or '' when unknown
+ */
+export const formatYears = ({ year, endYear }: Pick<Movie, 'year' | 'endYear'>): string => {
+  if (year === null) {
+    return '';
+  }
+  if (endYear === undefined) {
+    return String(year);
+  }
+  return `${year}–${endYear ?? ''}`;
+};
+
+/**
+ * Writes a runtime as text
+ * @param minutes The runtime in minutes
+ * @returns The runtime, e.g. "142 min", or '' when unknown
+ */
+export const formatRuntime = (minutes: number | null): string =>
+  minutes === null ? '' : `${minutes} min`;
@@ -1,21 +1,66 @@
+/**
+ * Domain Types
+ * The structures used throughout the application. Metadata providers (see
+ * `src/providers`) map their own responses to these, so components never see a
+ * provider's wire format. Saved lists and exported files keep their own field
+ * names, which the storage serializers map to and from these.
+ */
+
+/**
+ * The kinds of title that can be searched for ('' for any kind).
+ */
+export type TitleType = 'movie' | 'series' | 'episode' | '';
+
 /**
  * The structure of a Movie object used in the application.
 */
 export interface Movie {
-    Title: string;  //The title of the movie.
-    Year: string;   //The year the movie was relesed. 
-    imdbID: string; //The IMDb ID of the movie
-    Type: string;   //The type of the movie
-    Poster: string; //The URL of the movie poster image.
-    Plot?: string; //The plot description of the movie.(Optional)
+    title: string;              //The title of the movie.
+    year: number | null;        //The year the movie was released (the first year, for series), or null if unknown.
+    endYear?: number | null;    //The last year of a series, or null while it is still running. (Optional)
+    imdbID: string;             //The IMDb ID of the movie
+    type: string;               //The type of the movie ('movie', 'series', 'episode' or 'game')
+    poster: string | null;      //The URL of the movie poster image, or null if there is none.
+}
+
+/**
+ * The structure of a WatchlistEntry object for a movie saved to the watchlist.
+ * WatchlistEntry extends the basic movie structure 'Movie' with the user's own tracking fields.
+*/
+export interface WatchlistEntry extends Movie {
+    addedAt: string;            //When the movie was added (ISO date string).
+    watched: boolean;           //Whether the user has watched the movie.
+    watchedAt: string | null;   //When the movie was marked as watched (ISO date string).
+    notes: string;              //Free-text notes about the movie.
+}
+
+/**
+ * The structure of a NamedList object for a user-created list of movies.
+ * The default watchlist is a NamedList too, and can't be deleted.
+*/
+export interface NamedList {
+    id: string;                 //Unique ID of the list.
+    name: string;               //Name given to the list by the user.
+    entries: WatchlistEntry[];  //The entries in the list, in the user's order.
 }
 
 /**
  * The structure of a Rating object from the API response
  */
 export interface Rating {
-    Source: string;  // The source of the rating ("IMDB", "Rotten Tomatoes, Metacritic")
-    Value: string;   // The rating value (can include % or other formats)
+    source: string;  // The source of the rating ("Internet Movie Database", "Rotten Tomatoes", "Metacritic")
+    value: string;   // The rating as the source shows it (e.g. "7.5/10" or "85%")
+}
+
+/**
+ * The structure of a NormalizedRating object, a Rating parsed into numbers
+ * so ratings from different sources can be compared and combined.
+ */
+export interface NormalizedRating {
+    source: string;             // The rating source as named by OMDb ("Internet Movie Database", ...)
+    value: number;              // The rating on its own scale (e.g. 7.5)
+    scale: number;              // The top of the source's scale (e.g. 10)
+    normalized0to100: number;   // The rating rescaled to 0–100
 }
 
 /**
@@ -26,28 +71,94 @@ export interface YearRange {
     endYear: number;    // The end year for filtering
 }
 
+/**
+ * The structure of the advanced filters, which need each result's details
+ */
+export interface DetailFilters {
+    genres: string[];           // Results must have at least one of these genres (empty for any)
+    minRating: number | null;   // Minimum IMDb rating, out of 10
+    maxRuntime: number | null;  // Maximum runtime in minutes
+    rated: string[];            // Allowed content ratings, e.g. 'PG-13' (empty for any)
+}
+
 /**
  * The structure of a MovieDetail object used in the application.
  * MovieDetail extends the basic movie structure 'Movie' by adding additional fields.
 */
 export interface MovieDetail extends Movie {
-    Plot: string;   //The plot description of the movie.
-    Director: string;   //The name of the movie director.
-    Actors: string; //The list of the actors in the movie.
-    Genre: string;  //The genres of the movie.
-    Runtime: string;    //The runtime of the movie.
-    Rated: string;  //The content rating of the movie.
-    imdbRating: string; //The IMDb rating of the movie.
-    Ratings?: Rating[];  // Array of ratings from different sources
-    Response: string;   //The response status from the API
-}
-
-/**
- * The structure of the API response for a movie search operation.
-*/
-export interface SearchResponse {
-    Search: Movie[];    //The array of movies matching the search criteria.
-    totalResults: string;   //The total no of results
-    Response: string;   //The response status from the API
-    Error?: string; //The error message if the response is unsuccessful. (Optianl)
-}
\ No newline at end of file
+    plot: string | null;            //The plot description of the movie, or null if there is none.
+    directors: string[];            //The directors of the movie.
+    actors: string[];               //The main actors in the movie.
+    genres: string[];               //The genres of the movie.
+    runtimeMinutes: number | null;  //The runtime of the movie in minutes, or null if unknown.
+    rated: string | null;           //The content rating of the movie (e.g. 'PG-13'), or null if unrated.
+    imdbRating: number | null;      //The IMDb rating of the movie out of 10, or null if unrated.
+    ratings: Rating[];              //The ratings from different sources.
+    totalSeasons?: number;          //The number of seasons, for series. (Optional)
+}
+
+/**
+ * The structure of an episode as listed in a Season.
+*/
+export interface SeasonEpisode {
+    title: string;              //The title of the episode.
+    released: string | null;    //The release date of the episode (YYYY-MM-DD), or null if unknown.
+    episode: number;            //The episode number within the season.
+    imdbRating: number | null;  //The IMDb rating of the episode out of 10, or null if unrated.
+    imdbID: string;             //The IMDb ID of the episode.
+}
+
+/**
+ * The structure of a season of a series and its episodes.
+*/
+export interface Season {
+    seriesTitle: string;        //The title of the series.
+    season: number;             //The season number.
+    totalSeasons: number;       //The number of seasons in the series.
+    episodes: SeasonEpisode[];  //The episodes in the season.
+}
+
+/**
+ * The structure of a single episode of a series.
+ * Episode extends MovieDetail with its place in the series.
+*/
+export interface Episode extends MovieDetail {
+    season: number;             //The season number.
+    episode: number;            //The episode number within the season.
+    seriesID: string;           //The IMDb ID of the series.
+    released: string | null;    //The release date of the episode, or null if unknown.
+}
+
+/**
+ * The structure of one page of search results.
+*/
+export interface SearchPage {
+    movies: Movie[];        //The movies on this page.
+    totalResults: number;   //The total no of results across all pages
+}
+
+/**
+ * The structure of a search saved to the search history.
+*/
+export interface SearchHistoryEntry {
+    query: string;                  //The search query.
+    type: TitleType;                //The type filter.
+    yearRange: YearRange | null;    //The year range filter, or null for any year.
+    searchedAt: string;             //When the search was run (ISO date string).
+}
+
+/**
+ * The structure of a title saved to the recently viewed titles.
+ * RecentlyViewedEntry extends the basic movie structure 'Movie' with when it was viewed.
+*/
+export interface RecentlyViewedEntry extends Movie {
+    viewedAt: string;   //When the title's details were last opened (ISO date string).
+}
+
+/**
+ * The structure of the user's search history and recently viewed titles.
+*/
+export interface SearchHistory {
+    searches: SearchHistoryEntry[];             //Recent searches, newest first.
+    recentlyViewed: RecentlyViewedEntry[];      //Recently viewed titles, newest first.
+}